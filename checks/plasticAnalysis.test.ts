@@ -0,0 +1,70 @@
+// plasticAnalysis.test.ts
+// Collapse load factors of classic mechanisms, λc from the plastic moment.
+
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { BeamCalculator } from '../src/components/BeamAnalysis/calculations';
+import { analyzePlasticCollapse } from '../src/components/BeamAnalysis/plasticAnalysis';
+import { Load, Support } from '../src/components/BeamAnalysis/types';
+
+const near = (actual: number, expected: number, tolerance = 1e-3) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected)), `${actual} is not ${expected}`);
+
+// 100 × 200 mm steel section, fy = 250 MPa: Mp = Zx·fy = 250 kN·m, My = Sx·fy = 166.7 kN·m
+const Mp = 250;
+const My = Mp / 1.5;
+const w = 10;  // kN/m
+const collapse = (length: number, supports: Support[], loads: Load[]) => analyzePlasticCollapse(
+  (collapseLoads, collapseSupports, hinges) => new BeamCalculator(length, 200, 100, { elasticModulus: 200000, shearModulus: 77000 }, collapseSupports, collapseLoads, { hinges }),
+  length,
+  supports,
+  loads,
+  250
+);
+const udl = (length: number): Load[] => [{ id: 1, type: 'distributed', position: 0, length, magnitude: w }];
+
+test('simply supported beam: one hinge at midspan', () => {
+  const L = 6;
+  const result = collapse(L, [{ id: 1, type: 'pin', position: 0 }, { id: 2, type: 'roller', position: L }], udl(L));
+  near(result.plasticMoment, Mp);
+  near(result.firstYieldFactor, (8 * My) / (w * L ** 2));
+  near(result.collapseFactor, (8 * Mp) / (w * L ** 2));
+  assert.equal(result.hinges.length, 1);
+});
+
+test('fixed-fixed beam: hinges at both ends, then midspan', () => {
+  const L = 6;
+  const result = collapse(L, [{ id: 1, type: 'fixed', position: 0 }, { id: 2, type: 'fixed', position: L }], udl(L));
+  near(result.collapseFactor, (16 * Mp) / (w * L ** 2));
+  assert.deepEqual(result.hinges.map(hinge => hinge.position), [0, L, L / 2]);
+});
+
+test('propped cantilever: λc = 11.657 Mp / wL²', () => {
+  const L = 6;
+  const result = collapse(L, [{ id: 1, type: 'fixed', position: 0 }, { id: 2, type: 'roller', position: L }], udl(L));
+  near(result.collapseFactor, (11.657 * Mp) / (w * L ** 2));
+  near(result.hinges[1].position, 0.586 * L, 0.01);
+});
+
+test('two-span beam with midspan point loads: λc = 6Mp / PL', () => {
+  const L = 4;
+  const P = 10;
+  const result = collapse(2 * L, [
+    { id: 1, type: 'pin', position: 0 },
+    { id: 2, type: 'roller', position: L },
+    { id: 3, type: 'roller', position: 2 * L },
+  ], [
+    { id: 1, type: 'point', position: L / 2, magnitude: P },
+    { id: 2, type: 'point', position: 1.5 * L, magnitude: P },
+  ]);
+  near(result.collapseFactor, (6 * Mp) / (P * L));
+});
+
+test('cantilever whose support sits within the tolerance of the end', () => {
+  const L = 3;
+  const P = 10;
+  const result = collapse(L, [{ id: 1, type: 'fixed', position: 1e-8 }], [{ id: 1, type: 'point', position: L, magnitude: P }]);
+  near(result.collapseFactor, Mp / (P * L));
+  assert.deepEqual(result.hinges.map(hinge => hinge.position), [0]);
+});
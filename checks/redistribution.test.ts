@@ -0,0 +1,103 @@
+// redistribution.test.ts
+// Checks of ACI 318-19 moment redistribution against hand calculations.
+
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { BeamCalculator } from '../src/components/BeamAnalysis/calculations';
+import {
+  MAX_REDISTRIBUTION,
+  hoggingTensileStrain,
+  permissibleRedistribution,
+  redistributableSupports,
+  redistributeDiagram,
+} from '../src/components/BeamAnalysis/redistribution';
+import { DiagramPoint, ProvidedReinforcement, Support } from '../src/components/BeamAnalysis/types';
+
+const near = (actual: number, expected: number, tolerance = 1e-3) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected)), `${actual} is not ${expected}`);
+
+// 300 × 500 mm section, f'c = 30 MPa, fy = 420 MPa, bars 60 mm from either face
+const width = 300;
+const height = 500;
+const bars = (bottom: number, top: number): ProvidedReinforcement => ({
+  tensionSteel: bottom,
+  effectiveDepth: 440,
+  compressionSteel: top,
+  compressionDepth: 60,
+  concreteStrength: 30,
+  steelYieldStrength: 420,
+});
+const beta1 = 0.85 - (0.05 * (30 - 28)) / 7;
+
+test('net tensile strain of a hogging section without top bars', () => {
+  // Bottom bars mirrored: As = 1500 mm² at d = 440 mm, steel yielding
+  const c = (1500 * 420) / (0.85 * 30 * width) / beta1;
+  near(hoggingTensileStrain(bars(1500, 0), width, height), (0.003 * (440 - c)) / c);
+});
+
+test('net tensile strain of a doubly reinforced hogging section', () => {
+  // Top bars 1500 mm² in tension at d = 440 mm, bottom bars 600 mm² in
+  // compression at d' = 60 mm below yield: 0.85f'c·β1·b·c + As'(Es·εs' − 0.85f'c) = As·fy
+  const a = 0.85 * 30 * beta1 * width;
+  const b = 600 * (600 - 0.85 * 30) - 1500 * 420;
+  const k = -600 * 600 * 60;
+  const c = (-b + Math.sqrt(b ** 2 - 4 * a * k)) / (2 * a);
+  near(hoggingTensileStrain(bars(600, 1500), width, height), (0.003 * (440 - c)) / c);
+  // Lightly reinforced over the support: the full 20 % is allowed
+  assert.equal(permissibleRedistribution(hoggingTensileStrain(bars(1500, 600), width, height)), MAX_REDISTRIBUTION);
+});
+
+test('no redistribution without a finite strain of at least 0.0075', () => {
+  assert.equal(permissibleRedistribution(Infinity), 0);
+  assert.equal(permissibleRedistribution(NaN), 0);
+  assert.equal(permissibleRedistribution(-0.003), 0);
+  assert.equal(permissibleRedistribution(0.007), 0);
+  near(permissibleRedistribution(0.0104), 10.4);
+});
+
+test('redistributable supports', () => {
+  const pinned: Support[] = [{ id: 1, type: 'pin', position: 0, rotationalStiffness: 0 }, { id: 2, type: 'roller', position: 4 }];
+  assert.deepEqual(redistributableSupports(4, pinned), []);
+  const continuous: Support[] = [...pinned, { id: 3, type: 'roller', position: 8 }];
+  assert.deepEqual(redistributableSupports(8, continuous), [4]);
+  assert.deepEqual(redistributableSupports(8, continuous, [6]), []);
+  assert.deepEqual(redistributableSupports(4, [{ id: 1, type: 'fixed', position: 0 }, { id: 2, type: 'roller', position: 4 }]), [0]);
+});
+
+test('hogging moment at an interior support reduced by 20 %', () => {
+  const L = 4;
+  const w = 10;
+  const supports: Support[] = [
+    { id: 1, type: 'pin', position: 0 },
+    { id: 2, type: 'roller', position: L },
+    { id: 3, type: 'roller', position: 2 * L },
+  ];
+  const diagram = new BeamCalculator(2 * L, 500, 300, { elasticModulus: 25000, shearModulus: 10000 }, supports, [
+    { id: 1, type: 'distributed', position: 0, length: 2 * L, magnitude: w },
+  ]).generateDiagramData(80);
+  const redistributed = redistributeDiagram(diagram, [0, L, 2 * L], [L], 0.2);
+  const at = (points: DiagramPoint[], x: number) => points.find(point => Math.abs(point.position - x) < 1e-9)!;
+  near(at(redistributed, L).moment, 0.8 * -(w * L ** 2) / 8);
+  // The change fades linearly to the end supports, with a constant change in shear
+  near(at(redistributed, L / 2).moment, at(diagram, L / 2).moment + (0.2 * (w * L ** 2)) / 8 / 2);
+  near(at(redistributed, 0).moment, 0);
+  near(at(redistributed, 0).shear, at(diagram, 0).shear + (0.2 * (w * L ** 2)) / 8 / L);
+});
+
+test('sagging moments at a support are left as they are', () => {
+  const diagram: DiagramPoint[] = [0, 1, 2, 3, 4].map(position => ({
+    position,
+    shear: 0,
+    moment: position === 2 ? 5 : 1,
+    torsion: 0,
+    axialForce: 0,
+    rotation: 0,
+    deflection: 0,
+    normalStress: 0,
+    shearStress: 0,
+    torsionalStress: 0,
+    vonMisesStress: 0,
+  }));
+  assert.deepEqual(redistributeDiagram(diagram, [0, 2, 4], [2], 0.2).map(point => point.moment), [1, 1, 5, 1, 1]);
+});
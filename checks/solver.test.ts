@@ -0,0 +1,56 @@
+// solver.test.ts
+// Closed-form checks of the direct-stiffness beam solution.
+
+/// <reference types="node" />
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { BeamCalculator } from '../src/components/BeamAnalysis/calculations';
+import { Load, Support } from '../src/components/BeamAnalysis/types';
+
+const steel = { elasticModulus: 200000, shearModulus: 77000 };
+const EI = 200000 * 1e3 * (0.1 * 0.2 ** 3) / 12;  // kN·m², 100 × 200 mm section
+const w = 10;  // kN/m
+const udl = (length: number): Load[] => [{ id: 1, type: 'distributed', position: 0, length, magnitude: w }];
+const beam = (length: number, supports: Support[], loads: Load[]) => new BeamCalculator(length, 200, 100, steel, supports, loads);
+
+const near = (actual: number, expected: number, tolerance = 1e-3) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected)), `${actual} is not ${expected}`);
+
+test('simply supported beam under a uniform load', () => {
+  const L = 6;
+  const calculator = beam(L, [{ id: 1, type: 'pin', position: 0 }, { id: 2, type: 'roller', position: L }], udl(L));
+  calculator.calculateReactions().forEach(reaction => near(reaction.force, (w * L) / 2));
+  near(calculator.calculateMoment(L / 2), (w * L ** 2) / 8);
+  near(calculator.calculateShear(0), (w * L) / 2);
+  near(calculator.calculateDeflection(L / 2), ((5 * w * L ** 4) / (384 * EI)) * 1000);
+});
+
+test('fixed-fixed beam under a uniform load', () => {
+  const L = 6;
+  const calculator = beam(L, [{ id: 1, type: 'fixed', position: 0 }, { id: 2, type: 'fixed', position: L }], udl(L));
+  near(calculator.calculateMoment(0), -(w * L ** 2) / 12);
+  near(calculator.calculateMoment(L / 2), (w * L ** 2) / 24);
+  near(calculator.calculateDeflection(L / 2), ((w * L ** 4) / (384 * EI)) * 1000);
+});
+
+test('cantilever under an end point load', () => {
+  const L = 3;
+  const P = 5;
+  const calculator = beam(L, [{ id: 1, type: 'fixed', position: 0 }], [{ id: 1, type: 'point', position: L, magnitude: P }]);
+  near(calculator.calculateMoment(0), -P * L);
+  near(calculator.calculateDeflection(L), ((P * L ** 3) / (3 * EI)) * 1000);
+});
+
+test('two equal continuous spans under a uniform load', () => {
+  const L = 4;
+  const calculator = beam(2 * L, [
+    { id: 1, type: 'pin', position: 0 },
+    { id: 2, type: 'roller', position: L },
+    { id: 3, type: 'roller', position: 2 * L },
+  ], udl(2 * L));
+  const [left, middle, right] = calculator.calculateReactions().map(reaction => reaction.force);
+  near(left, 0.375 * w * L);
+  near(middle, 1.25 * w * L);
+  near(right, 0.375 * w * L);
+  near(calculator.calculateMoment(L), -(w * L ** 2) / 8);
+});
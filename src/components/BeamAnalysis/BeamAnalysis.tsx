@@ -1,11 +1,30 @@
 // Code for Beam Analysis Component
 "use client";
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { BeamCalculator } from './calculations';
-import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
-import { Trash2, Info, ChevronDown, ChevronUp, Plus, Box, BarChart2, Ruler, Save, FolderOpen, Sun, Moon, FileText, Loader2, ClipboardCheck } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend, ReferenceLine, ReferenceArea } from 'recharts';
+import { Trash2, Info, ChevronDown, ChevronUp, Plus, Box, BarChart2, Ruler, Save, FolderOpen, Sun, Moon, FileText, Loader2, ClipboardCheck, TrendingUp, Thermometer, ArrowLeftRight, Lock } from 'lucide-react';
 import BeamDeformationVisualization from './BeamDeformationVisualization';
-import { Load, MaterialProperties, Reactions, SectionProperties, DiagramPoint, BeamProject } from './types';
+import { Load, MaterialProperties, Reactions, SectionProperties, DiagramPoint, BeamProject, Support, SupportType, LoadCase, LoadCombination, EnvelopePoint, ElasticFoundation, Hinge, BeamSegment, BeamAnalysisOptions, SecondOrderAmplification, LateralBrace, BucklingSegment, VibrationMode, ProvidedReinforcement, LongTermSettings, DeflectionLimit, DeflectionCheck, MomentRedistribution, PlasticAnalysisSettings } from './types';
+import { checkStability } from './stability';
+import { analyzeLoadCombinations, computeEnvelope, DEFAULT_LOAD_CASE, DEFAULT_LOAD_COMBINATIONS, factorLoads, LOAD_CASES, spansOf } from './loadCombinations';
+import LoadCombinationsPanel from './LoadCombinationsPanel';
+import FoundationPanel from './FoundationPanel';
+import SegmentsPanel from './SegmentsPanel';
+import BucklingPanel from './BucklingPanel';
+import MovingLoadPanel from './MovingLoadPanel';
+import ModalAnalysisPanel from './ModalAnalysisPanel';
+import TimeHistoryPanel from './TimeHistoryPanel';
+import CrackedSectionPanel from './CrackedSectionPanel';
+import LongTermDeflectionPanel from './LongTermDeflectionPanel';
+import ServiceabilityPanel from './ServiceabilityPanel';
+import { checkDeflectionLimits, DEFAULT_DEFLECTION_LIMITS } from './serviceability';
+import RedistributionPanel from './RedistributionPanel';
+import LateralBendingPanel from './LateralBendingPanel';
+import { DEFAULT_REDISTRIBUTION, hoggingTensileStrain, permissibleRedistribution, redistributableSupports, redistributeCombinations } from './redistribution';
+import PlasticCollapsePanel from './PlasticCollapsePanel';
+import { analyzePlasticCollapse, DEFAULT_PLASTIC_ANALYSIS, DEFAULT_YIELD_STRENGTH, PlasticCollapse } from './plasticAnalysis';
+import { analyzeLongTermDeflection, DEFAULT_LONG_TERM_SETTINGS, LongTermDeflection } from './longTermDeflection';
 import ProjectManagement from './ProjectManagement';
 import { useTheme } from '../ThemeProvider';
 import { useTabContext } from '../TabContext';
@@ -29,6 +48,58 @@ const engineeringFacts = [
 
 const getRandomFact = () => engineeringFacts[Math.floor(Math.random() * engineeringFacts.length)];
 
+type ChartPoint = DiagramPoint & { envelope?: EnvelopePoint };
+
+// Tooltip rows for the diagrams, naming the governing combination on envelope lines
+const diagramTooltipFormatter = (unit: string, quantity: 'shear' | 'moment') =>
+  (value: number, name: string, item: { payload?: ChartPoint }): [string, string] => {
+    const envelope = item.payload?.envelope?.[quantity];
+    const label = envelope && name === 'Envelope Max' ? `Max (${envelope.maxCombination})`
+      : envelope && name === 'Envelope Min' ? `Min (${envelope.minCombination})`
+      : name;
+    return [`${value.toFixed(2)} ${unit}`, label];
+  };
+
+const defaultSupports: Support[] = [
+  { id: 1, type: 'pin', position: 0 },
+  { id: 2, type: 'roller', position: 4 },
+];
+
+// Projects saved before supports became a list only carry a start and end support
+type LegacyBeamProject = BeamProject & {
+  startSupport?: SupportType | 'free';
+  endSupport?: SupportType | 'free';
+  startSupportPosition?: number;
+  endSupportPosition?: number;
+};
+
+const normalizeProject = (project: LegacyBeamProject): BeamProject => {
+  // Projects saved before load combinations existed use the code combinations
+  const loadCombinations = project.loadCombinations ?? DEFAULT_LOAD_COMBINATIONS;
+  const patternLiveLoad = project.patternLiveLoad ?? true;
+  const foundations = project.foundations ?? [];
+  const hinges = project.hinges ?? [];
+  const segments = project.segments ?? [];
+  const lateralBraces = project.lateralBraces ?? [];
+  const shearDeformation = project.shearDeformation ?? false;
+  const shearAreaFactor = project.shearAreaFactor ?? BeamCalculator.RECTANGULAR_SHEAR_AREA_FACTOR;
+  const secondOrder = project.secondOrder ?? false;
+  const selfWeight = project.selfWeight ?? false;
+  const crackedSection = project.crackedSection ?? false;
+  const reinforcement = project.reinforcement ?? null;
+  const longTermSettings = project.longTermSettings ?? DEFAULT_LONG_TERM_SETTINGS;
+  const deflectionLimits = project.deflectionLimits ?? DEFAULT_DEFLECTION_LIMITS;
+  const redistribution = project.redistribution ?? DEFAULT_REDISTRIBUTION;
+  const plasticAnalysis = project.plasticAnalysis ?? DEFAULT_PLASTIC_ANALYSIS;
+  const structure = { foundations, hinges, segments, lateralBraces, shearDeformation, shearAreaFactor, secondOrder, selfWeight, crackedSection, reinforcement, longTermSettings, deflectionLimits, redistribution, plasticAnalysis };
+  if (Array.isArray(project.supports)) return { ...project, ...structure, loadCombinations, patternLiveLoad };
+  const supports: Support[] = [
+    { id: 1, type: project.startSupport ?? 'pin', position: project.startSupportPosition ?? 0 },
+    { id: 2, type: project.endSupport ?? 'roller', position: project.endSupportPosition ?? project.beamLength },
+  ].filter((support): support is Support => support.type !== 'free');
+  return { ...project, supports, ...structure, loadCombinations, patternLiveLoad, reactions: [] };
+};
+
 // Add prop types
 interface BeamAnalysisProps {
   onBeamDataChange?: (data: {
@@ -60,20 +131,76 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
   const [beamWidth, setBeamWidth] = useState<number>(300); // mm
   const [materialProps, setMaterialProps] = useState<MaterialProperties>({
     elasticModulus: 200000,
-    shearModulus: 77000
+    shearModulus: 77000,
+    thermalExpansion: 12e-6,
+    density: 7850
   });
   // Initialize loads with proper typing
   const [loads, setLoads] = useState<Load[]>([]);
-  const [startSupportPosition, setStartSupportPosition] = useState<number>(0);
-  const [endSupportPosition, setEndSupportPosition] = useState<number>(4);
-  const [startSupport, setStartSupport] = useState<'pin' | 'roller' | 'fixed' | 'free'>('pin');
-  const [endSupport, setEndSupport] = useState<'pin' | 'roller' | 'fixed' | 'free'>('roller');
-  const [reactions, setReactions] = useState<Reactions>({
-    reactionA: 0,
-    reactionB: 0,
-    momentA: 0,
-    momentB: 0
-  });
+  const [supports, setSupports] = useState<Support[]>(defaultSupports);
+  const [foundations, setFoundations] = useState<ElasticFoundation[]>([]);
+  const [hinges, setHinges] = useState<Hinge[]>([]);
+  const [segments, setSegments] = useState<BeamSegment[]>([]);
+  const [lateralBraces, setLateralBraces] = useState<LateralBrace[]>([]);
+  const [shearDeformation, setShearDeformation] = useState<boolean>(false);
+  const [shearAreaFactor, setShearAreaFactor] = useState<number>(BeamCalculator.RECTANGULAR_SHEAR_AREA_FACTOR);
+  const [secondOrder, setSecondOrder] = useState<boolean>(false);
+  const [crackedSection, setCrackedSection] = useState<boolean>(false);
+  const [reinforcement, setReinforcement] = useState<ProvidedReinforcement | null>(null);
+  const [longTermSettings, setLongTermSettings] = useState<LongTermSettings>(DEFAULT_LONG_TERM_SETTINGS);
+  const [deflectionLimits, setDeflectionLimits] = useState<DeflectionLimit[]>(DEFAULT_DEFLECTION_LIMITS);
+  // Structural modelling beyond the supports, shared by every analysis
+  const structureOptions = useMemo<BeamAnalysisOptions>(
+    () => ({ foundations, hinges, segments, shearDeformation, shearAreaFactor, secondOrder }),
+    [foundations, hinges, segments, shearDeformation, shearAreaFactor, secondOrder]
+  );
+  // Cracked-section stiffness is for service deflections: the loads as entered, service
+  // combinations, long-term deflections and deflection limits. Strength combinations,
+  // moving loads, buckling and the dynamic and plastic analyses keep the gross section.
+  const serviceOptions = useMemo<BeamAnalysisOptions>(
+    () => ({ ...structureOptions, crackedSection: crackedSection && reinforcement ? reinforcement : undefined }),
+    [structureOptions, crackedSection, reinforcement]
+  );
+  const stability = useMemo(
+    () => checkStability(beamLength, supports, hinges, foundations),
+    [beamLength, supports, hinges, foundations]
+  );
+  const [selfWeight, setSelfWeight] = useState<boolean>(false);
+  // The beam's own weight follows the section and density as they change
+  const selfWeightLoads = useMemo<Load[]>(() => {
+    if (!selfWeight) return [];
+    try {
+      return new BeamCalculator(beamLength, beamHeight, beamWidth, materialProps, supports, [], structureOptions).calculateSelfWeightLoads();
+    } catch (error) {
+      console.error('Error calculating self-weight:', error);
+      return [];
+    }
+  }, [selfWeight, beamLength, beamHeight, beamWidth, materialProps, supports, structureOptions]);
+  // What every analysis carries: the entered loads and the self-weight
+  const analysisLoads = useMemo(() => [...loads, ...selfWeightLoads], [loads, selfWeightLoads]);
+  const [upliftRegions, setUpliftRegions] = useState<[number, number][]>([]);
+  const [amplification, setAmplification] = useState<SecondOrderAmplification | undefined>();
+  const [lateralIssue, setLateralIssue] = useState<string | null>(null);
+  const [reactions, setReactions] = useState<Reactions>([]);
+  const [loadCombinations, setLoadCombinations] = useState<LoadCombination[]>(DEFAULT_LOAD_COMBINATIONS);
+  const [patternLiveLoad, setPatternLiveLoad] = useState<boolean>(true);
+  const [envelope, setEnvelope] = useState<EnvelopePoint[]>([]);
+  const [elasticEnvelope, setElasticEnvelope] = useState<EnvelopePoint[]>([]);  // before moment redistribution
+  const [redistribution, setRedistribution] = useState<MomentRedistribution>(DEFAULT_REDISTRIBUTION);
+  const [plasticAnalysis, setPlasticAnalysis] = useState<PlasticAnalysisSettings>(DEFAULT_PLASTIC_ANALYSIS);
+  // Redistribution needs the net tensile strain of the designed section over the supports
+  const netTensileStrain = useMemo(
+    () => (reinforcement ? hoggingTensileStrain(reinforcement, beamWidth, beamHeight) : null),
+    [reinforcement, beamWidth, beamHeight]
+  );
+  const permissibleReduction = netTensileStrain === null ? 0 : permissibleRedistribution(netTensileStrain);
+  const redistributedSupports = useMemo(
+    () => redistributableSupports(beamLength, supports, hinges.map(hinge => hinge.position)),
+    [beamLength, supports, hinges]
+  );
+  const redistributionFraction = redistribution.enabled && redistributedSupports.length > 0
+    ? Math.min(redistribution.percent, permissibleReduction) / 100
+    : 0;
   const [showStressInfo, setShowStressInfo] = useState<boolean>(false);
   const [diagramData, setDiagramData] = useState<DiagramPoint[]>([]); // Store diagram data
 
@@ -97,15 +224,22 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
 
   const [calculationError, setCalculationError] = useState<string | null>(null);
 
-  // Calculate maximum values consistently
+  // Calculate maximum values consistently; design forces come from the
+  // strength envelope when any strength combination is active
   const calculateMaxValues = useCallback(() => {
+    if (envelope.some(point => point.moment && point.shear)) {
+      const peak = (value?: { max: number; min: number }) => (value ? Math.max(Math.abs(value.max), Math.abs(value.min)) : 0);
+      const maxMoment = Math.max(...envelope.map(point => peak(point.moment)));
+      const maxShear = Math.max(...envelope.map(point => peak(point.shear)));
+      return { maxMoment, maxShear };
+    }
     if (diagramData.length === 0) {
       return { maxMoment: 0, maxShear: 0 };
     }
     const maxMoment = Math.max(...diagramData.map(d => Math.abs(d.moment)));
     const maxShear = Math.max(...diagramData.map(d => Math.abs(d.shear)));
     return { maxMoment, maxShear };
-  }, [diagramData]);
+  }, [diagramData, envelope]);
 
   // Save projects to local storage whenever they change
   useEffect(() => {
@@ -153,10 +287,23 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
         beamWidth,
         materialProps,
         loads,
-        startSupport,
-        endSupport,
-        startSupportPosition,
-        endSupportPosition,
+        supports,
+        foundations,
+        hinges,
+        segments,
+        lateralBraces,
+        shearDeformation,
+        shearAreaFactor,
+        secondOrder,
+        selfWeight,
+        crackedSection,
+        reinforcement,
+        longTermSettings,
+        deflectionLimits,
+        redistribution,
+        plasticAnalysis,
+        loadCombinations,
+        patternLiveLoad,
         diagramData,
         reactions,
         showStressInfo,
@@ -182,21 +329,35 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
     } finally {
       setIsSaving(false);
     }
-  }, [projectName, beamLength, beamHeight, beamWidth, materialProps, loads, startSupport, endSupport, startSupportPosition, endSupportPosition, diagramData, reactions, showStressInfo, showLoadHelp]);
+  }, [projectName, beamLength, beamHeight, beamWidth, materialProps, loads, supports, foundations, hinges, segments, lateralBraces, shearDeformation, shearAreaFactor, secondOrder, selfWeight, crackedSection, reinforcement, longTermSettings, deflectionLimits, redistribution, plasticAnalysis, loadCombinations, patternLiveLoad, diagramData, reactions, showStressInfo, showLoadHelp]);
 
-  const handleLoadProject = useCallback((project: BeamProject) => {
+  const handleLoadProject = useCallback((savedProject: BeamProject) => {
     setIsLoadingProject(true);
     try {
+      const project = normalizeProject(savedProject);
       setCurrentProject(project);
       setBeamLength(project.beamLength);
       setBeamHeight(project.beamHeight);
       setBeamWidth(project.beamWidth);
       setMaterialProps(project.materialProps);
       setLoads(project.loads);
-      setStartSupport(project.startSupport);
-      setEndSupport(project.endSupport);
-      setStartSupportPosition(project.startSupportPosition);
-      setEndSupportPosition(project.endSupportPosition);
+      setSupports(project.supports);
+      setFoundations(project.foundations);
+      setHinges(project.hinges);
+      setSegments(project.segments);
+      setLateralBraces(project.lateralBraces);
+      setShearDeformation(project.shearDeformation);
+      setShearAreaFactor(project.shearAreaFactor);
+      setSecondOrder(project.secondOrder);
+      setSelfWeight(project.selfWeight);
+      setCrackedSection(project.crackedSection);
+      setReinforcement(project.reinforcement);
+      setLongTermSettings(project.longTermSettings);
+      setDeflectionLimits(project.deflectionLimits);
+      setRedistribution(project.redistribution);
+      setPlasticAnalysis(project.plasticAnalysis);
+      setLoadCombinations(project.loadCombinations);
+      setPatternLiveLoad(project.patternLiveLoad);
       setDiagramData(project.diagramData);
       setReactions(project.reactions);
       setIsProjectModalOpen(false);
@@ -213,7 +374,13 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
     if (loads.length === 0) return true;
     
     for (const load of loads) {
-      if (Math.abs(load.magnitude) < 0.001) {
+      // A triangular load is zero at one end, and a thermal load may have no uniform part
+      const peak = load.type === 'linear'
+        ? Math.max(Math.abs(load.magnitude), Math.abs(load.endMagnitude ?? 0))
+        : load.type === 'thermal'
+          ? Math.max(Math.abs(load.magnitude), Math.abs(load.temperatureGradient ?? 0))
+          : Math.abs(load.magnitude);
+      if (peak < 0.001) {
         alert(`Load magnitude cannot be zero. Please set a non-zero value for the ${load.type} load.`);
         return false;
       }
@@ -227,25 +394,53 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
     beamHeight,
     beamWidth,
     materialProps,
-    startSupport,
-    endSupport,
-    startSupportPosition,
-    endSupportPosition,
+    supports,
     loads,
     reactions,
     diagramData
   };
 
-  // This useEffect is crucial for preventing the infinite loop
+  // Keep supports on the beam when it is shortened
+  useEffect(() => {
+    if (supports.some(support => support.position > beamLength)) {
+      setSupports(prev => prev.map(support =>
+        support.position > beamLength ? { ...support, position: beamLength } : support
+      ));
+    }
+  }, [supports, beamLength]);
+
+  // ...and foundations under it
   useEffect(() => {
-    if (startSupportPosition >= endSupportPosition) {
-      setStartSupportPosition(Math.max(0, endSupportPosition - 0.1));
+    if (foundations.some(foundation => foundation.end > beamLength)) {
+      setFoundations(prev => prev.map(foundation =>
+        foundation.end > beamLength ? { ...foundation, start: Math.min(foundation.start, beamLength), end: beamLength } : foundation
+      ));
     }
-    // Ensure end support position doesn't exceed beam length
-    if (endSupportPosition > beamLength) {
-      setEndSupportPosition(beamLength);
+  }, [foundations, beamLength]);
+
+  // ...and non-prismatic segments within it
+  useEffect(() => {
+    if (segments.some(segment => segment.end > beamLength)) {
+      setSegments(prev => prev.map(segment =>
+        segment.end > beamLength ? { ...segment, start: Math.min(segment.start, beamLength), end: beamLength } : segment
+      ));
     }
-  }, [startSupportPosition, endSupportPosition, beamLength]);
+  }, [segments, beamLength]);
+
+  const addHinge = useCallback(() => {
+    setCalculationError(null);
+    setHinges(prev => [...prev, { id: Math.max(0, ...prev.map(h => h.id)) + 1, position: beamLength / 2 }]);
+  }, [beamLength]);
+
+  const updateHinge = useCallback((id: number, position: number) => {
+    setCalculationError(null);
+    setHinges(prev => prev.map(hinge => (hinge.id === id ? { ...hinge, position: Math.max(0, Math.min(position, beamLength)) } : hinge)));
+  }, [beamLength]);
+
+  const removeHinge = useCallback((id: number) => {
+    setCalculationError(null);
+    setHinges(prev => prev.filter(hinge => hinge.id !== id));
+  }, []);
 
   // Add validation state for beam properties
   const [beamLengthError, setBeamLengthError] = useState<string | null>(null);
@@ -281,17 +476,45 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
     if (!error) setBeamWidth(value);
   };
 
-  // Update support position handler with proper validation
-  const handleSupportPositionChange = useCallback((position: number, isStart: boolean) => {
+  const addSupport = useCallback(() => {
+    const lastPosition = Math.max(0, ...supports.map(s => s.position));
+    const newSupport: Support = {
+      id: Math.max(0, ...supports.map(s => s.id)) + 1,
+      type: 'roller',
+      position: lastPosition < beamLength ? beamLength : Math.max(0, beamLength / 2),
+    };
+    setCalculationError(null);
+    setSupports([...supports, newSupport]);
+  }, [supports, beamLength]);
+
+  const updateSupport = useCallback((id: number, field: keyof Support, value: number | string) => {
     setCalculationError(null); // Clear error on change
-    if (isStart) {
-      const newPosition = Math.max(0, Math.min(position, endSupportPosition - 0.1));
-      setStartSupportPosition(newPosition);
-    } else {
-      const newPosition = Math.min(beamLength, Math.max(position, startSupportPosition + 0.1));
-      setEndSupportPosition(newPosition);
-    }
-  }, [beamLength, endSupportPosition, startSupportPosition]);
+    setSupports(prevSupports =>
+      prevSupports.map(support => {
+        if (support.id !== id) return support;
+        let newValue = value;
+        if (field === 'position' && typeof value === 'number') {
+          newValue = Math.max(0, Math.min(value, beamLength));
+        }
+        if (field === 'stiffness' && typeof value === 'number') {
+          newValue = Math.max(1, value);
+        }
+        if (field === 'rotationalStiffness' && typeof value === 'number') {
+          newValue = Math.max(0, value);
+        }
+        const updated = { ...support, [field]: newValue };
+        if (updated.type === 'spring' && updated.stiffness === undefined) {
+          updated.stiffness = 10000;
+        }
+        return updated;
+      })
+    );
+  }, [beamLength]);
+
+  const removeSupport = useCallback((id: number) => {
+    setCalculationError(null);
+    setSupports(prev => prev.filter(support => support.id !== id));
+  }, []);
 
 
   const calculateSectionProperties = useCallback((): SectionProperties => {
@@ -305,10 +528,7 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
         beamHeight,
         beamWidth,
         materialProps,
-        startSupportPosition,
-        endSupportPosition,
-        startSupport,
-        endSupport,
+        supports,
         loads
       );
       return calculator.calculateSectionProperties();
@@ -318,7 +538,7 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
       console.error('Error calculating section properties:', error);
       return { momentOfInertia: 0, sectionModulus: 0, area: 0, polarMomentOfInertia: 0, torsionalConstant: 0 }; // Return default values
     }
-  }, [beamLength, beamHeight, beamWidth, materialProps, startSupportPosition, endSupportPosition, startSupport, endSupport, loads, validateLoads]);
+  }, [beamLength, beamHeight, beamWidth, materialProps, supports, loads, validateLoads]);
 
 
   const checkLoadOverlap = useCallback((newLoad: Load) => {
@@ -336,6 +556,7 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
       type: 'point',
       position: 0,
       magnitude: 1, // Set a default non-zero magnitude
+      loadCase: DEFAULT_LOAD_CASE,
     };
 
     if (checkLoadOverlap(newLoad)) {
@@ -355,14 +576,38 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
         if (field === 'position' && typeof value === 'number') {
           newValue = Math.max(0, Math.min(value, beamLength));
         }
-        // Validate magnitude
-        if (field === 'magnitude' && typeof value === 'number') {
+        // New linear loads start as a triangle over the rest of the beam
+        if (field === 'type' && value === 'linear') {
+          return {
+            ...load,
+            type: value,
+            length: load.length ?? beamLength - load.position,
+            endMagnitude: load.endMagnitude ?? 0,
+          } as Load;
+        }
+        // New thermal loads cover the rest of the beam, with no gradient yet
+        if (field === 'type' && value === 'thermal') {
+          return {
+            ...load,
+            type: value,
+            loadCase: 'T',
+            length: load.length ?? beamLength - load.position,
+            temperatureGradient: load.temperatureGradient ?? 0,
+          } as Load;
+        }
+        // Validate magnitude (linear load intensities may be zero at one end,
+        // thermal loads may be a gradient alone)
+        if (field === 'magnitude' && load.type !== 'linear' && load.type !== 'thermal' && typeof value === 'number') {
           if (Math.abs(value) < 0.001) {
             newValue = value > 0 ? 0.001 : -0.001;
           }
         }
+        // Inclined no further than horizontal either way
+        if (field === 'angle' && typeof value === 'number') {
+          newValue = Math.max(-90, Math.min(value, 90));
+        }
         // Validate length for distributed loads
-        if (field === 'length' && load.type === 'distributed' && typeof value === 'number') {
+        if (field === 'length' && (load.type === 'distributed' || load.type === 'linear' || load.type === 'thermal') && typeof value === 'number') {
           newValue = Math.max(0.1, Math.min(value, beamLength - (load.position || 0)));
         }
         return { ...load, [field]: newValue };
@@ -382,11 +627,9 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
         beamHeight,
         beamWidth,
         materialProps,
-        startSupportPosition,
-        endSupportPosition,
-        startSupport,
-        endSupport,
-        loads
+        supports,
+        analysisLoads,
+        serviceOptions
       );
 
       // calculate and set reactions:
@@ -394,17 +637,146 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
       setReactions(calculatedReactions);
       const data = calculator.generateDiagramData();
       setDiagramData(data); // Store the data in state
+      setUpliftRegions(calculator.calculateUpliftRegions());
+      setAmplification(calculator.calculateAmplification());
+      const lateralStability = calculator.checkLateralStability();
+      setLateralIssue(lateralStability?.classification === 'mechanism'
+        ? `The supports leave the beam free to move sideways and the elastic foundation gives no lateral support, so the weak-axis bending of the inclined loads is not analysed. ${lateralStability.issues.join(' ')}`
+        : null);
+      // Superposing span by span needs a linear model, so no lift-off or P-delta
+      const linearModel = !foundations.some(foundation => foundation.compressionOnly) && !secondOrder;
+      // Strength and service combinations differ in stiffness once the section may crack
+      const combinationResults = (['strength', 'service'] as const).flatMap(type => analyzeLoadCombinations(
+        (combinationLoads, options) => new BeamCalculator(beamLength, beamHeight, beamWidth, materialProps, supports, combinationLoads, {
+          ...options,
+          ...(type === 'service' ? serviceOptions : structureOptions),
+        }),
+        analysisLoads,
+        loadCombinations.filter(combination => combination.type === type),
+        // Checkerboard live loading only matters once there is more than one span
+        { liveLoadSpans: patternLiveLoad && linearModel ? spansOf(beamLength, supports.map(support => support.position)) : [] }
+      ).results);
+      const combinationAnalysis = { results: combinationResults, envelope: computeEnvelope(combinationResults) };
+      setElasticEnvelope(combinationAnalysis.envelope);
+      setEnvelope(redistributionFraction > 0
+        ? redistributeCombinations(combinationAnalysis, supports.map(support => support.position), redistributedSupports, redistributionFraction).envelope
+        : combinationAnalysis.envelope);
       setCalculationError(null); // Clear error if successful
       return data; // important
     } catch (error: any) {
       console.error('Error generating diagram data:', error);
       setCalculationError(error.message || 'Calculation error');
       setDiagramData([]);
-      setReactions({ reactionA: 0, reactionB: 0, momentA: 0, momentB: 0 });
+      setReactions([]);
+      setEnvelope([]);
+      setElasticEnvelope([]);
+      setUpliftRegions([]);
+      setAmplification(undefined);
+      setLateralIssue(null);
       return [];
     }
-  }, [beamLength, beamHeight, beamWidth, materialProps, startSupportPosition, endSupportPosition, startSupport, endSupport, loads, validateLoads]);
+  }, [beamLength, beamHeight, beamWidth, materialProps, supports, foundations, structureOptions, serviceOptions, secondOrder, analysisLoads, loadCombinations, patternLiveLoad, redistributionFraction, redistributedSupports, validateLoads]);
+
+
+  // Sections for the section analysis: the moments where |Mx|/Sx + |My|/Sy of the beam section peaks,
+  // and the shears where their resultant does, each pair taken at one position
+  const criticalSections = useMemo(() => {
+    const worst = (measure: (point: DiagramPoint) => number) => diagramData.reduce<DiagramPoint | undefined>(
+      (governing, point) => (!governing || measure(point) > measure(governing) ? point : governing),
+      undefined
+    );
+    return {
+      // Sx = bh²/6 and Sy = hb²/6, so the stress is proportional to |Mx|/h + |My|/b
+      moment: worst(point => Math.abs(point.moment) / beamHeight + Math.abs(point.momentY ?? 0) / beamWidth),
+      shear: worst(point => Math.hypot(point.shear, point.shearY ?? 0)),
+    };
+  }, [diagramData, beamHeight, beamWidth]);
+
+  // Buckling of the segments between supports and braces under the current actions
+  const bucklingSegments = useMemo<BucklingSegment[]>(() => {
+    if (diagramData.length === 0) return [];
+    try {
+      return new BeamCalculator(beamLength, beamHeight, beamWidth, materialProps, supports, analysisLoads, structureOptions)
+        .checkBuckling(lateralBraces, diagramData);
+    } catch (error) {
+      console.error('Error checking buckling:', error);
+      return [];
+    }
+  }, [beamLength, beamHeight, beamWidth, materialProps, supports, analysisLoads, structureOptions, lateralBraces, diagramData]);
+
+  // Natural frequencies and mode shapes, one of which may be animated
+  const [modeCount, setModeCount] = useState<number>(3);
+  const [liveLoadMassFactor, setLiveLoadMassFactor] = useState<number>(0);
+  const [animatedMode, setAnimatedMode] = useState<number | null>(null);
+  const modalAnalysis = useMemo<{ modes: VibrationMode[]; error: string | null }>(() => {
+    try {
+      const calculator = new BeamCalculator(beamLength, beamHeight, beamWidth, materialProps, supports, analysisLoads, structureOptions);
+      return { modes: calculator.calculateVibrationModes(modeCount, liveLoadMassFactor), error: null };
+    } catch (error) {
+      return { modes: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [beamLength, beamHeight, beamWidth, materialProps, supports, analysisLoads, structureOptions, modeCount, liveLoadMassFactor]);
+
+  // Creep and shrinkage deflections, with ρ' from the reinforcement design
+  const compressionSteelRatio = reinforcement ? reinforcement.compressionSteel / (beamWidth * reinforcement.effectiveDepth) : null;
+  const longTermDeflection = useMemo<{ result: LongTermDeflection | null; error: string | null }>(() => {
+    try {
+      const result = analyzeLongTermDeflection(
+        (serviceLoads, options) => new BeamCalculator(beamLength, beamHeight, beamWidth, materialProps, supports, serviceLoads, { ...serviceOptions, ...options }),
+        analysisLoads,
+        longTermSettings,
+        compressionSteelRatio ?? 0
+      );
+      return { result, error: null };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [beamLength, beamHeight, beamWidth, materialProps, supports, analysisLoads, serviceOptions, longTermSettings, compressionSteelRatio]);
 
+  // Span-by-span deflection limits, marked on the deformation graph
+  const deflectionChecks = useMemo<{ checks: DeflectionCheck[]; error: string | null }>(() => {
+    try {
+      const checks = checkDeflectionLimits(
+        deflectionLimits,
+        {
+          createCalculator: (limitLoads, options) => new BeamCalculator(beamLength, beamHeight, beamWidth, materialProps, supports, limitLoads, { ...serviceOptions, ...options }),
+          loads: analysisLoads,
+          combinations: loadCombinations,
+          envelope,
+          longTerm: longTermDeflection.result,
+        },
+        beamLength,
+        supports.map(support => support.position)
+      );
+      return { checks, error: null };
+    } catch (error) {
+      return { checks: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [deflectionLimits, beamLength, beamHeight, beamWidth, materialProps, supports, serviceOptions, analysisLoads, loadCombinations, envelope, longTermDeflection.result]);
+
+  // Collapse load factor and plastic hinges of a steel beam
+  const yieldStrength = materialProps.yieldStrength ?? DEFAULT_YIELD_STRENGTH;
+  const plasticCollapse = useMemo<{ result: PlasticCollapse | null; error: string | null }>(() => {
+    if (!plasticAnalysis.enabled) return { result: null, error: null };
+    try {
+      const combination = loadCombinations.find(c => c.id === plasticAnalysis.loads && c.type === 'strength' && c.enabled);
+      const result = analyzePlasticCollapse(
+        (collapseLoads, collapseSupports, plasticHinges) => new BeamCalculator(beamLength, beamHeight, beamWidth, materialProps, collapseSupports, collapseLoads, {
+          ...structureOptions,
+          hinges: [...hinges, ...plasticHinges],
+          secondOrder: false,
+          supportMovements: false,
+        }),
+        beamLength,
+        supports,
+        combination ? factorLoads(analysisLoads, combination.factors) : analysisLoads,
+        yieldStrength
+      );
+      return { result, error: null };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [plasticAnalysis, beamLength, beamHeight, beamWidth, materialProps, supports, hinges, structureOptions, analysisLoads, loadCombinations, yieldStrength]);
 
   // UseEffect for generating and update the diagram
   useEffect(() => {
@@ -426,12 +798,12 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
       alert('Material properties must be greater than 0');
       return false;
     }
-    if (startSupportPosition < 0 || endSupportPosition > beamLength || startSupportPosition >= endSupportPosition) {
+    if ((supports.length === 0 && foundations.length === 0) || supports.some(s => s.position < 0 || s.position > beamLength)) {
       alert('Invalid support positions');
       return false;
     }
     return true;
-  }, [beamLength, beamHeight, beamWidth, materialProps, startSupportPosition, endSupportPosition]);
+  }, [beamLength, beamHeight, beamWidth, materialProps, supports, foundations]);
 
   // Add validation to state setters
   const setBeamLengthWithValidation = (value: number) => {
@@ -459,6 +831,18 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
   };
 
   const { maxMoment, maxShear } = calculateMaxValues();
+  // Point of largest deflection, with its bending and shear parts when shear deformation is on
+  const peakDeflection = diagramData.reduce<DiagramPoint | undefined>(
+    (peak, point) => (!peak || Math.abs(point.deflection) > Math.abs(peak.deflection) ? point : peak),
+    undefined
+  );
+
+  // Envelopes share the diagram sample positions
+  const hasEnvelope = envelope.length === diagramData.length && envelope.some(point => point.shear);
+  const hasAxialForce = diagramData.some(point => point.axialForce);
+  const chartData: ChartPoint[] = hasEnvelope
+    ? diagramData.map((point, i) => ({ ...point, envelope: envelope[i] }))
+    : diagramData;
 
   return (
     <div className="flex flex-col h-full">
@@ -578,6 +962,7 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
               height={beamHeight}
               M_u={maxMoment * 1e6}
               V_u={maxShear * 1e3}
+              onReinforcementChange={setReinforcement}
             />
           </section>
         </div>
@@ -666,67 +1051,213 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                     <Box className="w-6 h-6 text-green-500" />
                     Support Configuration
                   </h2>
+                  <div
+                    className={`mb-4 px-4 py-3 rounded-lg border text-sm ${
+                      stability.classification === 'mechanism'
+                        ? 'bg-red-50 dark:bg-red-900/30 border-red-300 dark:border-red-700 text-red-800 dark:text-red-200'
+                        : 'bg-green-50 dark:bg-green-900/30 border-green-300 dark:border-green-700 text-green-800 dark:text-green-200'
+                    }`}
+                    role="status"
+                  >
+                    <p className="font-semibold">
+                      {stability.classification === 'mechanism'
+                        ? 'Unstable: the beam is a mechanism'
+                        : stability.classification === 'determinate'
+                          ? 'Stable and statically determinate'
+                          : stability.degree === Infinity
+                            ? 'Stable and statically indeterminate (continuous elastic foundation)'
+                            : `Stable and statically indeterminate to degree ${stability.degree}`}
+                    </p>
+                    {stability.issues.length > 0 && (
+                      <ul className="list-disc ml-5 mt-1">
+                        {stability.issues.map(issue => <li key={issue}>{issue}</li>)}
+                      </ul>
+                    )}
+                  </div>
                   <div className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Start Position</label>
-                        <input
-                          type="number"
-                          value={startSupportPosition}
-                          onChange={(e) => handleSupportPositionChange(Number(e.target.value), true)}
-                          min="0"
-                          max={endSupportPosition}
-                          step="0.1"
-                          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
-                          placeholder="Start Position"
-                          aria-label="Start support position"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Start Type</label>
-                        <select
-                          value={startSupport}
-                          onChange={(e) => setStartSupport(e.target.value as 'pin' | 'roller' | 'fixed')}
-                          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
-                          aria-label="Start support type"
-                        >
-                          <option value="pin">Pin</option>
-                          <option value="roller">Roller</option>
-                          <option value="fixed">Fixed</option>
-                        </select>
-                      </div>
-                    </div>
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">End Position</label>
-                        <input
-                          type="number"
-                          value={endSupportPosition}
-                          onChange={(e) => handleSupportPositionChange(Number(e.target.value), false)}
-                          min={startSupportPosition}
-                          max={beamLength}
-                          step="0.1"
-                          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100 transition-all"
-                          aria-label="End support position"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">End Type</label>
-                        <select
-                          value={endSupport}
-                          onChange={(e) => setEndSupport(e.target.value as 'pin' | 'roller' | 'fixed')}
-                          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100 transition-all"
-                          aria-label="End support type"
+                    {supports.map((support, index) => (
+                      <div key={support.id} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Support {index + 1} Position (m)</label>
+                          <input
+                            type="number"
+                            value={support.position}
+                            onChange={(e) => updateSupport(support.id, 'position', Number(e.target.value))}
+                            min="0"
+                            max={beamLength}
+                            step="0.1"
+                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                            aria-label={`Support ${index + 1} position`}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Type</label>
+                          <select
+                            value={support.type}
+                            onChange={(e) => updateSupport(support.id, 'type', e.target.value as SupportType)}
+                            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 dark:text-gray-100"
+                            aria-label={`Support ${index + 1} type`}
+                          >
+                            <option value="pin">Pin</option>
+                            <option value="roller">Roller</option>
+                            <option value="fixed">Fixed</option>
+                            <option value="spring">Spring</option>
+                          </select>
+                        </div>
+                        <button
+                          onClick={() => removeSupport(support.id)}
+                          disabled={supports.length === 1 && foundations.length === 0}
+                          className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-gray-900 rounded-lg transition-colors disabled:opacity-40"
+                          title="Remove Support"
+                          aria-label={`Remove support ${index + 1}`}
                         >
-                          <option value="pin">Pin</option>
-                          <option value="roller">Roller</option>
-                          <option value="fixed">Fixed</option>
-                        </select>
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                        {support.type === 'spring' && (
+                          <div className="col-span-2">
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Spring Stiffness (kN/m)</label>
+                            <input
+                              type="number"
+                              value={support.stiffness ?? ''}
+                              onChange={(e) => updateSupport(support.id, 'stiffness', Number(e.target.value))}
+                              min="1"
+                              step="100"
+                              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                              aria-label={`Support ${index + 1} spring stiffness`}
+                            />
+                          </div>
+                        )}
+                        <div className="col-span-3 grid grid-cols-1 sm:grid-cols-3 gap-4">
+                          {support.type !== 'fixed' && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Rotational Spring (kN⋅m/rad)</label>
+                              <input
+                                type="number"
+                                value={support.rotationalStiffness ?? 0}
+                                onChange={(e) => updateSupport(support.id, 'rotationalStiffness', Number(e.target.value))}
+                                min="0"
+                                step="1000"
+                                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                                aria-label={`Support ${index + 1} rotational spring stiffness`}
+                              />
+                            </div>
+                          )}
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Settlement (mm)</label>
+                            <input
+                              type="number"
+                              value={support.settlement ?? 0}
+                              onChange={(e) => updateSupport(support.id, 'settlement', Number(e.target.value))}
+                              step="1"
+                              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                              aria-label={`Support ${index + 1} settlement`}
+                            />
+                          </div>
+                          {(support.type === 'fixed' || (support.rotationalStiffness ?? 0) > 0) && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Imposed Rotation (rad, cw)</label>
+                              <input
+                                type="number"
+                                value={support.imposedRotation ?? 0}
+                                onChange={(e) => updateSupport(support.id, 'imposedRotation', Number(e.target.value))}
+                                step="0.001"
+                                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                                aria-label={`Support ${index + 1} imposed rotation`}
+                              />
+                            </div>
+                          )}
+                        </div>
                       </div>
+                    ))}
+                    <button
+                      onClick={addSupport}
+                      className="w-full px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition-colors flex items-center justify-center gap-2"
+                      aria-label="Add support"
+                    >
+                      <Plus className="w-5 h-5" />
+                      Add Support
+                    </button>
+
+                    {/* Internal hinges (moment releases) */}
+                    <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+                      <p className="text-sm text-gray-600 dark:text-gray-300">
+                        Internal hinges release the bending moment at a point, e.g. for Gerber beams and drop-in spans.
+                      </p>
+                      {hinges.map((hinge, index) => (
+                        <div key={hinge.id} className="grid grid-cols-[1fr_auto] gap-4 items-end">
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Hinge {index + 1} Position (m)</label>
+                            <input
+                              type="number"
+                              value={hinge.position}
+                              onChange={(e) => updateHinge(hinge.id, Number(e.target.value))}
+                              min="0"
+                              max={beamLength}
+                              step="0.1"
+                              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100"
+                              aria-label={`Hinge ${index + 1} position`}
+                            />
+                          </div>
+                          <button
+                            onClick={() => removeHinge(hinge.id)}
+                            className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-gray-900 rounded-lg transition-colors"
+                            title="Remove Hinge"
+                            aria-label={`Remove hinge ${index + 1}`}
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={addHinge}
+                        className="w-full px-4 py-2 border border-green-500 text-green-600 dark:text-green-400 rounded-lg hover:bg-green-50 dark:hover:bg-gray-700 transition-colors flex items-center justify-center gap-2"
+                        aria-label="Add hinge"
+                      >
+                        <Plus className="w-5 h-5" />
+                        Add Hinge
+                      </button>
                     </div>
                   </div>
                 </section>
 
+                {/* Non-prismatic Segments Panel */}
+                <SegmentsPanel
+                  segments={segments}
+                  setSegments={setSegments}
+                  beamLength={beamLength}
+                  beamHeight={beamHeight}
+                  beamWidth={beamWidth}
+                />
+
+                {/* Elastic Foundation Panel */}
+                <FoundationPanel
+                  foundations={foundations}
+                  setFoundations={setFoundations}
+                  beamLength={beamLength}
+                  beamWidth={beamWidth}
+                />
+
+                {/* Lateral Bracing and Buckling Panel */}
+                <BucklingPanel
+                  braces={lateralBraces}
+                  setBraces={setLateralBraces}
+                  segments={bucklingSegments}
+                  beamLength={beamLength}
+                />
+
+                {/* Cracked-section Stiffness Panel */}
+                <CrackedSectionPanel
+                  enabled={crackedSection}
+                  setEnabled={setCrackedSection}
+                  reinforcement={reinforcement}
+                  beamLength={beamLength}
+                  beamHeight={beamHeight}
+                  beamWidth={beamWidth}
+                  elasticModulus={materialProps.elasticModulus}
+                  onUseConcreteModulus={(modulus) => setMaterialProps(prev => ({ ...prev, elasticModulus: modulus }))}
+                  diagramData={diagramData}
+                />
+
               {/* Material Properties Card */}
               <section className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors border border-gray-200 dark:border-gray-700" aria-labelledby="material-properties-header">
                 <h2 id="material-properties-header" className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
@@ -778,6 +1309,74 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                       </div>
                     </div>
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Thermal Expansion α (×10⁻⁶ /°C)
+                    </label>
+                    <input
+                      type="number"
+                      value={materialProps.thermalExpansion !== undefined ? Number((materialProps.thermalExpansion * 1e6).toFixed(3)) : ''}
+                      onChange={(e) => setMaterialProps({
+                        ...materialProps,
+                        thermalExpansion: Number(e.target.value) * 1e-6
+                      })}
+                      min="0"
+                      step="0.5"
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100 transition-all"
+                      aria-label="Coefficient of thermal expansion in millionths per degree Celsius"
+                    />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      About 12 for steel, 10 for concrete and 23 for aluminium; used by thermal loads.
+                    </p>
+                  </div>
+                  <div className="relative group">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Density (kg/m³)
+                    </label>
+                    <input
+                      type="number"
+                      value={materialProps.density ?? ''}
+                      onChange={(e) => setMaterialProps({
+                        ...materialProps,
+                        density: Math.max(0, Number(e.target.value))
+                      })}
+                      min="0"
+                      step="50"
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100 transition-all"
+                      aria-label="Density in kilograms per cubic metre"
+                    />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      About 7850 for steel and 2400 for reinforced concrete; the beam's own mass in the modal analysis and its self-weight.
+                    </p>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={shearDeformation}
+                      onChange={(e) => setShearDeformation(e.target.checked)}
+                    />
+                    Include shear deformation (Timoshenko beam)
+                  </label>
+                  {shearDeformation && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Shear Area Factor κ
+                      </label>
+                      <input
+                        type="number"
+                        value={shearAreaFactor}
+                        onChange={(e) => setShearAreaFactor(Math.min(1, Math.max(0.01, Number(e.target.value))))}
+                        min="0.01"
+                        max="1"
+                        step="0.01"
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100 transition-all"
+                        aria-label="Shear area factor"
+                      />
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        Effective shear area over gross area: 5/6 for a solid rectangle. Worth including for deep or short members.
+                      </p>
+                    </div>
+                  )}
                 </div>
               </section>
             </div>
@@ -826,6 +1425,14 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                           <p className="font-medium text-blue-700">Distributed Load</p>
                           <p className="text-gray-600 dark:text-gray-300">Force spread over a length (kN/m)</p>
                         </div>
+                        <div>
+                          <p className="font-medium text-blue-700">Linearly Varying Load</p>
+                          <p className="text-gray-600 dark:text-gray-300">Triangular or trapezoidal load from a start to an end intensity (kN/m)</p>
+                        </div>
+                        <div>
+                          <p className="font-medium text-blue-700">Load Case</p>
+                          <p className="text-gray-600 dark:text-gray-300">Enter unfactored loads and tag each with its case; the load combinations factor them</p>
+                        </div>
                         <div>
                           <p className="font-medium text-blue-700">Moment</p>
                           <p className="text-gray-600 dark:text-gray-300">Rotational force (kN⋅m)</p>
@@ -834,11 +1441,19 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                           <p className="font-medium text-blue-700">Torsion</p>
                           <p className="text-gray-600 dark:text-gray-300">Twisting force (kN⋅m)</p>
                         </div>
+                        <div>
+                          <p className="font-medium text-blue-700">Thermal</p>
+                          <p className="text-gray-600 dark:text-gray-300">Uniform temperature change and bottom-to-top difference (°C); restraint causes axial force and moments</p>
+                        </div>
+                        <div>
+                          <p className="font-medium text-blue-700">Axial Force</p>
+                          <p className="text-gray-600 dark:text-gray-300">Force along the beam axis (kN), positive toward its start; pins and fixed supports resist it</p>
+                        </div>
                       </div>
                     </div>
                   )}
                   <div className="space-y-4">
-                    {loads.length === 0 ? (
+                    {loads.length === 0 && selfWeightLoads.length === 0 ? (
                       <div className="text-center py-8 text-gray-500 dark:text-gray-400">
                         <p>No loads applied yet. Click "Add New Load" to start.</p>
                       </div>
@@ -848,7 +1463,8 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                           key={load.id} 
                           className="grid grid-cols-1 md:grid-cols-5 gap-4 items-center bg-gray-50 dark:bg-gray-800 p-4 rounded-xl hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
                         >
-                          {/* Load Type with Icon */}
+                          {/* Load Type with Icon and Load Case */}
+                          <div className="space-y-2">
                           <div className="relative group">
                             <select
                               value={load.type}
@@ -857,16 +1473,33 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                             >
                               <option value="point">Point Load</option>
                               <option value="distributed">Distributed Load</option>
+                              <option value="linear">Linearly Varying Load</option>
                               <option value="moment">Moment</option>
                               <option value="torsion">Torsion</option>
+                              <option value="thermal">Thermal</option>
+                              <option value="axial">Axial Force</option>
                             </select>
                             <div className="absolute right-2 top-1/2 -translate-y-1/2">
                               {load.type === 'point' && <Box className="w-5 h-5 text-blue-500" />}
                               {load.type === 'distributed' && <BarChart2 className="w-5 h-5 text-green-500" />}
+                              {load.type === 'linear' && <TrendingUp className="w-5 h-5 text-teal-500" />}
                               {load.type === 'moment' && <Sun className="w-5 h-5 text-purple-500" />}
                               {load.type === 'torsion' && <Ruler className="w-5 h-5 text-orange-500" />}
+                              {load.type === 'thermal' && <Thermometer className="w-5 h-5 text-amber-500" />}
+                              {load.type === 'axial' && <ArrowLeftRight className="w-5 h-5 text-indigo-500" />}
                             </div>
                           </div>
+                          <select
+                            value={load.loadCase ?? DEFAULT_LOAD_CASE}
+                            onChange={(e) => updateLoad(load.id, 'loadCase', e.target.value as LoadCase)}
+                            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                            aria-label="Load case"
+                          >
+                            {LOAD_CASES.map(({ id, label }) => (
+                              <option key={id} value={id}>{label} ({id})</option>
+                            ))}
+                          </select>
+                          </div>
 
                           {/* Position with Visual Indicator */}
                           <div className="relative group">
@@ -892,7 +1525,10 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                             <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
                               {load.type === 'point' ? 'Force (kN)' :
                                load.type === 'distributed' ? 'Load (kN/m)' :
+                               load.type === 'linear' ? 'Start Intensity (kN/m)' :
                                load.type === 'moment' ? 'Moment (kN⋅m)' :
+                               load.type === 'thermal' ? 'Uniform ΔT (°C)' :
+                               load.type === 'axial' ? 'Axial Force (kN, + toward x = 0)' :
                                'Torque (kN⋅m)'}
                             </label>
                             <input
@@ -900,7 +1536,7 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                               value={load.magnitude ?? ''}
                               onChange={(e) => {
                                 const value = Number(e.target.value);
-                                if (Math.abs(value) < 0.001) {
+                                if (Math.abs(value) < 0.001 && load.type !== 'linear' && load.type !== 'thermal') {
                                   // Show warning tooltip
                                   const input = e.target;
                                   input.classList.add('border-red-500');
@@ -915,7 +1551,10 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                             />
                             <div className="absolute right-2 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity">
                               <div className="bg-gray-800 dark:bg-gray-700 text-white text-xs rounded px-2 py-1 whitespace-nowrap">
-                                Enter a non-zero value
+                                {load.type === 'linear' ? 'Intensity at the load start' :
+                                 load.type === 'thermal' ? 'Temperature change of the whole section, heating positive' :
+                                 load.type === 'axial' ? 'Compresses the beam against a pin or fixed support at its start' :
+                                 'Enter a non-zero value'}
                               </div>
                             </div>
                           </div>
@@ -936,6 +1575,76 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                                 />
                               </>
                             )}
+                            {load.type === 'linear' && (
+                              <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Length (m)</label>
+                                  <input
+                                    type="number"
+                                    value={load.length ?? ''}
+                                    onChange={(e) => updateLoad(load.id, 'length', Number(e.target.value))}
+                                    min="0.1"
+                                    max={beamLength - (load.position ?? 0)}
+                                    step="0.1"
+                                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                                  />
+                                </div>
+                                <div>
+                                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">End (kN/m)</label>
+                                  <input
+                                    type="number"
+                                    value={load.endMagnitude ?? ''}
+                                    onChange={(e) => updateLoad(load.id, 'endMagnitude', Number(e.target.value))}
+                                    step="0.1"
+                                    min="-1000"
+                                    max="1000"
+                                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                                  />
+                                </div>
+                              </div>
+                            )}
+                            {load.type === 'thermal' && (
+                              <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Length (m)</label>
+                                  <input
+                                    type="number"
+                                    value={load.length ?? ''}
+                                    onChange={(e) => updateLoad(load.id, 'length', Number(e.target.value))}
+                                    min="0.1"
+                                    max={beamLength - (load.position ?? 0)}
+                                    step="0.1"
+                                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                                  />
+                                </div>
+                                <div>
+                                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Bottom − Top ΔT (°C)</label>
+                                  <input
+                                    type="number"
+                                    value={load.temperatureGradient ?? ''}
+                                    onChange={(e) => updateLoad(load.id, 'temperatureGradient', Number(e.target.value))}
+                                    step="1"
+                                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                                    aria-label="Temperature difference between the bottom and top faces"
+                                  />
+                                </div>
+                              </div>
+                            )}
+                            {(load.type === 'point' || load.type === 'distributed' || load.type === 'linear') && (
+                              <div className={load.type === 'point' ? '' : 'mt-2'}>
+                                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Angle from vertical (°)</label>
+                                <input
+                                  type="number"
+                                  value={load.angle ?? 0}
+                                  onChange={(e) => updateLoad(load.id, 'angle', Number(e.target.value))}
+                                  min="-90"
+                                  max="90"
+                                  step="5"
+                                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                                  aria-label="Load angle from the vertical toward the weak axis, in degrees"
+                                />
+                              </div>
+                            )}
                             {load.type === 'moment' && (
                               <>
                                 <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Direction</label>
@@ -964,9 +1673,57 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                         </div>
                       ))
                     )}
+                    {/* Self-weight follows the section, so it is shown but not edited */}
+                    {selfWeightLoads.map(load => (
+                      <div
+                        key={load.id}
+                        className="grid grid-cols-1 md:grid-cols-5 gap-4 items-center bg-gray-50 dark:bg-gray-800 p-4 rounded-xl text-sm text-gray-700 dark:text-gray-300"
+                      >
+                        <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+                          <Lock className="w-4 h-4 text-gray-500" />
+                          Self-weight (D)
+                        </div>
+                        <div>{load.position.toFixed(2)}–{(load.position + (load.length ?? 0)).toFixed(2)} m</div>
+                        <div>
+                          {load.magnitude.toFixed(2)}
+                          {load.type === 'linear' && ` → ${(load.endMagnitude ?? 0).toFixed(2)}`} kN/m
+                        </div>
+                        <div className="md:col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                          From the section area, density and g; change those to change it
+                        </div>
+                      </div>
+                    ))}
                   </div>
+                  <label className="mt-4 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={selfWeight}
+                      onChange={(e) => setSelfWeight(e.target.checked)}
+                    />
+                    Include self-weight: area × density × g as a dead load
+                  </label>
+                  {selfWeight && selfWeightLoads.length === 0 && (
+                    <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                      Enter a density under Material Properties to generate the self-weight.
+                    </p>
+                  )}
+                  <label className="mt-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={secondOrder}
+                      onChange={(e) => setSecondOrder(e.target.checked)}
+                    />
+                    Second-order (P-delta) analysis: axial compression amplifies moments and deflections
+                  </label>
                 </section>
 
+                <LoadCombinationsPanel
+                  combinations={loadCombinations}
+                  setCombinations={setLoadCombinations}
+                  patternLiveLoad={patternLiveLoad}
+                  setPatternLiveLoad={setPatternLiveLoad}
+                />
+
                 {/* Analysis Charts Section */}
                 <section className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-200 dark:border-gray-700 transition-colors" aria-labelledby="charts-header">
                   <h2 id="charts-header" className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
@@ -980,7 +1737,7 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                       <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Shear Force Diagram</h3>
                       <div className="h-96"> {/* Increased height */}
                         <ResponsiveContainer width="100%" height="100%">
-                          <LineChart data={diagramData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+                          <LineChart data={chartData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
                             <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
                             <XAxis
                               dataKey="position"
@@ -1006,7 +1763,7 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                                 boxShadow: theme === 'dark' ? '0 2px 4px rgba(0,0,0,0.3)' : '0 2px 4px rgba(0,0,0,0.1)',
                                 color: theme === 'dark' ? '#d1d5db' : 'inherit'
                               }}
-                              formatter={(value: number) => [`${value.toFixed(2)} kN`, 'Shear Force']}
+                              formatter={diagramTooltipFormatter('kN', 'shear')}
                               labelFormatter={(label) => `Position: ${label} m`}
                             />
                             <Legend
@@ -1022,6 +1779,26 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                               dot={false}
                               name="Shear Force"
                             />
+                            {hasEnvelope && (
+                              <Line
+                                type="monotone"
+                                dataKey={(point: ChartPoint) => point.envelope?.shear?.max}
+                                stroke={theme === 'dark' ? "#93c5fd" : "#1d4ed8"}
+                                strokeDasharray="6 3"
+                                dot={false}
+                                name="Envelope Max"
+                              />
+                            )}
+                            {hasEnvelope && (
+                              <Line
+                                type="monotone"
+                                dataKey={(point: ChartPoint) => point.envelope?.shear?.min}
+                                stroke={theme === 'dark' ? "#93c5fd" : "#1d4ed8"}
+                                strokeDasharray="2 3"
+                                dot={false}
+                                name="Envelope Min"
+                              />
+                            )}
                           </LineChart>
                         </ResponsiveContainer>
                       </div>
@@ -1032,7 +1809,7 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                     <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Bending Moment Diagram</h3>
                     <div className="h-96"> {/* Increased height */}
                       <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={diagramData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+                        <LineChart data={chartData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
                           <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
                           <XAxis
                             dataKey="position"
@@ -1059,7 +1836,7 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                               boxShadow: theme === 'dark' ? '0 2px 4px rgba(0,0,0,0.3)' : '0 2px 4px rgba(0,0,0,0.1)',
                               color: theme === 'dark' ? '#d1d5db' : 'inherit'
                             }}
-                            formatter={(value: number) => [`${value.toFixed(2)} kN⋅m`, 'Bending Moment']}
+                            formatter={diagramTooltipFormatter('kN⋅m', 'moment')}
                             labelFormatter={(label) => `Position: ${label} m`}
                           />
                           <Legend
@@ -1075,11 +1852,220 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                             dot={false}
                             name="Bending Moment"
                           />
+                          {hasEnvelope && (
+                            <Line
+                              type="monotone"
+                              dataKey={(point: ChartPoint) => point.envelope?.moment?.max}
+                              stroke={theme === 'dark' ? "#fca5a5" : "#b91c1c"}
+                              strokeDasharray="6 3"
+                              dot={false}
+                              name="Envelope Max"
+                            />
+                          )}
+                          {hasEnvelope && (
+                            <Line
+                              type="monotone"
+                              dataKey={(point: ChartPoint) => point.envelope?.moment?.min}
+                              stroke={theme === 'dark' ? "#fca5a5" : "#b91c1c"}
+                              strokeDasharray="2 3"
+                              dot={false}
+                              name="Envelope Min"
+                            />
+                          )}
                         </LineChart>
                       </ResponsiveContainer>
                     </div>
                   </div>
 
+                  <LateralBendingPanel beamLength={beamLength} diagramData={diagramData} issue={lateralIssue} />
+
+                  <RedistributionPanel
+                    beamLength={beamLength}
+                    settings={redistribution}
+                    setSettings={setRedistribution}
+                    netTensileStrain={netTensileStrain}
+                    permissible={permissibleReduction}
+                    supportPositions={redistributedSupports}
+                    elasticEnvelope={elasticEnvelope}
+                    envelope={envelope}
+                  />
+
+                  <PlasticCollapsePanel
+                    beamLength={beamLength}
+                    settings={plasticAnalysis}
+                    setSettings={setPlasticAnalysis}
+                    yieldStrength={yieldStrength}
+                    onYieldStrengthChange={(value) => setMaterialProps(prev => ({ ...prev, yieldStrength: value }))}
+                    combinations={loadCombinations}
+                    result={plasticCollapse.result}
+                    error={plasticCollapse.error}
+                  />
+
+                  {/* Axial Force Diagram */}
+                  {hasAxialForce && (
+                    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Axial Force Diagram</h3>
+                      <div className="h-96">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={diagramData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+                            <XAxis
+                              dataKey="position"
+                              label={{ value: 'Position (m)', position: 'bottom', offset: 0, style: { fontSize: '12px', fill: theme === 'dark' ? '#d1d5db' : '#666' } }}
+                              tick={{ fill: theme === 'dark' ? '#d1d5db' : '#666', fontSize: '12px' }}
+                              axisLine={{ stroke: theme === 'dark' ? '#d1d5db' : '#666', strokeWidth: 1 }}
+                            />
+                            <YAxis
+                              tickFormatter={(value) => `${value.toFixed(1)}`}
+                              label={{
+                                value: 'Axial Force (kN, tension +)',
+                                angle: -90,
+                                position: 'left',
+                                style: { fontSize: '12px', fill: theme === 'dark' ? '#d1d5db' : '#666' }
+                              }}
+                              tick={{ fill: theme === 'dark' ? '#d1d5db' : '#666' }}
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                backgroundColor: theme === 'dark' ? '#1f2937' : '#fff',
+                                border: theme === 'dark' ? '1px solid #374151' : '1px solid #ddd',
+                                borderRadius: '4px',
+                                color: theme === 'dark' ? '#d1d5db' : 'inherit'
+                              }}
+                              formatter={(value: number) => [`${value.toFixed(2)} kN`, 'Axial Force']}
+                              labelFormatter={(label) => `Position: ${label} m`}
+                            />
+                            <Legend verticalAlign="top" height={36} />
+                            <Line
+                              type="monotone"
+                              dataKey="axialForce"
+                              stroke={theme === 'dark' ? "#a78bfa" : "#7c3aed"}
+                              strokeWidth={2}
+                              dot={false}
+                              name="Axial Force"
+                            />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Soil Pressure Diagram */}
+                  {foundations.length > 0 && (
+                    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Soil Pressure Diagram</h3>
+                      <div className="h-96">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={diagramData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+                            <XAxis
+                              dataKey="position"
+                              type="number"
+                              domain={[0, beamLength]}
+                              label={{ value: 'Position (m)', position: 'bottom', offset: 0, style: { fontSize: '12px', fill: theme === 'dark' ? '#d1d5db' : '#666' } }}
+                              tick={{ fill: theme === 'dark' ? '#d1d5db' : '#666', fontSize: '12px' }}
+                              axisLine={{ stroke: theme === 'dark' ? '#d1d5db' : '#666', strokeWidth: 1 }}
+                            />
+                            <YAxis
+                              tickFormatter={(value) => `${value.toFixed(1)}`}
+                              label={{
+                                value: 'Soil Pressure (kPa)',
+                                angle: -90,
+                                position: 'left',
+                                style: { fontSize: '12px', fill: theme === 'dark' ? '#d1d5db' : '#666' }
+                              }}
+                              tick={{ fill: theme === 'dark' ? '#d1d5db' : '#666' }}
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                backgroundColor: theme === 'dark' ? '#1f2937' : '#fff',
+                                border: theme === 'dark' ? '1px solid #374151' : '1px solid #ddd',
+                                borderRadius: '4px',
+                                color: theme === 'dark' ? '#d1d5db' : 'inherit'
+                              }}
+                              formatter={(value: number) => [`${value.toFixed(2)} kPa`, 'Soil Pressure']}
+                              labelFormatter={(label) => `Position: ${label} m`}
+                            />
+                            <Legend verticalAlign="top" height={36} />
+                            {upliftRegions.map(([start, end]) => (
+                              <ReferenceArea
+                                key={start}
+                                x1={start}
+                                x2={end}
+                                fill="#f59e0b"
+                                fillOpacity={0.15}
+                                label={{ value: 'Uplift', position: 'insideTop', fill: '#b45309', fontSize: 12 }}
+                              />
+                            ))}
+                            <Line
+                              type="monotone"
+                              dataKey="soilPressure"
+                              stroke={theme === 'dark' ? "#fbbf24" : "#d97706"}
+                              strokeWidth={2}
+                              dot={false}
+                              name="Soil Pressure"
+                            />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">
+                        {upliftRegions.length > 0
+                          ? `The beam lifts off the soil over ${upliftRegions.map(([start, end]) => `${start.toFixed(2)}-${end.toFixed(2)} m`).join(', ')}; the soil springs there are switched off.`
+                          : 'The beam bears on the soil over the full length of every foundation.'}
+                      </p>
+                    </div>
+                  )}
+
+                  <LongTermDeflectionPanel
+                    beamLength={beamLength}
+                    settings={longTermSettings}
+                    setSettings={setLongTermSettings}
+                    compressionSteelRatio={compressionSteelRatio}
+                    result={longTermDeflection.result}
+                    error={longTermDeflection.error}
+                  />
+
+                  <ServiceabilityPanel
+                    limits={deflectionLimits}
+                    setLimits={setDeflectionLimits}
+                    combinations={loadCombinations}
+                    checks={deflectionChecks.checks}
+                    error={deflectionChecks.error}
+                  />
+
+                  {/* Moving Loads and Influence Lines */}
+                  <MovingLoadPanel
+                    beamLength={beamLength}
+                    beamHeight={beamHeight}
+                    beamWidth={beamWidth}
+                    materialProps={materialProps}
+                    supports={supports}
+                    options={structureOptions}
+                  />
+
+                  <ModalAnalysisPanel
+                    beamLength={beamLength}
+                    modes={modalAnalysis.modes}
+                    error={modalAnalysis.error}
+                    modeCount={modeCount}
+                    setModeCount={setModeCount}
+                    liveLoadMassFactor={liveLoadMassFactor}
+                    setLiveLoadMassFactor={setLiveLoadMassFactor}
+                    animatedMode={animatedMode}
+                    setAnimatedMode={setAnimatedMode}
+                  />
+
+                  <TimeHistoryPanel
+                    beamLength={beamLength}
+                    beamHeight={beamHeight}
+                    beamWidth={beamWidth}
+                    materialProps={materialProps}
+                    supports={supports}
+                    loads={analysisLoads}
+                    options={structureOptions}
+                    liveLoadMassFactor={liveLoadMassFactor}
+                  />
+
                     {/* Beam Deformation */}
                     <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
                       <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Beam Deformation</h3>
@@ -1087,13 +2073,14 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                         <BeamDeformationVisualization
                           beamLength={beamLength}
                           deflectionData={diagramData}
-                          startSupport={startSupport}
-                          endSupport={endSupport}
-                          startSupportPosition={startSupportPosition}
-                          endSupportPosition={endSupportPosition}
-                          loads={loads}
+                          supports={supports}
+                          loads={analysisLoads}
                           elasticModulus={materialProps.elasticModulus}
                           momentOfInertia={calculateSectionProperties().momentOfInertia}
+                          envelope={envelope}
+                          hinges={hinges}
+                          mode={modalAnalysis.modes.find(mode => mode.number === animatedMode)}
+                          deflectionChecks={deflectionChecks.checks}
                         />
                       </div>
                     </div>
@@ -1119,7 +2106,11 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                       <button
                         className="flex items-center gap-2 px-3 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 transition-colors text-sm"
                         onClick={() => {
-                          const summary = `Support Reactions:\nSupport A: ${reactions.reactionA.toFixed(2)} kN\nSupport B: ${reactions.reactionB.toFixed(2)} kN\nMoment A: ${reactions.momentA.toFixed(2)} kN·m\nMoment B: ${reactions.momentB.toFixed(2)} kN·m\n\nMaximum Values:\nMax Shear: ${Math.max(...diagramData.map(d => Math.abs(d.shear))).toFixed(2)} kN\nMax Moment: ${Math.max(...diagramData.map(d => Math.abs(d.moment))).toFixed(2)} kN·m\nMax Deflection: ${Math.max(...diagramData.map(d => Math.abs(d.deflection))).toFixed(3)} mm\n\nStress Analysis:\nMax Normal Stress: ${Math.max(...diagramData.map(d => Math.abs(d.normalStress))).toFixed(2)} MPa\nMax Shear Stress: ${Math.max(...diagramData.map(d => Math.abs(d.shearStress))).toFixed(2)} MPa\nMax von Mises: ${Math.max(...diagramData.map(d => Math.abs(d.vonMisesStress))).toFixed(2)} MPa`;
+                          const deflectionParts = peakDeflection?.shearDeflection !== undefined
+                            ? ` (bending ${(peakDeflection.deflection - peakDeflection.shearDeflection).toFixed(3)} + shear ${peakDeflection.shearDeflection.toFixed(3)})`
+                            : '';
+                          const reactionSummary = reactions.map((r, i) => `Support ${i + 1} (x = ${r.position.toFixed(2)} m): ${r.force.toFixed(2)} kN, ${r.moment.toFixed(2)} kN·m${r.horizontal ? `, horizontal ${r.horizontal.toFixed(2)} kN` : ''}`).join('\n');
+                          const summary = `Support Reactions:\n${reactionSummary}\n\nMaximum Values:\nMax Shear: ${Math.max(...diagramData.map(d => Math.abs(d.shear))).toFixed(2)} kN\nMax Moment: ${Math.max(...diagramData.map(d => Math.abs(d.moment))).toFixed(2)} kN·m\nMax Deflection: ${Math.max(...diagramData.map(d => Math.abs(d.deflection))).toFixed(3)} mm${deflectionParts}${amplification ? `\nP-delta Amplification: moment ×${amplification.moment.toFixed(3)}, deflection ×${amplification.deflection.toFixed(3)}` : ''}\n\nStress Analysis:\nMax Normal Stress: ${Math.max(...diagramData.map(d => Math.abs(d.normalStress))).toFixed(2)} MPa\nMax Shear Stress: ${Math.max(...diagramData.map(d => Math.abs(d.shearStress))).toFixed(2)} MPa\nMax von Mises: ${Math.max(...diagramData.map(d => Math.abs(d.vonMisesStress))).toFixed(2)} MPa`;
                           navigator.clipboard.writeText(summary);
                           toast.success('Results copied to clipboard!');
                         }}
@@ -1132,10 +2123,17 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                       <div className="bg-blue-50 dark:bg-blue-900/30 p-4 rounded-xl transition-colors">
                         <h4 className="text-sm font-medium text-blue-800 dark:text-blue-300 mb-2">Support Reactions</h4>
                         <div className="space-y-2 text-sm dark:text-gray-300">
-                          <p>Support A: {reactions.reactionA.toFixed(2)} kN</p>
-                          <p>Support B: {reactions.reactionB.toFixed(2)} kN</p>
-                          <p>Moment A: {reactions.momentA.toFixed(2)} kN·m {reactions.momentA > 0 ? '↻' : '↺'}</p>
-                          <p>Moment B: {reactions.momentB.toFixed(2)} kN·m {reactions.momentB > 0 ? '↻' : '↺'}</p>
+                          {reactions.map((reaction, index) => (
+                            <React.Fragment key={reaction.supportId}>
+                              <p>Support {index + 1} (x = {reaction.position.toFixed(2)} m): {reaction.force.toFixed(2)} kN</p>
+                              {reaction.moment !== 0 && (
+                                <p>Moment {index + 1}: {reaction.moment.toFixed(2)} kN·m {reaction.moment > 0 ? '↻' : '↺'}</p>
+                              )}
+                              {reaction.horizontal !== 0 && (
+                                <p>Horizontal {index + 1}: {Math.abs(reaction.horizontal).toFixed(2)} kN {reaction.horizontal > 0 ? '→' : '←'}</p>
+                              )}
+                            </React.Fragment>
+                          ))}
                         </div>
                       </div>
 
@@ -1145,6 +2143,14 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                           <p>Max Shear: {Math.max(...diagramData.map(d => Math.abs(d.shear))).toFixed(2)} kN</p>
                           <p>Max Moment: {Math.max(...diagramData.map(d => Math.abs(d.moment))).toFixed(2)} kN⋅m</p>
                           <p>Max Deflection: {Math.max(...diagramData.map(d => Math.abs(d.deflection))).toFixed(3)} mm</p>
+                          {amplification && (
+                            <p>P-delta amplification: moment ×{amplification.moment.toFixed(3)}, deflection ×{amplification.deflection.toFixed(3)}</p>
+                          )}
+                          {peakDeflection?.shearDeflection !== undefined && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              at {peakDeflection.position.toFixed(2)} m: bending {(peakDeflection.deflection - peakDeflection.shearDeflection).toFixed(3)} mm + shear {peakDeflection.shearDeflection.toFixed(3)} mm
+                            </p>
+                          )}
                         </div>
                       </div>
 
@@ -1175,10 +2181,15 @@ const BeamAnalysis: React.FC<BeamAnalysisProps> = ({ onBeamDataChange, ...rest }
                 }}
                 loads={{
                   axialForce: 0,
-                  shearForce: Math.max(...diagramData.map(d => Math.abs(d.shear)), 0),
-                  bendingMoment: Math.max(...diagramData.map(d => Math.abs(d.moment)), 0),
+                  shearForce: Math.abs(criticalSections.shear?.shear ?? 0),
+                  bendingMoment: Math.abs(criticalSections.moment?.moment ?? 0),
+                  shearForceY: Math.abs(criticalSections.shear?.shearY ?? 0),
+                  bendingMomentY: Math.abs(criticalSections.moment?.momentY ?? 0),
                   torsion: 0
                 }}
+                positions={criticalSections.moment && criticalSections.shear
+                  ? { moment: criticalSections.moment.position, shear: criticalSections.shear.position }
+                  : undefined}
               />
             )}
           </div>
@@ -1,15 +1,16 @@
 // BeamDeformationVisualization.tsx
 import React, { useState, useEffect } from 'react';
-import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend } from 'recharts';
-
-type SupportType = 'pin' | 'roller' | 'fixed' | 'free';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { DeflectionCheck, EnvelopePoint, Hinge, Support, SupportType, VibrationMode } from './types';
 
 interface Load {
   id: number;
-  type: 'point' | 'distributed' | 'moment' | 'torsion';
+  type: 'point' | 'distributed' | 'linear' | 'moment' | 'torsion' | 'thermal' | 'axial';
   position: number;
   magnitude: number;
   length?: number;
+  endMagnitude?: number;
+  temperatureGradient?: number;
   momentDirection?: 'clockwise' | 'anticlockwise';
 }
 
@@ -18,50 +19,85 @@ interface DiagramPoint {
   deflection: number;
   scaledDeflection: number;
   beamLine: number;
+  envelope?: EnvelopePoint['deflection'];
+  scaledEnvelopeMax?: number;
+  scaledEnvelopeMin?: number;
 }
 
 interface BeamDeformationVisualizationProps {
   beamLength: number;
   deflectionData: { position: number; deflection: number }[];
-  startSupport: SupportType;
-  endSupport: SupportType;
-  startSupportPosition: number;
-  endSupportPosition: number;
+  supports: Support[];
   loads: Load[];
   elasticModulus: number;
   momentOfInertia: number;
+  envelope?: EnvelopePoint[];
+  hinges?: Hinge[];
+  mode?: VibrationMode;  // mode shape to animate in the diagram view
+  deflectionChecks?: DeflectionCheck[];  // allowable deflections to mark on the graph
 }
 
+// One cycle of the mode shape animation
+const MODE_FRAMES = 16;
+const MODE_AMPLITUDE = 80;  // px
+const MODE_CYCLE = '1.6s';
+
+// Stable default so the scaling effect does not rerun on every render
+const NO_ENVELOPE: EnvelopePoint[] = [];
+const NO_HINGES: Hinge[] = [];
+const NO_CHECKS: DeflectionCheck[] = [];
+
 const BeamDeformationVisualization: React.FC<BeamDeformationVisualizationProps> = ({
   beamLength,
   deflectionData = [],
-  startSupport,
-  endSupport,
-  startSupportPosition = 0,
-  endSupportPosition,
+  supports = [],
   loads = [],
   elasticModulus = 0,
   momentOfInertia = 0,
+  envelope = NO_ENVELOPE,
+  hinges = NO_HINGES,
+  mode,
+  deflectionChecks = NO_CHECKS,
 }) => {
   const [scaledDeflectionData, setScaledDeflectionData] = useState<DiagramPoint[]>([]);
+  const [scaleFactor, setScaleFactor] = useState<number>(1);
   const [activeTab, setActiveTab] = useState<'graph' | 'diagram'>('graph');
 
   useEffect(() => {
     if (deflectionData.length === 0) return;
 
-    const maxDefl = Math.max(...deflectionData.map((d) => Math.abs(d.deflection)));
+    // Service envelopes share the diagram sample positions
+    const deflectionEnvelope = envelope.length === deflectionData.length
+      ? envelope.map(point => point.deflection)
+      : [];
+    const maxDefl = Math.max(
+      ...deflectionData.map((d) => Math.abs(d.deflection)),
+      ...deflectionEnvelope.map(value => (value ? Math.max(Math.abs(value.max), Math.abs(value.min)) : 0))
+    );
     const reasonableMaxDeflection = beamLength / 20;
     const scaleFactor = maxDefl === 0 ? 1 : Math.min(50 / maxDefl, 50 / reasonableMaxDeflection);
 
-    const scaled = deflectionData.map((point) => ({
-      position: point.position,
-      deflection: point.deflection,
-      scaledDeflection: -point.deflection * scaleFactor,
-      beamLine: 0,
-    }));
+    const scaled = deflectionData.map((point, i) => {
+      const pointEnvelope = deflectionEnvelope[i];
+      return {
+        position: point.position,
+        deflection: point.deflection,
+        scaledDeflection: -point.deflection * scaleFactor,
+        beamLine: 0,
+        envelope: pointEnvelope,
+        scaledEnvelopeMax: pointEnvelope && -pointEnvelope.max * scaleFactor,
+        scaledEnvelopeMin: pointEnvelope && -pointEnvelope.min * scaleFactor,
+      };
+    });
 
     setScaledDeflectionData(scaled);
-  }, [deflectionData, beamLength]);
+    setScaleFactor(scaleFactor);
+  }, [deflectionData, envelope, beamLength]);
+
+  // Show a mode shape as soon as one is picked
+  useEffect(() => {
+    if (mode) setActiveTab('diagram');
+  }, [mode]);
 
   const maxDefl = deflectionData.length > 0 ? Math.max(...deflectionData.map((d) => Math.abs(d.deflection))) : 0;
   const maxDeflPoint = deflectionData.find((d) => Math.abs(d.deflection) === maxDefl);
@@ -72,6 +108,16 @@ const BeamDeformationVisualization: React.FC<BeamDeformationVisualizationProps>
         <div className="bg-white dark:bg-gray-800 p-3 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
           <p className="font-medium dark:text-gray-200">Position: {payload[0].payload.position.toFixed(2)} m</p>
           <p className="text-blue-600 dark:text-blue-400">Deflection: {payload[0].payload.deflection.toFixed(3)} mm</p>
+          {payload[0].payload.envelope && (
+            <>
+              <p className="text-indigo-600 dark:text-indigo-300">
+                Max: {payload[0].payload.envelope.max.toFixed(3)} mm ({payload[0].payload.envelope.maxCombination})
+              </p>
+              <p className="text-indigo-600 dark:text-indigo-300">
+                Min: {payload[0].payload.envelope.min.toFixed(3)} mm ({payload[0].payload.envelope.minCombination})
+              </p>
+            </>
+          )}
         </div>
       );
     }
@@ -94,12 +140,7 @@ const BeamDeformationVisualization: React.FC<BeamDeformationVisualizationProps>
   const renderBeamDiagram = () => {
     // Polyline points for deflected shape
     const points = scaledDeflectionData.map(point => `${(point.position / beamLength) * 1000},${250 + point.scaledDeflection}`).join(' ');
-    
-    // Check if it's a cantilever beam
-    const isCantilever = (startSupport === 'fixed' && endSupport === 'free') || 
-                        (startSupport === 'free' && endSupport === 'fixed');
-    const fixedEnd = startSupport === 'fixed' ? 'start' : 'end';
-    
+
     return (
       <svg className="w-full h-[500px] md:h-[600px] dark:text-gray-200" viewBox="0 0 1000 500" preserveAspectRatio="xMidYMid meet">
         {/* Background grid with improved styling */}
@@ -132,9 +173,9 @@ const BeamDeformationVisualization: React.FC<BeamDeformationVisualizationProps>
   
         {/* Original beam position with subtle styling */}
         <line
-          x1={(startSupportPosition / beamLength) * 1000}
+          x1="0"
           y1="250"
-          x2={(endSupportPosition / beamLength) * 1000}
+          x2="1000"
           y2="250"
           stroke="currentColor"
           className="text-gray-300 dark:text-gray-600"
@@ -151,13 +192,48 @@ const BeamDeformationVisualization: React.FC<BeamDeformationVisualizationProps>
           strokeWidth="4"
           className="stroke-blue-600 dark:stroke-blue-400 transition-all duration-300"
         />
+
+        {/* Vibrating mode shape, swinging through one cycle of cos(ωt) */}
+        {mode && (
+          <g>
+            <polyline fill="none" strokeWidth="4" className="stroke-violet-600 dark:stroke-violet-400">
+              <animate
+                attributeName="points"
+                dur={MODE_CYCLE}
+                repeatCount="indefinite"
+                values={Array.from({ length: MODE_FRAMES + 1 }, (_, frame) => {
+                  const phase = Math.cos((2 * Math.PI * frame) / MODE_FRAMES);
+                  return mode.shape
+                    .map(point => `${(point.position / beamLength) * 1000},${250 + point.deflection * MODE_AMPLITUDE * phase}`)
+                    .join(' ');
+                }).join(';')}
+              />
+            </polyline>
+            <text x="500" y="30" textAnchor="middle" className="fill-violet-600 dark:fill-violet-400 text-base font-bold">
+              Mode {mode.number}: {mode.frequency.toFixed(2)} Hz
+            </text>
+          </g>
+        )}
+
+        {/* Internal hinges, drawn on the deflected beam */}
+        {hinges.map(hinge => {
+          const nearest = scaledDeflectionData.reduce<DiagramPoint | undefined>((best, point) =>
+            !best || Math.abs(point.position - hinge.position) < Math.abs(best.position - hinge.position) ? point : best, undefined);
+          return (
+            <circle
+              key={`hinge-${hinge.id}`}
+              cx={(hinge.position / beamLength) * 1000}
+              cy={250 + (nearest?.scaledDeflection ?? 0)}
+              r="8"
+              className="fill-white dark:fill-gray-800 stroke-blue-600 dark:stroke-blue-400"
+              strokeWidth="3"
+            />
+          );
+        })}
   
         {/* Enhanced supports with shadow and depth */}
-        {[
-          { type: startSupport, position: startSupportPosition },
-          { type: endSupport, position: endSupportPosition },
-        ].map((support, index) => (
-          <g key={`support-${index}`} transform={`translate(${(support.position / beamLength) * 1000}, 250)`}>
+        {supports.map((support) => (
+          <g key={`support-${support.id}`} transform={`translate(${(support.position / beamLength) * 1000}, 250)`}>
             {support.type === 'fixed' ? (
               <g className="transform transition hover:scale-110">
                 <rect x="-12" y="-80" width="24" height="140" className="fill-slate-700 dark:fill-slate-500" rx="3" />
@@ -174,7 +250,17 @@ const BeamDeformationVisualization: React.FC<BeamDeformationVisualizationProps>
                 ))}
                 <path d="M-12 -80 L12 -80 L0 -110" className="fill-slate-700 dark:fill-slate-500" />
               </g>
-            ) : support.type !== 'free' ? (
+            ) : support.type === 'spring' ? (
+              <g className="transform transition hover:scale-105">
+                <path
+                  d="M0,0 L0,10 L-14,16 L14,28 L-14,40 L14,52 L0,58 L0,66"
+                  fill="none"
+                  className="stroke-slate-700 dark:stroke-slate-500"
+                  strokeWidth="3"
+                />
+                <line x1="-30" y1="66" x2="30" y2="66" className="stroke-slate-700 dark:stroke-slate-500" strokeWidth="4" />
+              </g>
+            ) : (
               <g className="transform transition hover:scale-105">
                 <path
                   d="M-30,50 L30,50 L0,-30"
@@ -190,7 +276,7 @@ const BeamDeformationVisualization: React.FC<BeamDeformationVisualizationProps>
                   </g>
                 )}
               </g>
-            ) : null}
+            )}
           </g>
         ))}
   
@@ -263,6 +349,95 @@ const BeamDeformationVisualization: React.FC<BeamDeformationVisualizationProps>
                 </g>
               )}
               
+              {load.type === 'linear' && load.length && (() => {
+                // Arrow heights follow the intensity, scaled to the larger end
+                const width = (loadLength / beamLength) * 1000;
+                const startMagnitude = load.magnitude;
+                const endMagnitude = load.endMagnitude ?? load.magnitude;
+                const peak = Math.max(Math.abs(startMagnitude), Math.abs(endMagnitude)) || 1;
+                const heightAt = (t: number) =>
+                  (60 * Math.abs(startMagnitude + (endMagnitude - startMagnitude) * t)) / peak;
+                const arrows = Math.max(1, Math.ceil(width / 20));
+                return (
+                  <g className="hover:drop-shadow-lg">
+                    <polygon
+                      points={`0,0 0,${-heightAt(0)} ${width},${-heightAt(1)} ${width},0`}
+                      className="fill-red-600/10 stroke-red-600 dark:fill-red-500/10 dark:stroke-red-500"
+                      strokeWidth="3"
+                    />
+                    {Array.from({ length: arrows + 1 }).map((_, i) => (
+                      <line
+                        key={`linear-line-${i}`}
+                        x1={(i / arrows) * width}
+                        y1={-heightAt(i / arrows)}
+                        x2={(i / arrows) * width}
+                        y2="0"
+                        className="stroke-red-600 dark:stroke-red-500"
+                        strokeWidth="2"
+                      />
+                    ))}
+                    {([
+                      { x: 0, value: startMagnitude, anchor: 'start' },
+                      { x: width, value: endMagnitude, anchor: 'end' },
+                    ] as const).map(({ x: labelX, value, anchor }) => (
+                      <text
+                        key={`linear-label-${anchor}`}
+                        x={labelX}
+                        y="-80"
+                        textAnchor={anchor}
+                        className="fill-red-600 dark:fill-red-500 text-sm font-bold drop-shadow-sm"
+                      >
+                        {value} kN/m
+                      </text>
+                    ))}
+                  </g>
+                );
+              })()}
+
+              {load.type === 'thermal' && load.length && (
+                <g className="hover:drop-shadow-lg">
+                  <rect
+                    x="0"
+                    y="-30"
+                    width={(loadLength / beamLength) * 1000}
+                    height="20"
+                    className="fill-orange-500/15 stroke-orange-500"
+                    strokeWidth="2"
+                    strokeDasharray="6 4"
+                  />
+                  <text
+                    x={(loadLength / beamLength) * 500}
+                    y="-40"
+                    textAnchor="middle"
+                    className="fill-orange-600 dark:fill-orange-400 text-sm font-bold drop-shadow-sm"
+                  >
+                    ΔT {load.magnitude} °C{load.temperatureGradient ? `, bottom − top ${load.temperatureGradient} °C` : ''}
+                  </text>
+                </g>
+              )}
+
+              {load.type === 'axial' && (() => {
+                // Drawn on the beam axis, pointing the way the force acts
+                const direction = load.magnitude > 0 ? -1 : 1;
+                return (
+                  <g className="hover:drop-shadow-lg">
+                    <line x1={-direction * 60} y1="0" x2="0" y2="0" className="stroke-indigo-600 dark:stroke-indigo-400" strokeWidth="4" strokeLinecap="round" />
+                    <polygon
+                      points={`${direction * 4},0 ${-direction * 12},-8 ${-direction * 12},8`}
+                      className="fill-indigo-600 dark:fill-indigo-400"
+                    />
+                    <text
+                      x={-direction * 30}
+                      y="-14"
+                      textAnchor="middle"
+                      className="fill-indigo-600 dark:fill-indigo-400 text-sm font-bold drop-shadow-sm"
+                    >
+                      {Math.abs(load.magnitude)} kN
+                    </text>
+                  </g>
+                );
+              })()}
+
               {load.type === 'moment' && (
                 <g className="hover:drop-shadow-lg">
                   <path
@@ -312,9 +487,7 @@ const BeamDeformationVisualization: React.FC<BeamDeformationVisualizationProps>
     );
   };
 
-  const renderSupport = (type: SupportType, position: number, isStart: boolean) => {
-    if (type === 'free') return null; // Don't render anything for free supports
-
+  const renderSupport = (type: SupportType, position: number) => {
     const x = position * 1000;
     const y = 250;
     const supportSize = 15;
@@ -426,6 +599,45 @@ const BeamDeformationVisualization: React.FC<BeamDeformationVisualizationProps>
                   strokeWidth={2}
                   dot={false}
                 />
+                {scaledDeflectionData.some(point => point.envelope) && (
+                  <Line
+                    type="monotone"
+                    dataKey="scaledEnvelopeMax"
+                    name="Service Envelope Max"
+                    stroke="#4f46e5"
+                    className="dark:stroke-indigo-300"
+                    strokeDasharray="6 3"
+                    dot={false}
+                  />
+                )}
+                {scaledDeflectionData.some(point => point.envelope) && (
+                  <Line
+                    type="monotone"
+                    dataKey="scaledEnvelopeMin"
+                    name="Service Envelope Min"
+                    stroke="#4f46e5"
+                    className="dark:stroke-indigo-300"
+                    strokeDasharray="2 3"
+                    dot={false}
+                  />
+                )}
+                {/* Allowable deflection off the chord of each span, on the side the beam deflects */}
+                {deflectionChecks.map((check, i) => {
+                  const offset = Math.sign(check.deflection || 1) * check.allowable;
+                  return (
+                    <ReferenceLine
+                      key={`${check.limitId}-${i}`}
+                      segment={[
+                        { x: check.start, y: -(check.chord[0] + offset) * scaleFactor },
+                        { x: check.end, y: -(check.chord[1] + offset) * scaleFactor },
+                      ]}
+                      stroke={check.utilisation > 1 ? '#dc2626' : '#16a34a'}
+                      strokeDasharray="4 4"
+                      ifOverflow="extendDomain"
+                      label={{ value: `${check.allowable.toFixed(1)} mm`, position: 'insideTopRight', fontSize: 10, fill: check.utilisation > 1 ? '#dc2626' : '#16a34a' }}
+                    />
+                  );
+                })}
               </LineChart>
             </ResponsiveContainer>
           ) : (
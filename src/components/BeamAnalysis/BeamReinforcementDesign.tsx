@@ -14,12 +14,14 @@ import {
 import { BarChart2, Settings, Ruler, Zap, Shield, ChevronDown, ChevronUp, Calculator } from 'lucide-react';
 import BeamCrossSection from './BeamCrossSection';
 import BeamSideView from './BeamSideView';
+import { ProvidedReinforcement } from './types';
 
 interface BeamReinforcementDesignProps {
   width?: number;
   height?: number;
   M_u?: number;
   V_u?: number;
+  onReinforcementChange?: (reinforcement: ProvidedReinforcement | null) => void;  // provided bars after each design
 }
 
 const defaultInput: BeamReinforcementInput = {
@@ -44,7 +46,7 @@ const defaultInput: BeamReinforcementInput = {
 const availableBarSizes = Object.keys(defaultInput.bar_areas).map(Number);
 const availableStirrupSizes = defaultInput.stirrup_sizes;
 
-const BeamReinforcementDesign: React.FC<BeamReinforcementDesignProps> = ({ width, height, M_u, V_u }) => {
+const BeamReinforcementDesign: React.FC<BeamReinforcementDesignProps> = ({ width, height, M_u, V_u, onReinforcementChange }) => {
   const [input, setInput] = useState<BeamReinforcementInput>({
     ...defaultInput,
     stirrup_spacing: defaultInput.stirrup_spacing ?? 100,
@@ -269,9 +271,18 @@ const BeamReinforcementDesign: React.FC<BeamReinforcementDesignProps> = ({ width
         capacity_ratio,
         is_doubly: flexural.is_doubly,
       });
+      onReinforcementChange?.({
+        tensionSteel: tension.A_s_prov,
+        effectiveDepth: d_actual,
+        compressionSteel: comp.A_s_prov,
+        compressionDepth: d_prime_actual,
+        concreteStrength: input.f_c,
+        steelYieldStrength: input.f_y,
+      });
     } catch (err: any) {
       setResults(null);
       setTorsionResult(null);
+      onReinforcementChange?.(null);
       setError(err.message || 'Calculation error');
     }
   };
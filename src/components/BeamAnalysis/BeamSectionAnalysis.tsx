@@ -107,15 +107,20 @@ interface BeamSectionAnalysisProps {
     axialForce: number;
     shearForce: number;
     bendingMoment: number;
+    shearForceY?: number;     // kN, from the lateral components of inclined loads
+    bendingMomentY?: number;  // kN·m, about the weak axis
     torsion: number;
   };
+  // m, where the beam analysis found the governing moments and shears
+  positions?: { moment: number; shear: number };
 }
 
 const BeamSectionAnalysis: React.FC<BeamSectionAnalysisProps> = ({
   width,
   height,
   materialProps,
-  loads
+  loads,
+  positions
 }) => {
   const { theme } = useTheme();
   
@@ -266,7 +271,13 @@ const BeamSectionAnalysis: React.FC<BeamSectionAnalysisProps> = ({
               <Zap className="w-4 h-4" />
               Applied Loads
             </h3>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {positions && (
+              <p className="text-xs text-green-700 dark:text-green-300 mb-3">
+                Moments X and Y from the section at {positions.moment.toFixed(2)} m, with the largest combined bending
+                stress; shears X and Y from the section at {positions.shear.toFixed(2)} m, with the largest resultant shear.
+              </p>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
               <div>
                 <label className="text-xs font-medium text-green-700 dark:text-green-300">Axial (kN)</label>
                 <input
@@ -277,7 +288,7 @@ const BeamSectionAnalysis: React.FC<BeamSectionAnalysisProps> = ({
                 />
               </div>
               <div>
-                <label className="text-xs font-medium text-green-700 dark:text-green-300">Shear (kN)</label>
+                <label className="text-xs font-medium text-green-700 dark:text-green-300">Shear X (kN)</label>
                 <input
                   type="number"
                   value={appliedLoads.shearForceX}
@@ -286,7 +297,7 @@ const BeamSectionAnalysis: React.FC<BeamSectionAnalysisProps> = ({
                 />
               </div>
               <div>
-                <label className="text-xs font-medium text-green-700 dark:text-green-300">Moment (kN·m)</label>
+                <label className="text-xs font-medium text-green-700 dark:text-green-300">Moment X (kN·m)</label>
                 <input
                   type="number"
                   value={appliedLoads.bendingMomentX}
@@ -294,6 +305,24 @@ const BeamSectionAnalysis: React.FC<BeamSectionAnalysisProps> = ({
                   className="w-full px-2 py-1 text-sm rounded border border-green-300 dark:border-green-600 dark:bg-green-600/20 dark:text-green-100 focus:ring-1 focus:ring-green-500"
                 />
               </div>
+              <div>
+                <label className="text-xs font-medium text-green-700 dark:text-green-300">Shear Y (kN)</label>
+                <input
+                  type="number"
+                  value={appliedLoads.shearForceY}
+                  onChange={(e) => setAppliedLoads({...appliedLoads, shearForceY: Number(e.target.value)})}
+                  className="w-full px-2 py-1 text-sm rounded border border-green-300 dark:border-green-600 dark:bg-green-600/20 dark:text-green-100 focus:ring-1 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="text-xs font-medium text-green-700 dark:text-green-300">Moment Y (kN·m)</label>
+                <input
+                  type="number"
+                  value={appliedLoads.bendingMomentY}
+                  onChange={(e) => setAppliedLoads({...appliedLoads, bendingMomentY: Number(e.target.value)})}
+                  className="w-full px-2 py-1 text-sm rounded border border-green-300 dark:border-green-600 dark:bg-green-600/20 dark:text-green-100 focus:ring-1 focus:ring-green-500"
+                />
+              </div>
               <div>
                 <label className="text-xs font-medium text-green-700 dark:text-green-300">Torsion (kN·m)</label>
                 <input
@@ -423,9 +452,9 @@ const BeamSectionAnalysis: React.FC<BeamSectionAnalysisProps> = ({
             height={height}
             area={sectionProps.area}
             momentOfInertiaX={sectionProps.momentOfInertia}
-            momentOfInertiaY={sectionProps.momentOfInertia}
+            momentOfInertiaY={sectionProps.momentOfInertiaY ?? 0}
             sectionModulusX={sectionProps.sectionModulus}
-            sectionModulusY={sectionProps.sectionModulus}
+            sectionModulusY={sectionProps.sectionModulusY ?? 0}
             radiusOfGyrationX={0}
             radiusOfGyrationY={0}
             plasticModulusX={0}
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Plus, ShieldAlert, Trash2 } from 'lucide-react';
+import { BucklingSegment, LateralBrace } from './types';
+
+interface BucklingPanelProps {
+  braces: LateralBrace[];
+  setBraces: React.Dispatch<React.SetStateAction<LateralBrace[]>>;
+  segments: BucklingSegment[];  // empty until the beam has been analysed
+  beamLength: number;  // m
+}
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100';
+
+const utilisationClass = (ratio: number) =>
+  ratio > 1 ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-green-600 dark:text-green-400';
+
+const BucklingPanel: React.FC<BucklingPanelProps> = ({
+  braces,
+  setBraces,
+  segments,
+  beamLength,
+}) => {
+  const addBrace = () => {
+    setBraces(prev => [...prev, { id: Math.max(0, ...prev.map(b => b.id)) + 1, position: beamLength / 2 }]);
+  };
+
+  const updateBrace = (id: number, position: number) => {
+    setBraces(prev => prev.map(brace => (brace.id === id ? { ...brace, position: Math.max(0, Math.min(position, beamLength)) } : brace)));
+  };
+
+  const hasCompression = segments.some(segment => segment.axialCompression > 0);
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors" aria-labelledby="buckling-header">
+      <h2 id="buckling-header" className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <ShieldAlert className="w-6 h-6 text-rose-500" />
+        Lateral-Torsional Buckling
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Supports and lateral braces hold the compression flange and prevent twist; the beam between them is checked
+        against its elastic critical moment Mcr, with Cb from the moment diagram. Members in compression are also
+        checked against Euler buckling.
+      </p>
+      <div className="space-y-4">
+        {braces.map((brace, index) => (
+          <div key={brace.id} className="flex items-end gap-4">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Brace {index + 1} Position (m)</label>
+              <input
+                type="number"
+                value={brace.position}
+                onChange={(e) => updateBrace(brace.id, Number(e.target.value))}
+                min="0"
+                max={beamLength}
+                step="0.1"
+                className={inputClass}
+                aria-label={`Lateral brace ${index + 1} position`}
+              />
+            </div>
+            <button
+              onClick={() => setBraces(prev => prev.filter(b => b.id !== brace.id))}
+              className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-gray-900 rounded-lg transition-colors"
+              title="Remove Brace"
+              aria-label={`Remove lateral brace ${index + 1}`}
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={addBrace}
+          className="w-full px-4 py-2 bg-rose-500 text-white rounded-lg hover:bg-rose-600 transition-colors flex items-center justify-center gap-2"
+          aria-label="Add lateral brace"
+        >
+          <Plus className="w-5 h-5" />
+          Add Lateral Brace
+        </button>
+
+        {segments.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+              <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="py-2 pr-2">Segment (m)</th>
+                  <th className="py-2 pr-2">Cb</th>
+                  <th className="py-2 pr-2">M / Mcr (kN·m)</th>
+                  <th className="py-2 pr-2">M/Mcr</th>
+                  {hasCompression && <th className="py-2 pr-2">N / Ncr (kN)</th>}
+                  {hasCompression && <th className="py-2">N/Ncr</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {segments.map(segment => (
+                  <tr key={`${segment.start}-${segment.end}`} className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="py-2 pr-2">
+                      {segment.start.toFixed(2)}–{segment.end.toFixed(2)}{segment.cantilever ? ' (cantilever)' : ''}
+                    </td>
+                    <td className="py-2 pr-2">{segment.cb.toFixed(2)}</td>
+                    <td className="py-2 pr-2">{segment.maxMoment.toFixed(1)} / {segment.criticalMoment.toFixed(1)}</td>
+                    <td className={`py-2 pr-2 ${utilisationClass(segment.momentUtilisation)}`}>{segment.momentUtilisation.toFixed(2)}</td>
+                    {hasCompression && (
+                      <td className="py-2 pr-2">
+                        {segment.axialCompression.toFixed(1)} / {segment.eulerLoad.toFixed(1)} ({segment.eulerAxis} axis)
+                      </td>
+                    )}
+                    {hasCompression && (
+                      <td className={`py-2 ${utilisationClass(segment.axialUtilisation)}`}>{segment.axialUtilisation.toFixed(2)}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default BucklingPanel;
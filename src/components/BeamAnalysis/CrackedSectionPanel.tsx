@@ -0,0 +1,162 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { Layers } from 'lucide-react';
+import { DiagramPoint, ProvidedReinforcement } from './types';
+import { crackedSectionProperties } from './crackedSection';
+import { useTheme } from '../ThemeProvider';
+
+interface CrackedSectionPanelProps {
+  enabled: boolean;
+  setEnabled: React.Dispatch<React.SetStateAction<boolean>>;
+  reinforcement: ProvidedReinforcement | null;  // null until the reinforcement has been designed
+  beamLength: number;     // m
+  beamHeight: number;     // mm
+  beamWidth: number;      // mm
+  elasticModulus: number; // MPa, of the concrete
+  onUseConcreteModulus: (modulus: number) => void;
+  diagramData: DiagramPoint[];
+}
+
+// ACI 318-19 Eq. 19.2.2.1.b, normalweight concrete
+const concreteModulus = (concreteStrength: number) => 4700 * Math.sqrt(concreteStrength);
+
+const CrackedSectionPanel: React.FC<CrackedSectionPanelProps> = ({
+  enabled,
+  setEnabled,
+  reinforcement,
+  beamLength,
+  beamHeight,
+  beamWidth,
+  elasticModulus,
+  onUseConcreteModulus,
+  diagramData,
+}) => {
+  const { theme } = useTheme();
+
+  const properties = useMemo(() => {
+    if (!reinforcement || !(elasticModulus > 0)) return null;
+    return crackedSectionProperties({ width: beamWidth, height: beamHeight, ...reinforcement }, reinforcement.concreteStrength, elasticModulus);
+  }, [reinforcement, beamWidth, beamHeight, elasticModulus]);
+
+  const ratioData = useMemo(
+    () => diagramData
+      .filter(point => point.effectiveInertiaRatio !== undefined)
+      .map(point => ({ position: point.position, ratio: point.effectiveInertiaRatio })),
+    [diagramData]
+  );
+
+  const axisColor = theme === 'dark' ? '#d1d5db' : '#666';
+  const tooltipStyle = {
+    backgroundColor: theme === 'dark' ? '#1f2937' : '#fff',
+    border: theme === 'dark' ? '1px solid #374151' : '1px solid #ddd',
+    borderRadius: '4px',
+    color: theme === 'dark' ? '#d1d5db' : 'inherit'
+  };
+  const suggestedModulus = reinforcement ? Math.round(concreteModulus(reinforcement.concreteStrength)) : undefined;
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors" aria-labelledby="cracked-section-header">
+      <h2 id="cracked-section-header" className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <Layers className="w-6 h-6 text-stone-500" />
+        Cracked-section Stiffness
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        For reinforced concrete, deflections use the effective moment of inertia Ie of ACI 318-19 along the beam,
+        from the bars provided in the Reinforcement tab. Ma is the largest service moment of the same sign in each
+        span, so the sagging and hogging regions of a span each take one Ie. Where moments redistribute, the
+        analysis repeats until the deflections converge. The elastic modulus is taken as that of the concrete.
+        Ie applies to the service analyses: the loads as entered, the service combinations, long-term deflections and
+        deflection limits. Strength combinations, moving loads, buckling and the modal, time-history and plastic
+        analyses keep the gross section.
+      </p>
+      <div className="space-y-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            disabled={!reinforcement}
+            className="rounded border-gray-300 text-stone-600 focus:ring-stone-500"
+            aria-label="Use cracked-section stiffness"
+          />
+          Use cracked-section stiffness
+        </label>
+
+        {!reinforcement && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            Design the reinforcement in the Reinforcement tab first.
+          </p>
+        )}
+
+        {reinforcement && suggestedModulus !== undefined && Math.abs(elasticModulus - suggestedModulus) > 0.05 * suggestedModulus && (
+          <div className="text-sm text-amber-600 dark:text-amber-400">
+            The elastic modulus ({elasticModulus} MPa) differs from 4700√f&#39;c = {suggestedModulus} MPa for
+            f&#39;c = {reinforcement.concreteStrength} MPa.{' '}
+            <button
+              onClick={() => onUseConcreteModulus(suggestedModulus)}
+              className="underline hover:text-amber-800 dark:hover:text-amber-300"
+            >
+              Use {suggestedModulus} MPa
+            </button>
+          </div>
+        )}
+
+        {reinforcement && properties && (
+          <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+            <tbody>
+              <tr>
+                <td className="py-1 pr-2">Bottom / top bars (mm²)</td>
+                <td className="py-1">{reinforcement.tensionSteel.toFixed(0)} / {reinforcement.compressionSteel.toFixed(0)}</td>
+              </tr>
+              <tr>
+                <td className="py-1 pr-2">Cracking moment Mcr (kN·m)</td>
+                <td className="py-1">{properties.crackingMoment.toFixed(1)}</td>
+              </tr>
+              <tr>
+                <td className="py-1 pr-2">Gross Ig (10⁶ mm⁴)</td>
+                <td className="py-1">{(properties.grossInertia / 1e6).toFixed(0)}</td>
+              </tr>
+              <tr>
+                <td className="py-1 pr-2">Cracked Icr, sagging / hogging (10⁶ mm⁴)</td>
+                <td className="py-1">
+                  {(properties.crackedInertia.sagging / 1e6).toFixed(0)} / {(properties.crackedInertia.hogging / 1e6).toFixed(0)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        )}
+
+        {enabled && ratioData.length > 0 && (
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={ratioData} margin={{ top: 10, right: 10, left: 10, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+                <XAxis
+                  dataKey="position"
+                  type="number"
+                  domain={[0, beamLength]}
+                  label={{ value: 'Position (m)', position: 'bottom', offset: 0, style: { fontSize: '12px', fill: axisColor } }}
+                  tick={{ fill: axisColor, fontSize: '12px' }}
+                />
+                <YAxis
+                  domain={[0, 1]}
+                  tickFormatter={(value) => `${value.toFixed(1)}`}
+                  label={{ value: 'Ie / Ig', angle: -90, position: 'insideLeft', style: { fontSize: '12px', fill: axisColor } }}
+                  tick={{ fill: axisColor, fontSize: '12px' }}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number) => [value.toFixed(3), 'Ie / Ig']}
+                  labelFormatter={(label) => `Position: ${label} m`}
+                />
+                <Line type="linear" dataKey="ratio" stroke="#78716c" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CrackedSectionPanel;
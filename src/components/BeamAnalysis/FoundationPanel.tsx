@@ -0,0 +1,145 @@
+import React from 'react';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { ElasticFoundation } from './types';
+
+interface FoundationPanelProps {
+  foundations: ElasticFoundation[];
+  setFoundations: React.Dispatch<React.SetStateAction<ElasticFoundation[]>>;
+  beamLength: number;  // m
+  beamWidth: number;   // mm
+}
+
+// Medium dense sand, as a starting point
+const DEFAULT_SUBGRADE_MODULUS = 40000;  // kN/m³
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100';
+
+const FoundationPanel: React.FC<FoundationPanelProps> = ({
+  foundations,
+  setFoundations,
+  beamLength,
+  beamWidth,
+}) => {
+  const addFoundation = () => {
+    setFoundations(prev => [
+      ...prev,
+      {
+        id: Math.max(0, ...prev.map(f => f.id)) + 1,
+        start: 0,
+        end: beamLength,
+        modulus: DEFAULT_SUBGRADE_MODULUS,
+        width: beamWidth / 1000,
+        compressionOnly: true,
+      },
+    ]);
+  };
+
+  const updateFoundation = (id: number, field: keyof ElasticFoundation, value: number | boolean) => {
+    setFoundations(prev => prev.map(foundation => {
+      if (foundation.id !== id) return foundation;
+      let newValue = value;
+      if ((field === 'start' || field === 'end') && typeof value === 'number') {
+        newValue = Math.max(0, Math.min(value, beamLength));
+      }
+      return { ...foundation, [field]: newValue };
+    }));
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors" aria-labelledby="foundation-header">
+      <h2 id="foundation-header" className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <Layers className="w-6 h-6 text-amber-500" />
+        Elastic Foundation
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Rest all or part of the beam on a Winkler subgrade, e.g. for grade beams and strip footings.
+        The soil line reaction is the modulus of subgrade reaction times the bearing width times the deflection.
+        Pattern live loading and moving loads assume full soil contact.
+      </p>
+      <div className="space-y-4">
+        {foundations.map((foundation, index) => (
+          <div key={foundation.id} className="grid grid-cols-2 gap-4 items-end border-b border-gray-200 dark:border-gray-700 pb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">From (m)</label>
+              <input
+                type="number"
+                value={foundation.start}
+                onChange={(e) => updateFoundation(foundation.id, 'start', Number(e.target.value))}
+                min="0"
+                max={beamLength}
+                step="0.1"
+                className={inputClass}
+                aria-label={`Foundation ${index + 1} start`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">To (m)</label>
+              <input
+                type="number"
+                value={foundation.end}
+                onChange={(e) => updateFoundation(foundation.id, 'end', Number(e.target.value))}
+                min="0"
+                max={beamLength}
+                step="0.1"
+                className={inputClass}
+                aria-label={`Foundation ${index + 1} end`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Subgrade Modulus k (kN/m³)</label>
+              <input
+                type="number"
+                value={foundation.modulus}
+                onChange={(e) => updateFoundation(foundation.id, 'modulus', Math.max(1, Number(e.target.value)))}
+                min="1"
+                step="1000"
+                className={inputClass}
+                aria-label={`Foundation ${index + 1} modulus of subgrade reaction`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Bearing Width (m)</label>
+              <input
+                type="number"
+                value={foundation.width}
+                onChange={(e) => updateFoundation(foundation.id, 'width', Math.max(0.01, Number(e.target.value)))}
+                min="0.01"
+                step="0.05"
+                className={inputClass}
+                aria-label={`Foundation ${index + 1} bearing width`}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={foundation.compressionOnly}
+                onChange={(e) => updateFoundation(foundation.id, 'compressionOnly', e.target.checked)}
+              />
+              No tension: springs switch off where the beam lifts off
+            </label>
+            <div className="flex justify-end">
+              <button
+                onClick={() => setFoundations(prev => prev.filter(f => f.id !== foundation.id))}
+                className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-gray-900 rounded-lg transition-colors"
+                title="Remove Foundation"
+                aria-label={`Remove foundation ${index + 1}`}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={addFoundation}
+          className="w-full px-4 py-2 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors flex items-center justify-center gap-2"
+          aria-label="Add foundation"
+        >
+          <Plus className="w-5 h-5" />
+          Add Foundation
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default FoundationPanel;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { Compass } from 'lucide-react';
+import { DiagramPoint } from './types';
+import { useTheme } from '../ThemeProvider';
+
+interface LateralBendingPanelProps {
+  beamLength: number;
+  diagramData: DiagramPoint[];
+  issue: string | null;  // why the weak-axis bending was not analysed
+}
+
+const SERIES: { key: 'shearY' | 'momentY' | 'deflectionY'; name: string; unit: string; color: string }[] = [
+  { key: 'shearY', name: 'Shear Vy', unit: 'kN', color: '#0ea5e9' },
+  { key: 'momentY', name: 'Moment My', unit: 'kN⋅m', color: '#8b5cf6' },
+  { key: 'deflectionY', name: 'Lateral deflection', unit: 'mm', color: '#ef4444' },
+];
+
+const LateralBendingPanel: React.FC<LateralBendingPanelProps> = ({ beamLength, diagramData, issue }) => {
+  const { theme } = useTheme();
+  if (issue) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+          <Compass className="w-5 h-5 text-violet-500" />
+          Lateral (Weak-axis) Bending
+        </h3>
+        <p className="text-sm text-red-600 dark:text-red-400">{issue}</p>
+      </div>
+    );
+  }
+  // Only inclined loads bend the beam sideways
+  if (!diagramData.some(point => point.momentY !== undefined)) return null;
+
+  const axisColor = theme === 'dark' ? '#d1d5db' : '#666';
+  const tooltipStyle = {
+    backgroundColor: theme === 'dark' ? '#1f2937' : '#fff',
+    border: theme === 'dark' ? '1px solid #374151' : '1px solid #ddd',
+    borderRadius: '4px',
+    color: theme === 'dark' ? '#d1d5db' : 'inherit'
+  };
+  const peak = (key: typeof SERIES[number]['key']) => diagramData.reduce(
+    (max, point) => (Math.abs(point[key] ?? 0) > Math.abs(max.value) ? { value: point[key] ?? 0, position: point.position } : max),
+    { value: 0, position: 0 }
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <Compass className="w-5 h-5 text-violet-500" />
+        Lateral (Weak-axis) Bending
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        The sideways components of the inclined loads bend the beam about its weak axis, held by the same supports and
+        hinges. The normal stresses add My / Sy to the corner of the section that Mx already stresses most.
+      </p>
+      <table className="w-full text-sm text-gray-900 dark:text-gray-100 mb-4">
+        <tbody>
+          {SERIES.map(series => (
+            <tr key={series.key}>
+              <td className="py-1 pr-2">Max {series.name}</td>
+              <td className="py-1">
+                {peak(series.key).value.toFixed(2)} {series.unit} at {peak(series.key).position.toFixed(2)} m
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {SERIES.map(series => (
+        <div key={series.key} className="h-64 mt-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={diagramData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+              <XAxis
+                dataKey="position"
+                type="number"
+                domain={[0, beamLength]}
+                label={{ value: 'Position (m)', position: 'bottom', offset: 0, style: { fontSize: '12px', fill: axisColor } }}
+                tick={{ fill: axisColor, fontSize: '12px' }}
+              />
+              <YAxis
+                label={{ value: `${series.name} (${series.unit})`, angle: -90, position: 'left', style: { fontSize: '12px', fill: axisColor } }}
+                tick={{ fill: axisColor }}
+              />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, name: string) => [`${value.toFixed(2)} ${series.unit}`, name]}
+                labelFormatter={(label) => `Position: ${label} m`}
+              />
+              <Legend verticalAlign="top" height={36} />
+              <ReferenceLine y={0} stroke={axisColor} />
+              <Line type="linear" dataKey={series.key} stroke={series.color} strokeWidth={2} dot={false} name={series.name} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LateralBendingPanel;
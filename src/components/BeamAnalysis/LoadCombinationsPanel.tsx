@@ -0,0 +1,114 @@
+import React from 'react';
+import { Layers, RotateCcw } from 'lucide-react';
+import { LoadCase, LoadCombination } from './types';
+import { DEFAULT_LOAD_COMBINATIONS, LOAD_CASES, describeCombination } from './loadCombinations';
+
+interface LoadCombinationsPanelProps {
+  combinations: LoadCombination[];
+  setCombinations: React.Dispatch<React.SetStateAction<LoadCombination[]>>;
+  patternLiveLoad: boolean;
+  setPatternLiveLoad: React.Dispatch<React.SetStateAction<boolean>>;
+}
+
+const groups: { type: LoadCombination['type']; title: string }[] = [
+  { type: 'strength', title: 'Strength (LRFD) - ASCE 7-16 2.3.1' },
+  { type: 'service', title: 'Service - ASCE 7-16 2.4.1' },
+];
+
+const LoadCombinationsPanel: React.FC<LoadCombinationsPanelProps> = ({
+  combinations,
+  setCombinations,
+  patternLiveLoad,
+  setPatternLiveLoad,
+}) => {
+  const toggleCombination = (id: string) => {
+    setCombinations(prev => prev.map(c => (c.id === id ? { ...c, enabled: !c.enabled } : c)));
+  };
+
+  const updateFactor = (id: string, loadCase: LoadCase, value: number) => {
+    setCombinations(prev => prev.map(c => {
+      if (c.id !== id) return c;
+      const factors = { ...c.factors, [loadCase]: Math.max(0, value) || undefined };
+      return { ...c, factors, name: describeCombination(factors) };
+    }));
+  };
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 border border-gray-200 dark:border-gray-700 transition-colors" aria-labelledby="combinations-header">
+      <div className="flex justify-between items-center mb-4">
+        <h2 id="combinations-header" className="text-xl font-bold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+          <Layers className="w-6 h-6 text-blue-500" />
+          Load Combinations
+        </h2>
+        <button
+          onClick={() => setCombinations(DEFAULT_LOAD_COMBINATIONS)}
+          className="flex items-center gap-2 text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100 px-3 py-1 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors text-sm"
+          title="Restore the code combinations"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset to Code
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Strength combinations give the shear and moment envelopes; service combinations give the deflection envelope.
+      </p>
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 mb-4">
+        <input
+          type="checkbox"
+          checked={patternLiveLoad}
+          onChange={e => setPatternLiveLoad(e.target.checked)}
+        />
+        Pattern live load: envelope every loaded/unloaded arrangement of live load (L) on the spans
+      </label>
+      {groups.map(({ type, title }) => (
+        <div key={type} className="mb-4 overflow-x-auto">
+          <h3 className="text-sm font-semibold text-blue-800 dark:text-blue-200 mb-2">{title}</h3>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="py-1 pr-2">Use</th>
+                <th className="py-1 pr-2">Combination</th>
+                {LOAD_CASES.map(({ id, label }) => (
+                  <th key={id} className="py-1 px-1 text-center" title={label}>{id}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {combinations.filter(c => c.type === type).map(c => (
+                <tr key={c.id} className={c.enabled ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400 dark:text-gray-500'}>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={c.enabled}
+                      onChange={() => toggleCombination(c.id)}
+                      aria-label={`Use combination ${c.id}`}
+                    />
+                  </td>
+                  <td className="py-1 pr-2 whitespace-nowrap">
+                    <span className="font-medium">{c.id}</span>: {c.name}
+                  </td>
+                  {LOAD_CASES.map(({ id, label }) => (
+                    <td key={id} className="py-1 px-1">
+                      <input
+                        type="number"
+                        value={c.factors[id] ?? ''}
+                        onChange={e => updateFactor(c.id, id, Number(e.target.value))}
+                        min="0"
+                        step="0.1"
+                        disabled={!c.enabled}
+                        className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+                        aria-label={`${c.id} ${label} factor`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </section>
+  );
+};
+
+export default LoadCombinationsPanel;
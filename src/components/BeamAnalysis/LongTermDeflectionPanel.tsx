@@ -0,0 +1,206 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { Hourglass } from 'lucide-react';
+import { LongTermSettings } from './types';
+import { LOAD_CASES } from './loadCombinations';
+import { LongTermDeflection, LongTermDeflectionPoint, SERVICE_FACTORS } from './longTermDeflection';
+import { useTheme } from '../ThemeProvider';
+
+interface LongTermDeflectionPanelProps {
+  beamLength: number;
+  settings: LongTermSettings;
+  setSettings: React.Dispatch<React.SetStateAction<LongTermSettings>>;
+  compressionSteelRatio: number | null;  // ρ' of the reinforcement design, null before one is made
+  result: LongTermDeflection | null;
+  error: string | null;
+}
+
+// Durations of ACI 318-19 Table 24.2.4.1.3, months
+const DURATION_PRESETS = [
+  { months: 3, label: '3 months' },
+  { months: 6, label: '6 months' },
+  { months: 12, label: '12 months' },
+  { months: 60, label: '5 years or more' },
+];
+
+const SERIES: { key: keyof Omit<LongTermDeflectionPoint, 'position'>; name: string; color: string }[] = [
+  { key: 'immediate', name: 'Immediate', color: '#3b82f6' },
+  { key: 'longTerm', name: 'Long-term', color: '#ef4444' },
+  { key: 'incremental', name: 'After attachment', color: '#f59e0b' },
+];
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+const serviceCases = LOAD_CASES.filter(({ id }) => SERVICE_FACTORS[id]);
+
+const LongTermDeflectionPanel: React.FC<LongTermDeflectionPanelProps> = ({
+  beamLength,
+  settings,
+  setSettings,
+  compressionSteelRatio,
+  result,
+  error,
+}) => {
+  const { theme } = useTheme();
+
+  const axisColor = theme === 'dark' ? '#d1d5db' : '#666';
+  const tooltipStyle = {
+    backgroundColor: theme === 'dark' ? '#1f2937' : '#fff',
+    border: theme === 'dark' ? '1px solid #374151' : '1px solid #ddd',
+    borderRadius: '4px',
+    color: theme === 'dark' ? '#d1d5db' : 'inherit'
+  };
+  // Largest downward or upward value of each series, whichever is bigger
+  const peak = (key: keyof LongTermDeflectionPoint) => (result?.points ?? []).reduce(
+    (max, point) => (Math.abs(point[key]) > Math.abs(max.value) ? { value: point[key], position: point.position } : max),
+    { value: 0, position: 0 }
+  );
+
+  const setFraction = (loadCase: string, percent: number) => setSettings(prev => ({
+    ...prev,
+    sustainedFractions: { ...prev.sustainedFractions, [loadCase]: Math.max(0, Math.min(percent, 100)) / 100 },
+  }));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <Hourglass className="w-5 h-5 text-teal-500" />
+        Long-term Deflection
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Creep and shrinkage of reinforced concrete, ACI 318-19 Section 24.2.4: the immediate deflection under the
+        sustained loads is multiplied by λΔ = ξ / (1 + 50ρ&#39;). The service loads are the dead, live, roof live and
+        snow cases unfactored; turn on cracked-section stiffness for the effective inertia under each load level.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            {serviceCases.map(({ id, label }) => (
+              <label key={id} className="block text-sm text-gray-700 dark:text-gray-300">
+                Sustained {label} (%)
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="5"
+                  value={Math.round((settings.sustainedFractions[id] ?? 0) * 100)}
+                  onChange={(e) => setFraction(id, Number(e.target.value))}
+                  className={inputClass}
+                  aria-label={`Sustained part of ${label.toLowerCase()} load in percent`}
+                />
+              </label>
+            ))}
+          </div>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            Load duration
+            <select
+              value={DURATION_PRESETS.some(preset => preset.months === settings.duration) ? settings.duration : 'custom'}
+              onChange={(e) => {
+                if (e.target.value !== 'custom') setSettings(prev => ({ ...prev, duration: Number(e.target.value) }));
+              }}
+              className={inputClass}
+              aria-label="Load duration"
+            >
+              {DURATION_PRESETS.map(preset => (
+                <option key={preset.months} value={preset.months}>{preset.label}</option>
+              ))}
+              <option value="custom">Other</option>
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Duration (months)
+              <input
+                type="number"
+                min="0.1"
+                step="1"
+                value={settings.duration}
+                onChange={(e) => setSettings(prev => ({ ...prev, duration: Number(e.target.value) }))}
+                className={inputClass}
+                aria-label="Load duration in months"
+              />
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Attached at (months)
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={settings.attachmentAge}
+                onChange={(e) => setSettings(prev => ({ ...prev, attachmentAge: Number(e.target.value) }))}
+                className={inputClass}
+                aria-label="Age under load when non-structural elements are attached, in months"
+              />
+            </label>
+          </div>
+          {compressionSteelRatio === null && (
+            <p className="text-sm text-amber-600 dark:text-amber-400">
+              No reinforcement design yet, so ρ&#39; is taken as zero. Calculate it in the Reinforcement tab.
+            </p>
+          )}
+        </div>
+
+        <div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          {result && (
+            <table className="w-full text-sm text-gray-900 dark:text-gray-100">
+              <tbody>
+                <tr>
+                  <td className="py-1 pr-2">ξ / ρ&#39; / λΔ</td>
+                  <td className="py-1">
+                    {result.timeFactor.toFixed(2)} / {(compressionSteelRatio ?? 0).toFixed(4)} / {result.multiplier.toFixed(2)}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="py-1 pr-2">Immediate, sustained loads</td>
+                  <td className="py-1">{peak('sustained').value.toFixed(2)} mm at {peak('sustained').position.toFixed(2)} m</td>
+                </tr>
+                {SERIES.map(series => (
+                  <tr key={series.key}>
+                    <td className="py-1 pr-2">{series.name}</td>
+                    <td className="py-1">{peak(series.key).value.toFixed(2)} mm at {peak(series.key).position.toFixed(2)} m</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {result && (
+        <div className="h-80 mt-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={result.points} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+              <XAxis
+                dataKey="position"
+                type="number"
+                domain={[0, beamLength]}
+                label={{ value: 'Position (m)', position: 'bottom', offset: 0, style: { fontSize: '12px', fill: axisColor } }}
+                tick={{ fill: axisColor, fontSize: '12px' }}
+              />
+              <YAxis
+                reversed
+                tickFormatter={(value) => `${value.toFixed(1)}`}
+                label={{ value: 'Deflection (mm)', angle: -90, position: 'left', style: { fontSize: '12px', fill: axisColor } }}
+                tick={{ fill: axisColor }}
+              />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, name: string) => [`${value.toFixed(2)} mm`, name]}
+                labelFormatter={(label) => `Position: ${label} m`}
+              />
+              <Legend verticalAlign="top" height={36} />
+              <ReferenceLine y={0} stroke={axisColor} />
+              {SERIES.map(series => (
+                <Line key={series.key} type="linear" dataKey={series.key} stroke={series.color} strokeWidth={2} dot={false} name={series.name} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LongTermDeflectionPanel;
@@ -0,0 +1,186 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { AudioWaveform, Pause, Play } from 'lucide-react';
+import { VibrationMode } from './types';
+import { useTheme } from '../ThemeProvider';
+
+interface ModalAnalysisPanelProps {
+  beamLength: number;
+  modes: VibrationMode[];
+  error: string | null;
+  modeCount: number;
+  setModeCount: React.Dispatch<React.SetStateAction<number>>;
+  liveLoadMassFactor: number;
+  setLiveLoadMassFactor: React.Dispatch<React.SetStateAction<number>>;
+  animatedMode: number | null;  // number of the mode shown in the deformation view
+  setAnimatedMode: React.Dispatch<React.SetStateAction<number | null>>;
+}
+
+export const MAX_VIBRATION_MODES = 10;
+
+// Below this, walking can excite a floor's fundamental mode in resonance
+const WALKING_FREQUENCY_LIMIT = 3;  // Hz
+
+const LINE_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+const ModalAnalysisPanel: React.FC<ModalAnalysisPanelProps> = ({
+  beamLength,
+  modes,
+  error,
+  modeCount,
+  setModeCount,
+  liveLoadMassFactor,
+  setLiveLoadMassFactor,
+  animatedMode,
+  setAnimatedMode,
+}) => {
+  const { theme } = useTheme();
+
+  // Every mode shape shares the mesh node positions
+  const shapeData = useMemo(() => (modes[0]?.shape ?? []).map((point, j) => {
+    const row: Record<string, number> = { position: Number(point.position.toFixed(3)) };
+    modes.forEach(mode => { row[`mode${mode.number}`] = mode.shape[j].deflection; });
+    return row;
+  }), [modes]);
+
+  const axisColor = theme === 'dark' ? '#d1d5db' : '#666';
+  const tooltipStyle = {
+    backgroundColor: theme === 'dark' ? '#1f2937' : '#fff',
+    border: theme === 'dark' ? '1px solid #374151' : '1px solid #ddd',
+    borderRadius: '4px',
+    color: theme === 'dark' ? '#d1d5db' : 'inherit'
+  };
+  const fundamental = modes[0];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <AudioWaveform className="w-5 h-5 text-violet-500" />
+        Natural Frequencies and Mode Shapes
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Number of modes</label>
+            <input
+              type="number"
+              value={modeCount}
+              onChange={e => setModeCount(Math.min(MAX_VIBRATION_MODES, Math.max(1, Math.round(Number(e.target.value)))))}
+              min="1"
+              max={MAX_VIBRATION_MODES}
+              step="1"
+              className={inputClass}
+              aria-label="Number of vibration modes"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Live load carried as mass (fraction)</label>
+            <input
+              type="number"
+              value={liveLoadMassFactor}
+              onChange={e => setLiveLoadMassFactor(Math.min(1, Math.max(0, Number(e.target.value))))}
+              min="0"
+              max="1"
+              step="0.05"
+              className={inputClass}
+              aria-label="Fraction of the live load carried as mass"
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The vibrating mass is the beam&apos;s own, from the density, plus the weight of the dead loads and the
+            chosen fraction of the live loads. Vertical bending modes only; the soil stays in contact and axial forces are ignored.
+          </p>
+        </div>
+
+        <div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>}
+          {modes.length > 0 && (
+            <table className="w-full text-sm text-gray-900 dark:text-gray-100">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-2">Mode</th>
+                  <th className="py-1 pr-2">Frequency (Hz)</th>
+                  <th className="py-1 pr-2">Period (s)</th>
+                  <th className="py-1 pr-2">Effective Mass</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {modes.map(mode => (
+                  <tr key={mode.number}>
+                    <td className="py-1 pr-2">{mode.number}</td>
+                    <td className="py-1 pr-2">{mode.frequency.toFixed(2)}</td>
+                    <td className="py-1 pr-2">{mode.period.toFixed(4)}</td>
+                    <td className="py-1 pr-2">{(mode.effectiveMassRatio * 100).toFixed(1)}%</td>
+                    <td className="py-1">
+                      <button
+                        onClick={() => setAnimatedMode(animatedMode === mode.number ? null : mode.number)}
+                        className="text-violet-600 dark:text-violet-400 hover:text-violet-800"
+                        aria-label={animatedMode === mode.number ? `Stop animating mode ${mode.number}` : `Animate mode ${mode.number}`}
+                        title={animatedMode === mode.number ? 'Stop animation' : 'Animate in Beam Deformation'}
+                      >
+                        {animatedMode === mode.number ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {fundamental && fundamental.frequency < WALKING_FREQUENCY_LIMIT && (
+            <p className="mt-3 text-sm text-amber-600 dark:text-amber-400">
+              The fundamental frequency is below {WALKING_FREQUENCY_LIMIT} Hz, where walking can excite it in resonance.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {modes.length > 0 && (
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={shapeData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+              <XAxis
+                dataKey="position"
+                type="number"
+                domain={[0, beamLength]}
+                label={{ value: 'Position (m)', position: 'bottom', offset: 0, style: { fontSize: '12px', fill: axisColor } }}
+                tick={{ fill: axisColor, fontSize: '12px' }}
+              />
+              <YAxis
+                reversed
+                domain={[-1, 1]}
+                tickFormatter={(value) => `${value.toFixed(1)}`}
+                label={{ value: 'Normalised deflection', angle: -90, position: 'left', style: { fontSize: '12px', fill: axisColor } }}
+                tick={{ fill: axisColor }}
+              />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, name: string) => [value.toFixed(3), name]}
+                labelFormatter={(label) => `Position: ${label} m`}
+              />
+              <Legend verticalAlign="top" height={36} />
+              <ReferenceLine y={0} stroke={axisColor} />
+              {modes.map((mode, i) => (
+                <Line
+                  key={mode.number}
+                  type="linear"
+                  dataKey={`mode${mode.number}`}
+                  stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                  strokeWidth={animatedMode === mode.number ? 3 : 2}
+                  dot={false}
+                  name={`Mode ${mode.number} (${mode.frequency.toFixed(2)} Hz)`}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModalAnalysisPanel;
@@ -0,0 +1,336 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { Plus, Trash2, Truck } from 'lucide-react';
+import { BeamCalculator } from './calculations';
+import { Axle, analyzeMovingLoad, computeInfluenceLines } from './movingLoads';
+import { BeamAnalysisOptions, MaterialProperties, Support } from './types';
+import { useTheme } from '../ThemeProvider';
+
+interface MovingLoadPanelProps {
+  beamLength: number;
+  beamHeight: number;
+  beamWidth: number;
+  materialProps: MaterialProperties;
+  supports: Support[];
+  options: BeamAnalysisOptions;  // foundations, hinges
+}
+
+type InfluenceQuantity = 'reaction' | 'shear' | 'moment';
+
+// AASHTO HL-93 design truck with the minimum rear axle spacing
+const DEFAULT_AXLES: Axle[] = [
+  { load: 35, spacing: 0 },
+  { load: 145, spacing: 4.3 },
+  { load: 145, spacing: 4.3 },
+];
+
+const LINE_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+
+const influenceUnits: Record<InfluenceQuantity, string> = {
+  reaction: 'kN/kN',
+  shear: 'kN/kN',
+  moment: 'kN⋅m/kN',
+};
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+const MovingLoadPanel: React.FC<MovingLoadPanelProps> = ({
+  beamLength,
+  beamHeight,
+  beamWidth,
+  materialProps,
+  supports,
+  options,
+}) => {
+  const { theme } = useTheme();
+  const [axles, setAxles] = useState<Axle[]>(DEFAULT_AXLES);
+  const [sections, setSections] = useState<number[]>([beamLength / 2]);
+  const [quantity, setQuantity] = useState<InfluenceQuantity>('moment');
+
+  const analysis = useMemo(() => {
+    try {
+      // Influence lines are unit-load responses of a linear model: no support
+      // settlement or P-delta, and the soil stays in contact under any foundation
+      const calculator = new BeamCalculator(beamLength, beamHeight, beamWidth, materialProps, supports, [], {
+        ...options,
+        supportMovements: false,
+        secondOrder: false,
+        foundations: options.foundations?.map(foundation => ({ ...foundation, compressionOnly: false })),
+      });
+      const influence = computeInfluenceLines(
+        calculator,
+        beamLength,
+        sections.filter(x => x >= 0 && x <= beamLength)
+      );
+      return { influence, moving: analyzeMovingLoad(calculator, beamLength, axles), error: null };
+    } catch (error) {
+      return { influence: null, moving: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [beamLength, beamHeight, beamWidth, materialProps, supports, options, axles, sections]);
+
+  const influenceData = useMemo(() => {
+    const { influence } = analysis;
+    if (!influence) return [];
+    return influence.stations.map((position, j) => {
+      const row: Record<string, number> = { position: Number(position.toFixed(3)) };
+      influence.reactions.forEach((reaction, k) => { row[`reaction${k}`] = reaction.values[j]; });
+      influence.sections.forEach((section, k) => {
+        row[`shear${k}`] = section.shear[j];
+        row[`moment${k}`] = section.moment[j];
+      });
+      return row;
+    });
+  }, [analysis]);
+
+  const influenceLines = analysis.influence
+    ? quantity === 'reaction'
+      ? analysis.influence.reactions.map((reaction, k) => ({
+          key: `reaction${k}`,
+          name: `Reaction at ${reaction.position} m`,
+        }))
+      : analysis.influence.sections.map((section, k) => ({
+          key: `${quantity}${k}`,
+          name: `${quantity === 'shear' ? 'Shear' : 'Moment'} at ${section.position} m`,
+        }))
+    : [];
+
+  const updateAxle = (index: number, field: keyof Axle, value: number) => {
+    setAxles(prev => prev.map((axle, i) => (i === index ? { ...axle, [field]: value } : axle)));
+  };
+
+  const updateSection = (index: number, value: number) => {
+    setSections(prev => prev.map((x, i) => (i === index ? Math.min(Math.max(0, value), beamLength) : x)));
+  };
+
+  const axisColor = theme === 'dark' ? '#d1d5db' : '#666';
+  const tooltipStyle = {
+    backgroundColor: theme === 'dark' ? '#1f2937' : '#fff',
+    border: theme === 'dark' ? '1px solid #374151' : '1px solid #ddd',
+    borderRadius: '4px',
+    color: theme === 'dark' ? '#d1d5db' : 'inherit'
+  };
+  const positionAxis = (
+    <XAxis
+      dataKey="position"
+      type="number"
+      domain={[0, beamLength]}
+      label={{ value: 'Position (m)', position: 'bottom', offset: 0, style: { fontSize: '12px', fill: axisColor } }}
+      tick={{ fill: axisColor, fontSize: '12px' }}
+    />
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <Truck className="w-5 h-5 text-blue-500" />
+        Moving Loads and Influence Lines
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-sm font-semibold text-blue-800 dark:text-blue-200">Axles (first axle leads)</h4>
+            <button
+              onClick={() => setAxles(prev => [...prev, { load: 100, spacing: 1.2 }])}
+              className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <Plus className="w-4 h-4" /> Add Axle
+            </button>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="py-1 pr-2">Axle</th>
+                <th className="py-1 pr-2">Load (kN)</th>
+                <th className="py-1 pr-2">Spacing (m)</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {axles.map((axle, i) => (
+                <tr key={i} className="text-gray-900 dark:text-gray-100">
+                  <td className="py-1 pr-2">{i + 1}</td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      value={axle.load}
+                      onChange={e => updateAxle(i, 'load', Number(e.target.value))}
+                      step="5"
+                      className={inputClass}
+                      aria-label={`Axle ${i + 1} load`}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      value={i === 0 ? '' : axle.spacing}
+                      onChange={e => updateAxle(i, 'spacing', Number(e.target.value))}
+                      min="0.1"
+                      step="0.1"
+                      disabled={i === 0}
+                      placeholder="-"
+                      className={`${inputClass} disabled:opacity-50`}
+                      aria-label={`Spacing of axle ${i + 1} from axle ${i}`}
+                    />
+                  </td>
+                  <td className="py-1">
+                    <button
+                      onClick={() => setAxles(prev => prev.filter((_, j) => j !== i))}
+                      disabled={axles.length === 1}
+                      className="text-red-500 hover:text-red-700 disabled:opacity-30"
+                      aria-label={`Remove axle ${i + 1}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-sm font-semibold text-blue-800 dark:text-blue-200">Influence line sections</h4>
+            <button
+              onClick={() => setSections(prev => [...prev, beamLength / 4])}
+              className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <Plus className="w-4 h-4" /> Add Section
+            </button>
+          </div>
+          {sections.map((x, i) => (
+            <div key={i} className="flex items-center gap-2 mb-2">
+              <label className="text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">x (m)</label>
+              <input
+                type="number"
+                value={x}
+                onChange={e => updateSection(i, Number(e.target.value))}
+                min="0"
+                max={beamLength}
+                step="0.1"
+                className={inputClass}
+                aria-label={`Section ${i + 1} position`}
+              />
+              <button
+                onClick={() => setSections(prev => prev.filter((_, j) => j !== i))}
+                className="text-red-500 hover:text-red-700"
+                aria-label={`Remove section ${i + 1}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {analysis.moving && (
+            <div className="mt-4 text-sm text-gray-700 dark:text-gray-300 space-y-1">
+              <p>
+                Absolute max moment: <span className="font-semibold">{analysis.moving.maxMoment.value.toFixed(2)} kN⋅m</span>{' '}
+                at {analysis.moving.maxMoment.section} m (lead axle at {analysis.moving.maxMoment.leadAxle.toFixed(2)} m
+                {analysis.moving.maxMoment.reversed ? ', train reversed' : ''})
+              </p>
+              <p>
+                Absolute max shear: <span className="font-semibold">{analysis.moving.maxShear.value.toFixed(2)} kN</span>{' '}
+                at {analysis.moving.maxShear.section} m (lead axle at {analysis.moving.maxShear.leadAxle.toFixed(2)} m
+                {analysis.moving.maxShear.reversed ? ', train reversed' : ''})
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {analysis.error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{analysis.error}</p>
+      )}
+
+      {analysis.influence && (
+        <div className="mb-6">
+          <div className="flex items-center gap-3 mb-2">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Influence Lines</h4>
+            <select
+              value={quantity}
+              onChange={e => setQuantity(e.target.value as InfluenceQuantity)}
+              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              aria-label="Influence line quantity"
+            >
+              <option value="reaction">Reactions</option>
+              <option value="shear">Shear</option>
+              <option value="moment">Moment</option>
+            </select>
+          </div>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={influenceData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+                {positionAxis}
+                <YAxis
+                  tickFormatter={(value) => `${value.toFixed(2)}`}
+                  label={{ value: influenceUnits[quantity], angle: -90, position: 'left', style: { fontSize: '12px', fill: axisColor } }}
+                  tick={{ fill: axisColor }}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number, name: string) => [`${value.toFixed(3)} ${influenceUnits[quantity]}`, name]}
+                  labelFormatter={(label) => `Unit load at ${label} m`}
+                />
+                <Legend verticalAlign="top" height={36} />
+                <ReferenceLine y={0} stroke={axisColor} />
+                {influenceLines.map(({ key, name }, i) => (
+                  <Line
+                    key={key}
+                    type="linear"
+                    dataKey={key}
+                    stroke={LINE_COLORS[i % LINE_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                    name={name}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {analysis.moving && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            Moving Load Envelope (unfactored, moving load only)
+          </h4>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={analysis.moving.envelope} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+                {positionAxis}
+                <YAxis
+                  yAxisId="moment"
+                  tickFormatter={(value) => `${value.toFixed(0)}`}
+                  label={{ value: 'Moment (kN⋅m)', angle: -90, position: 'left', style: { fontSize: '12px', fill: axisColor } }}
+                  tick={{ fill: axisColor }}
+                />
+                <YAxis
+                  yAxisId="shear"
+                  orientation="right"
+                  tickFormatter={(value) => `${value.toFixed(0)}`}
+                  label={{ value: 'Shear (kN)', angle: 90, position: 'right', style: { fontSize: '12px', fill: axisColor } }}
+                  tick={{ fill: axisColor }}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number, name: string) => [`${value.toFixed(2)} ${name.startsWith('Moment') ? 'kN⋅m' : 'kN'}`, name]}
+                  labelFormatter={(label) => `Position: ${label} m`}
+                />
+                <Legend verticalAlign="top" height={36} />
+                <Line yAxisId="moment" type="linear" dataKey="momentMax" stroke="#ef4444" strokeWidth={2} dot={false} name="Moment Max" />
+                <Line yAxisId="moment" type="linear" dataKey="momentMin" stroke="#b91c1c" strokeDasharray="4 3" dot={false} name="Moment Min" />
+                <Line yAxisId="shear" type="linear" dataKey="shearMax" stroke="#3b82f6" strokeWidth={2} dot={false} name="Shear Max" />
+                <Line yAxisId="shear" type="linear" dataKey="shearMin" stroke="#1d4ed8" strokeDasharray="4 3" dot={false} name="Shear Min" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MovingLoadPanel;
@@ -0,0 +1,195 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend, ReferenceLine, ReferenceDot } from 'recharts';
+import { Anchor } from 'lucide-react';
+import { LoadCombination, PlasticAnalysisSettings } from './types';
+import { ENTERED_LOADS, PlasticCollapse } from './plasticAnalysis';
+import { useTheme } from '../ThemeProvider';
+
+interface PlasticCollapsePanelProps {
+  beamLength: number;
+  settings: PlasticAnalysisSettings;
+  setSettings: React.Dispatch<React.SetStateAction<PlasticAnalysisSettings>>;
+  yieldStrength: number;  // MPa
+  onYieldStrengthChange: (yieldStrength: number) => void;
+  combinations: LoadCombination[];
+  result: PlasticCollapse | null;
+  error: string | null;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+const PlasticCollapsePanel: React.FC<PlasticCollapsePanelProps> = ({
+  beamLength,
+  settings,
+  setSettings,
+  yieldStrength,
+  onYieldStrengthChange,
+  combinations,
+  result,
+  error,
+}) => {
+  const { theme } = useTheme();
+  const strengthCombinations = combinations.filter(combination => combination.type === 'strength' && combination.enabled);
+
+  const axisColor = theme === 'dark' ? '#d1d5db' : '#666';
+  const tooltipStyle = {
+    backgroundColor: theme === 'dark' ? '#1f2937' : '#fff',
+    border: theme === 'dark' ? '1px solid #374151' : '1px solid #ddd',
+    borderRadius: '4px',
+    color: theme === 'dark' ? '#d1d5db' : 'inherit'
+  };
+  const chartData = (result?.points ?? []).map(point => ({
+    ...point,
+    negativePlasticMoment: -point.plasticMoment,
+  }));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <Anchor className="w-5 h-5 text-slate-500" />
+        Plastic Collapse Analysis
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        For steel beams: the loads are raised step by step, a plastic hinge forms wherever the moment reaches
+        Mp = Zx·fy, and the beam collapses once the hinges make it a mechanism. The collapse load factor λc compares
+        with the first yield factor, where the elastic design would stop, to show the reserve of moment redistribution
+        and section shape. Thermal loads and support settlements do not change the collapse load and are left out.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => setSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+              className="rounded border-gray-300 text-slate-600 focus:ring-slate-500"
+              aria-label="Run plastic collapse analysis"
+            />
+            Run plastic collapse analysis
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            Yield strength fy (MPa)
+            <input
+              type="number"
+              min="1"
+              step="5"
+              value={yieldStrength}
+              onChange={(e) => onYieldStrengthChange(Number(e.target.value))}
+              className={inputClass}
+              aria-label="Steel yield strength in MPa"
+            />
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            Loads raised to collapse
+            <select
+              value={strengthCombinations.some(combination => combination.id === settings.loads) ? settings.loads : ENTERED_LOADS}
+              onChange={(e) => setSettings(prev => ({ ...prev, loads: e.target.value }))}
+              className={inputClass}
+              aria-label="Loads raised to collapse"
+            >
+              <option value={ENTERED_LOADS}>Loads as entered</option>
+              {strengthCombinations.map(combination => (
+                <option key={combination.id} value={combination.id}>{combination.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div>
+          {settings.enabled && error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          {settings.enabled && result && (
+            <table className="w-full text-sm text-gray-900 dark:text-gray-100">
+              <tbody>
+                <tr>
+                  <td className="py-1 pr-2">My / Mp</td>
+                  <td className="py-1">{result.yieldMoment.toFixed(2)} / {result.plasticMoment.toFixed(2)} kN⋅m</td>
+                </tr>
+                <tr>
+                  <td className="py-1 pr-2">Shape factor Mp / My</td>
+                  <td className="py-1">{(result.plasticMoment / result.yieldMoment).toFixed(2)}</td>
+                </tr>
+                <tr>
+                  <td className="py-1 pr-2">First yield factor λy</td>
+                  <td className="py-1">{result.firstYieldFactor.toFixed(3)}</td>
+                </tr>
+                <tr>
+                  <td className="py-1 pr-2">First hinge factor λ1</td>
+                  <td className="py-1">{result.hinges[0]?.loadFactor.toFixed(3)}</td>
+                </tr>
+                <tr className="font-semibold">
+                  <td className="py-1 pr-2">Collapse load factor λc</td>
+                  <td className="py-1">{result.collapseFactor.toFixed(3)}</td>
+                </tr>
+                <tr>
+                  <td className="py-1 pr-2">Reserve λc / λy</td>
+                  <td className="py-1">{(result.collapseFactor / result.firstYieldFactor).toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {settings.enabled && result && (
+        <>
+          <div className="overflow-x-auto mt-4">
+            <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+              <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="py-2 pr-2">Hinge</th>
+                  <th className="py-2 pr-2">Position (m)</th>
+                  <th className="py-2 pr-2">Forms at λ</th>
+                  <th className="py-2">Moment (kN⋅m)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.hinges.map((hinge, i) => (
+                  <tr key={hinge.position} className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="py-2 pr-2">{i + 1}</td>
+                    <td className="py-2 pr-2">{hinge.position.toFixed(3)}</td>
+                    <td className="py-2 pr-2">{hinge.loadFactor.toFixed(3)}</td>
+                    <td className="py-2">{hinge.moment.toFixed(2)} ({hinge.moment < 0 ? 'hogging' : 'sagging'})</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="h-80 mt-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+                <XAxis
+                  dataKey="position"
+                  type="number"
+                  domain={[0, beamLength]}
+                  label={{ value: 'Position (m)', position: 'bottom', offset: 0, style: { fontSize: '12px', fill: axisColor } }}
+                  tick={{ fill: axisColor, fontSize: '12px' }}
+                />
+                <YAxis
+                  label={{ value: 'Moment at collapse (kN⋅m)', angle: -90, position: 'left', style: { fontSize: '12px', fill: axisColor } }}
+                  tick={{ fill: axisColor }}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number, name: string) => [`${value.toFixed(2)} kN⋅m`, name]}
+                  labelFormatter={(label) => `Position: ${label} m`}
+                />
+                <Legend verticalAlign="top" height={36} />
+                <ReferenceLine y={0} stroke={axisColor} />
+                <Line type="linear" dataKey="plasticMoment" stroke="#9ca3af" strokeDasharray="6 3" dot={false} name="+Mp" />
+                <Line type="linear" dataKey="negativePlasticMoment" stroke="#9ca3af" strokeDasharray="6 3" dot={false} name="−Mp" />
+                <Line type="linear" dataKey="moment" stroke="#475569" strokeWidth={2} dot={false} name={`Moment at λc = ${result.collapseFactor.toFixed(3)}`} />
+                {result.hinges.map(hinge => (
+                  <ReferenceDot key={hinge.position} x={hinge.position} y={hinge.moment} r={5} fill="#ef4444" stroke="#fff" />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlasticCollapsePanel;
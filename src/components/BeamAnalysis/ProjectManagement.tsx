@@ -1,7 +1,13 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { Save, FolderOpen, FileText, Moon, Sun } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import { BeamProject, MaterialProperties, Load, DiagramPoint, Reactions } from './types';
+import { BeamProject, MaterialProperties, Load, DiagramPoint, Reactions, Support, LoadCombination, ElasticFoundation, Hinge, BeamSegment, LateralBrace, ProvidedReinforcement, LongTermSettings, DeflectionLimit, MomentRedistribution, PlasticAnalysisSettings } from './types';
+import { DEFAULT_LOAD_COMBINATIONS } from './loadCombinations';
+import { DEFAULT_LONG_TERM_SETTINGS } from './longTermDeflection';
+import { DEFAULT_DEFLECTION_LIMITS } from './serviceability';
+import { DEFAULT_REDISTRIBUTION } from './redistribution';
+import { DEFAULT_PLASTIC_ANALYSIS } from './plasticAnalysis';
+import { BeamCalculator } from './calculations';
 
 interface ProjectManagementProps {
   beamLength: number;
@@ -9,10 +15,23 @@ interface ProjectManagementProps {
   beamWidth: number;
   materialProps: MaterialProperties;
   loads: Load[];
-  startSupportPosition: number;
-  endSupportPosition: number;
-  startSupport: 'pin' | 'roller' | 'fixed' | 'free';
-  endSupport: 'pin' | 'roller' | 'fixed' | 'free';
+  supports: Support[];
+  foundations: ElasticFoundation[];
+  hinges: Hinge[];
+  segments: BeamSegment[];
+  lateralBraces: LateralBrace[];
+  shearDeformation: boolean;
+  shearAreaFactor: number;
+  secondOrder: boolean;
+  selfWeight: boolean;
+  crackedSection: boolean;
+  reinforcement: ProvidedReinforcement | null;
+  longTermSettings: LongTermSettings;
+  deflectionLimits: DeflectionLimit[];
+  redistribution: MomentRedistribution;
+  plasticAnalysis: PlasticAnalysisSettings;
+  loadCombinations: LoadCombination[];
+  patternLiveLoad: boolean;
   reactions: Reactions;
   diagramData: DiagramPoint[];
   showStressInfo: boolean;
@@ -22,10 +41,23 @@ interface ProjectManagementProps {
   setBeamWidth: React.Dispatch<React.SetStateAction<number>>;
   setMaterialProps: React.Dispatch<React.SetStateAction<MaterialProperties>>;
   setLoads: React.Dispatch<React.SetStateAction<Load[]>>;
-  setStartSupportPosition: React.Dispatch<React.SetStateAction<number>>;
-  setEndSupportPosition: React.Dispatch<React.SetStateAction<number>>;
-  setStartSupport: React.Dispatch<React.SetStateAction<'pin' | 'roller' | 'fixed' | 'free'>>;
-  setEndSupport: React.Dispatch<React.SetStateAction<'pin' | 'roller' | 'fixed' | 'free'>>;
+  setSupports: React.Dispatch<React.SetStateAction<Support[]>>;
+  setFoundations: React.Dispatch<React.SetStateAction<ElasticFoundation[]>>;
+  setHinges: React.Dispatch<React.SetStateAction<Hinge[]>>;
+  setSegments: React.Dispatch<React.SetStateAction<BeamSegment[]>>;
+  setLateralBraces: React.Dispatch<React.SetStateAction<LateralBrace[]>>;
+  setShearDeformation: React.Dispatch<React.SetStateAction<boolean>>;
+  setShearAreaFactor: React.Dispatch<React.SetStateAction<number>>;
+  setSecondOrder: React.Dispatch<React.SetStateAction<boolean>>;
+  setSelfWeight: React.Dispatch<React.SetStateAction<boolean>>;
+  setCrackedSection: React.Dispatch<React.SetStateAction<boolean>>;
+  setReinforcement: React.Dispatch<React.SetStateAction<ProvidedReinforcement | null>>;
+  setLongTermSettings: React.Dispatch<React.SetStateAction<LongTermSettings>>;
+  setDeflectionLimits: React.Dispatch<React.SetStateAction<DeflectionLimit[]>>;
+  setRedistribution: React.Dispatch<React.SetStateAction<MomentRedistribution>>;
+  setPlasticAnalysis: React.Dispatch<React.SetStateAction<PlasticAnalysisSettings>>;
+  setLoadCombinations: React.Dispatch<React.SetStateAction<LoadCombination[]>>;
+  setPatternLiveLoad: React.Dispatch<React.SetStateAction<boolean>>;
   setReactions: React.Dispatch<React.SetStateAction<Reactions>>;
   setDiagramData: React.Dispatch<React.SetStateAction<DiagramPoint[]>>;
   setShowStressInfo: React.Dispatch<React.SetStateAction<boolean>>;
@@ -38,10 +70,23 @@ const ProjectManagement: React.FC<ProjectManagementProps> = ({
   beamWidth,
   materialProps,
   loads,
-  startSupportPosition,
-  endSupportPosition,
-  startSupport,
-  endSupport,
+  supports,
+  foundations,
+  hinges,
+  segments,
+  lateralBraces,
+  shearDeformation,
+  shearAreaFactor,
+  secondOrder,
+  selfWeight,
+  crackedSection,
+  reinforcement,
+  longTermSettings,
+  deflectionLimits,
+  redistribution,
+  plasticAnalysis,
+  loadCombinations,
+  patternLiveLoad,
   reactions,
   diagramData,
   showStressInfo,
@@ -51,10 +96,23 @@ const ProjectManagement: React.FC<ProjectManagementProps> = ({
   setBeamWidth,
   setMaterialProps,
   setLoads,
-  setStartSupportPosition,
-  setEndSupportPosition,
-  setStartSupport,
-  setEndSupport,
+  setSupports,
+  setFoundations,
+  setHinges,
+  setSegments,
+  setLateralBraces,
+  setShearDeformation,
+  setShearAreaFactor,
+  setSecondOrder,
+  setSelfWeight,
+  setCrackedSection,
+  setReinforcement,
+  setLongTermSettings,
+  setDeflectionLimits,
+  setRedistribution,
+  setPlasticAnalysis,
+  setLoadCombinations,
+  setPatternLiveLoad,
   setReactions,
   setDiagramData,
   setShowStressInfo,
@@ -85,10 +143,23 @@ const ProjectManagement: React.FC<ProjectManagementProps> = ({
       beamWidth,
       materialProps,
       loads,
-      startSupport,
-      endSupport,
-      startSupportPosition,
-      endSupportPosition,
+      supports,
+      foundations,
+      hinges,
+      segments,
+      lateralBraces,
+      shearDeformation,
+      shearAreaFactor,
+      secondOrder,
+      selfWeight,
+      crackedSection,
+      reinforcement,
+      longTermSettings,
+      deflectionLimits,
+      redistribution,
+      plasticAnalysis,
+      loadCombinations,
+      patternLiveLoad,
       diagramData,
       reactions,
       showStressInfo,
@@ -103,7 +174,7 @@ const ProjectManagement: React.FC<ProjectManagementProps> = ({
     setCurrentProject(newProject);
     setIsProjectModalOpen(false);
     setProjectName('');
-  }, [projectName, beamLength, beamHeight, beamWidth, materialProps, loads, startSupport, endSupport, startSupportPosition, endSupportPosition, diagramData, reactions, showStressInfo, showLoadHelp]);
+  }, [projectName, beamLength, beamHeight, beamWidth, materialProps, loads, supports, foundations, hinges, segments, lateralBraces, shearDeformation, shearAreaFactor, secondOrder, selfWeight, crackedSection, reinforcement, longTermSettings, deflectionLimits, redistribution, plasticAnalysis, loadCombinations, patternLiveLoad, diagramData, reactions, showStressInfo, showLoadHelp]);
 
   // Handle loading a project
   const handleLoadProject = useCallback((project: BeamProject) => {
@@ -113,16 +184,29 @@ const ProjectManagement: React.FC<ProjectManagementProps> = ({
     setBeamWidth(project.beamWidth);
     setMaterialProps(project.materialProps);
     setLoads(project.loads);
-    setStartSupport(project.startSupport);
-    setEndSupport(project.endSupport);
-    setStartSupportPosition(project.startSupportPosition);
-    setEndSupportPosition(project.endSupportPosition);
+    setSupports(project.supports);
+    setFoundations(project.foundations ?? []);
+    setHinges(project.hinges ?? []);
+    setSegments(project.segments ?? []);
+    setLateralBraces(project.lateralBraces ?? []);
+    setShearDeformation(project.shearDeformation ?? false);
+    setShearAreaFactor(project.shearAreaFactor ?? BeamCalculator.RECTANGULAR_SHEAR_AREA_FACTOR);
+    setSecondOrder(project.secondOrder ?? false);
+    setSelfWeight(project.selfWeight ?? false);
+    setCrackedSection(project.crackedSection ?? false);
+    setReinforcement(project.reinforcement ?? null);
+    setLongTermSettings(project.longTermSettings ?? DEFAULT_LONG_TERM_SETTINGS);
+    setDeflectionLimits(project.deflectionLimits ?? DEFAULT_DEFLECTION_LIMITS);
+    setRedistribution(project.redistribution ?? DEFAULT_REDISTRIBUTION);
+    setPlasticAnalysis(project.plasticAnalysis ?? DEFAULT_PLASTIC_ANALYSIS);
+    setLoadCombinations(project.loadCombinations ?? DEFAULT_LOAD_COMBINATIONS);
+    setPatternLiveLoad(project.patternLiveLoad ?? true);
     setDiagramData(project.diagramData);
     setReactions(project.reactions);
     setShowStressInfo(project.showStressInfo);
     setShowLoadHelp(project.showLoadHelp);
     setIsProjectModalOpen(false);
-  }, [setBeamLength, setBeamHeight, setBeamWidth, setMaterialProps, setLoads, setStartSupport, setEndSupport, setStartSupportPosition, setEndSupportPosition, setDiagramData, setReactions, setShowStressInfo, setShowLoadHelp]);
+  }, [setBeamLength, setBeamHeight, setBeamWidth, setMaterialProps, setLoads, setSupports, setFoundations, setHinges, setSegments, setLateralBraces, setShearDeformation, setShearAreaFactor, setSecondOrder, setSelfWeight, setCrackedSection, setReinforcement, setLongTermSettings, setDeflectionLimits, setRedistribution, setPlasticAnalysis, setLoadCombinations, setPatternLiveLoad, setDiagramData, setReactions, setShowStressInfo, setShowLoadHelp]);
 
   // Handle deleting a project
   const handleDeleteProject = useCallback((projectId: string) => {
@@ -145,10 +229,23 @@ const ProjectManagement: React.FC<ProjectManagementProps> = ({
           beamWidth,
           materialProps,
           loads,
-          startSupport,
-          endSupport,
-          startSupportPosition,
-          endSupportPosition,
+          supports,
+          foundations,
+          hinges,
+          segments,
+          lateralBraces,
+          shearDeformation,
+          shearAreaFactor,
+          secondOrder,
+          selfWeight,
+          crackedSection,
+          reinforcement,
+          longTermSettings,
+          deflectionLimits,
+          redistribution,
+          plasticAnalysis,
+          loadCombinations,
+          patternLiveLoad,
           diagramData,
           reactions,
           showStressInfo,
@@ -161,10 +258,23 @@ const ProjectManagement: React.FC<ProjectManagementProps> = ({
               beamWidth,
               materialProps,
               loads,
-              startSupport,
-              endSupport,
-              startSupportPosition,
-              endSupportPosition,
+              supports,
+              foundations,
+              hinges,
+              segments,
+              lateralBraces,
+              shearDeformation,
+              shearAreaFactor,
+              secondOrder,
+              selfWeight,
+              crackedSection,
+              reinforcement,
+              longTermSettings,
+              deflectionLimits,
+              redistribution,
+              plasticAnalysis,
+              loadCombinations,
+              patternLiveLoad,
               diagramData,
               reactions,
               showStressInfo,
@@ -184,7 +294,7 @@ const ProjectManagement: React.FC<ProjectManagementProps> = ({
     }, 300000); // Auto-save every 5 minutes
 
     return () => clearInterval(autoSaveTimer);
-  }, [currentProject, beamLength, beamHeight, beamWidth, materialProps, loads, startSupport, endSupport, startSupportPosition, endSupportPosition, diagramData, reactions, showStressInfo, showLoadHelp]);
+  }, [currentProject, beamLength, beamHeight, beamWidth, materialProps, loads, supports, foundations, hinges, segments, lateralBraces, shearDeformation, shearAreaFactor, secondOrder, selfWeight, crackedSection, reinforcement, longTermSettings, deflectionLimits, redistribution, plasticAnalysis, loadCombinations, patternLiveLoad, diagramData, reactions, showStressInfo, showLoadHelp]);
 
   // Export project
   const handleExportProject = useCallback(() => {
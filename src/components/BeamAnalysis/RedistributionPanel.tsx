@@ -0,0 +1,153 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { Shuffle } from 'lucide-react';
+import { EnvelopePoint, MomentRedistribution } from './types';
+import { MAX_REDISTRIBUTION, MIN_REDISTRIBUTION_STRAIN } from './redistribution';
+import { useTheme } from '../ThemeProvider';
+
+interface RedistributionPanelProps {
+  beamLength: number;
+  settings: MomentRedistribution;
+  setSettings: React.Dispatch<React.SetStateAction<MomentRedistribution>>;
+  netTensileStrain: number | null;  // εt over the supports, null before the reinforcement is designed
+  permissible: number;              // %
+  supportPositions: number[];       // m, supports whose moment may be reduced
+  elasticEnvelope: EnvelopePoint[];
+  envelope: EnvelopePoint[];        // as redistributed, or the elastic one when off
+}
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+const RedistributionPanel: React.FC<RedistributionPanelProps> = ({
+  beamLength,
+  settings,
+  setSettings,
+  netTensileStrain,
+  permissible,
+  supportPositions,
+  elasticEnvelope,
+  envelope,
+}) => {
+  const { theme } = useTheme();
+  const applied = settings.enabled ? Math.min(settings.percent, permissible) : 0;
+
+  const chartData = useMemo(() => {
+    if (elasticEnvelope.length !== envelope.length || !elasticEnvelope.some(point => point.moment)) return [];
+    return elasticEnvelope.map((point, i) => ({
+      position: point.position,
+      elasticMax: point.moment?.max,
+      elasticMin: point.moment?.min,
+      redistributedMax: envelope[i].moment?.max,
+      redistributedMin: envelope[i].moment?.min,
+    }));
+  }, [elasticEnvelope, envelope]);
+
+  const axisColor = theme === 'dark' ? '#d1d5db' : '#666';
+  const tooltipStyle = {
+    backgroundColor: theme === 'dark' ? '#1f2937' : '#fff',
+    border: theme === 'dark' ? '1px solid #374151' : '1px solid #ddd',
+    borderRadius: '4px',
+    color: theme === 'dark' ? '#d1d5db' : 'inherit'
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <Shuffle className="w-5 h-5 text-orange-500" />
+        Moment Redistribution
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        ACI 318-19 Section 6.6.5 lets the negative moments at the supports of continuous reinforced concrete beams be
+        reduced by up to 1000εt percent, at most {MAX_REDISTRIBUTION}%, where the net tensile strain εt of the section
+        there is at least {MIN_REDISTRIBUTION_STRAIN}. Only hogging (negative) support moments are reduced; a combination
+        or live load pattern that leaves a sagging moment at a support keeps it. The span moments change to keep
+        equilibrium in every combination, and the design moment and shear envelopes use the redistributed values.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => setSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+              className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+              aria-label="Redistribute hogging support moments"
+            />
+            Redistribute hogging support moments
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            Reduction of hogging moments (%)
+            <input
+              type="number"
+              min="0"
+              max={MAX_REDISTRIBUTION}
+              step="1"
+              value={settings.percent}
+              onChange={(e) => setSettings(prev => ({ ...prev, percent: Math.max(0, Math.min(Number(e.target.value), MAX_REDISTRIBUTION)) }))}
+              disabled={!settings.enabled}
+              className={inputClass}
+              aria-label="Reduction of the support moments in percent"
+            />
+          </label>
+        </div>
+        <div className="text-sm text-gray-900 dark:text-gray-100 space-y-1">
+          {netTensileStrain === null ? (
+            <p className="text-amber-600 dark:text-amber-400">Design the reinforcement in the Reinforcement tab first.</p>
+          ) : (
+            <>
+              <p>εt over the supports: {netTensileStrain.toFixed(4)}</p>
+              <p>Permissible reduction: {permissible.toFixed(1)}%</p>
+              {permissible === 0 && (
+                <p className="text-amber-600 dark:text-amber-400">
+                  εt is below {MIN_REDISTRIBUTION_STRAIN}, so the moments cannot be redistributed.
+                </p>
+              )}
+            </>
+          )}
+          {supportPositions.length === 0 ? (
+            <p className="text-amber-600 dark:text-amber-400">
+              No support has a redistributable moment: it needs spans on both sides, or a fixed beam end.
+            </p>
+          ) : (
+            <p>Hogging moments reduced at: {supportPositions.map(x => `${x.toFixed(2)} m`).join(', ')}</p>
+          )}
+          {settings.enabled && <p className="font-semibold">Applied reduction: {applied.toFixed(1)}%</p>}
+        </div>
+      </div>
+
+      {settings.enabled && applied > 0 && chartData.length > 0 && (
+        <div className="h-80 mt-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+              <XAxis
+                dataKey="position"
+                type="number"
+                domain={[0, beamLength]}
+                label={{ value: 'Position (m)', position: 'bottom', offset: 0, style: { fontSize: '12px', fill: axisColor } }}
+                tick={{ fill: axisColor, fontSize: '12px' }}
+              />
+              <YAxis
+                label={{ value: 'Moment (kN⋅m)', angle: -90, position: 'left', style: { fontSize: '12px', fill: axisColor } }}
+                tick={{ fill: axisColor }}
+              />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value: number, name: string) => [`${value.toFixed(2)} kN⋅m`, name]}
+                labelFormatter={(label) => `Position: ${label} m`}
+              />
+              <Legend verticalAlign="top" height={36} />
+              <ReferenceLine y={0} stroke={axisColor} />
+              <Line type="monotone" dataKey="elasticMax" stroke="#9ca3af" strokeDasharray="6 3" dot={false} name="Elastic Max" />
+              <Line type="monotone" dataKey="elasticMin" stroke="#9ca3af" strokeDasharray="2 3" dot={false} name="Elastic Min" />
+              <Line type="monotone" dataKey="redistributedMax" stroke="#ea580c" strokeWidth={2} dot={false} name="Redistributed Max" />
+              <Line type="monotone" dataKey="redistributedMin" stroke="#c2410c" strokeWidth={2} dot={false} name="Redistributed Min" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedistributionPanel;
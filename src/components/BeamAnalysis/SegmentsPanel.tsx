@@ -0,0 +1,177 @@
+import React from 'react';
+import { Plus, Ruler, Trash2 } from 'lucide-react';
+import { BeamSegment } from './types';
+
+interface SegmentsPanelProps {
+  segments: BeamSegment[];
+  setSegments: React.Dispatch<React.SetStateAction<BeamSegment[]>>;
+  beamLength: number;  // m
+  beamHeight: number;  // mm
+  beamWidth: number;   // mm
+}
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100';
+
+// Elevation sketch, with the depth exaggerated to stay readable on long beams
+const PROFILE_WIDTH = 400;
+const PROFILE_HEIGHT = 80;
+
+const SegmentsPanel: React.FC<SegmentsPanelProps> = ({
+  segments,
+  setSegments,
+  beamLength,
+  beamHeight,
+  beamWidth,
+}) => {
+  const addSegment = () => {
+    // A haunch at the beam start, twice the beam depth tapering back to it
+    const end = Math.min(beamLength, Math.max(0.1, beamLength / 5));
+    setSegments(prev => [
+      ...prev,
+      {
+        id: Math.max(0, ...prev.map(s => s.id)) + 1,
+        start: 0,
+        end,
+        width: beamWidth,
+        startHeight: 2 * beamHeight,
+        endHeight: beamHeight,
+      },
+    ]);
+  };
+
+  const updateSegment = (id: number, field: keyof BeamSegment, value: number) => {
+    setSegments(prev => prev.map(segment => {
+      if (segment.id !== id) return segment;
+      const newValue = field === 'start' || field === 'end'
+        ? Math.max(0, Math.min(value, beamLength))
+        : Math.max(1, value);
+      return { ...segment, [field]: newValue };
+    }));
+  };
+
+  // Soffit of the beam along its length, hanging from a level top face
+  const depthAt = (x: number) => {
+    const segment = segments.filter(s => s.start <= x && x <= s.end).pop();
+    if (!segment || segment.end <= segment.start) return beamHeight;
+    return segment.startHeight + ((segment.endHeight - segment.startHeight) * (x - segment.start)) / (segment.end - segment.start);
+  };
+  const stations = [0, beamLength, ...segments.flatMap(s => [s.start, s.end])]
+    .filter(x => x >= 0 && x <= beamLength)
+    .sort((a, b) => a - b);
+  const maxDepth = Math.max(beamHeight, ...segments.flatMap(s => [s.startHeight, s.endHeight]));
+  const toX = (x: number) => (x / beamLength) * PROFILE_WIDTH;
+  const toY = (depth: number) => (depth / maxDepth) * (PROFILE_HEIGHT - 10);
+  // Either side of each station, so steps show as vertical edges
+  const soffit = stations.flatMap(x => [
+    `${toX(x)},${toY(depthAt(Math.max(0, x - 1e-9)))}`,
+    `${toX(x)},${toY(depthAt(x))}`,
+  ]);
+  const profile = [`0,0`, `${PROFILE_WIDTH},0`, ...soffit.reverse()].join(' ');
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 p-6 transition-colors" aria-labelledby="segments-header">
+      <h2 id="segments-header" className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <Ruler className="w-6 h-6 text-indigo-500" />
+        Non-prismatic Segments
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Give parts of the beam their own section: a step in width or depth, or a depth tapering linearly from
+        one end of the segment to the other, as at a haunch. Elsewhere the beam height and width apply.
+        Stiffness and stresses follow the local section; buckling checks use the beam height and width.
+      </p>
+      {segments.length > 0 && (
+        <svg viewBox={`0 0 ${PROFILE_WIDTH} ${PROFILE_HEIGHT}`} className="w-full h-20 mb-4" role="img" aria-label="Beam elevation">
+          <polygon points={profile} className="fill-indigo-100 stroke-indigo-500 dark:fill-indigo-900" strokeWidth="1" />
+        </svg>
+      )}
+      <div className="space-y-4">
+        {segments.map((segment, index) => (
+          <div key={segment.id} className="grid grid-cols-2 gap-4 items-end border-b border-gray-200 dark:border-gray-700 pb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">From (m)</label>
+              <input
+                type="number"
+                value={segment.start}
+                onChange={(e) => updateSegment(segment.id, 'start', Number(e.target.value))}
+                min="0"
+                max={beamLength}
+                step="0.1"
+                className={inputClass}
+                aria-label={`Segment ${index + 1} start`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">To (m)</label>
+              <input
+                type="number"
+                value={segment.end}
+                onChange={(e) => updateSegment(segment.id, 'end', Number(e.target.value))}
+                min="0"
+                max={beamLength}
+                step="0.1"
+                className={inputClass}
+                aria-label={`Segment ${index + 1} end`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Height at Start (mm)</label>
+              <input
+                type="number"
+                value={segment.startHeight}
+                onChange={(e) => updateSegment(segment.id, 'startHeight', Number(e.target.value))}
+                min="1"
+                step="10"
+                className={inputClass}
+                aria-label={`Segment ${index + 1} height at start`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Height at End (mm)</label>
+              <input
+                type="number"
+                value={segment.endHeight}
+                onChange={(e) => updateSegment(segment.id, 'endHeight', Number(e.target.value))}
+                min="1"
+                step="10"
+                className={inputClass}
+                aria-label={`Segment ${index + 1} height at end`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Width (mm)</label>
+              <input
+                type="number"
+                value={segment.width}
+                onChange={(e) => updateSegment(segment.id, 'width', Number(e.target.value))}
+                min="1"
+                step="10"
+                className={inputClass}
+                aria-label={`Segment ${index + 1} width`}
+              />
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={() => setSegments(prev => prev.filter(s => s.id !== segment.id))}
+                className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-gray-900 rounded-lg transition-colors"
+                title="Remove Segment"
+                aria-label={`Remove segment ${index + 1}`}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={addSegment}
+          className="w-full px-4 py-2 bg-indigo-500 text-white rounded-lg hover:bg-indigo-600 transition-colors flex items-center justify-center gap-2"
+          aria-label="Add segment"
+        >
+          <Plus className="w-5 h-5" />
+          Add Segment
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default SegmentsPanel;
@@ -0,0 +1,222 @@
+import React from 'react';
+import { CheckCircle2, Plus, Ruler, Trash2, XCircle } from 'lucide-react';
+import { DeflectionCheck, DeflectionLimit, LoadCombination } from './types';
+import { LOAD_CASES } from './loadCombinations';
+
+interface ServiceabilityPanelProps {
+  limits: DeflectionLimit[];
+  setLimits: React.Dispatch<React.SetStateAction<DeflectionLimit[]>>;
+  combinations: LoadCombination[];
+  checks: DeflectionCheck[];
+  error: string | null;
+}
+
+// Span ratios of IBC Table 1604.3 and ACI 318-19 Table 24.2.2
+const RATIO_PRESETS = [180, 240, 360, 480];
+
+const SOURCES: { id: DeflectionLimit['source']; label: string }[] = [
+  { id: 'case', label: 'Load case' },
+  { id: 'combination', label: 'Service combination' },
+  { id: 'envelope', label: 'Service envelope' },
+  { id: 'longTerm', label: 'Long-term' },
+  { id: 'incremental', label: 'After attachment' },
+];
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+/** Readable form of a limit, e.g. "L/360, Live". */
+function describeLimit(limit: DeflectionLimit, combinations: LoadCombination[]): string {
+  const criterion = limit.kind === 'ratio' ? `L/${limit.value}` : `${limit.value} mm`;
+  const source = limit.source === 'case'
+    ? LOAD_CASES.find(({ id }) => id === limit.target)?.label ?? limit.target
+    : limit.source === 'combination'
+      ? combinations.find(({ id }) => id === limit.target)?.name ?? limit.target
+      : SOURCES.find(({ id }) => id === limit.source)?.label;
+  return `${criterion}, ${source}`;
+}
+
+const ServiceabilityPanel: React.FC<ServiceabilityPanelProps> = ({
+  limits,
+  setLimits,
+  combinations,
+  checks,
+  error,
+}) => {
+  const serviceCombinations = combinations.filter(combination => combination.type === 'service');
+
+  const addLimit = () => {
+    setLimits(prev => [
+      ...prev,
+      { id: Math.max(0, ...prev.map(l => l.id)) + 1, source: 'case', target: 'L', kind: 'ratio', value: 360, doubleCantilevers: true },
+    ]);
+  };
+
+  const updateLimit = (id: number, changes: Partial<DeflectionLimit>) => {
+    setLimits(prev => prev.map(limit => (limit.id === id ? { ...limit, ...changes } : limit)));
+  };
+
+  const changeSource = (id: number, source: DeflectionLimit['source']) => {
+    const target = source === 'case' ? 'L' : source === 'combination' ? serviceCombinations[0]?.id : undefined;
+    updateLimit(id, { source, target });
+  };
+
+  // Preset ratios, any other ratio, or an absolute value
+  const criterionOf = (limit: DeflectionLimit) => (limit.kind === 'absolute'
+    ? 'absolute'
+    : RATIO_PRESETS.includes(limit.value) ? String(limit.value) : 'ratio');
+  const changeCriterion = (id: number, criterion: string) => {
+    if (criterion === 'absolute') updateLimit(id, { kind: 'absolute', value: 20 });
+    else if (criterion === 'ratio') updateLimit(id, { kind: 'ratio', value: 300 });
+    else updateLimit(id, { kind: 'ratio', value: Number(criterion) });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <Ruler className="w-5 h-5 text-emerald-500" />
+        Serviceability Deflection Limits
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+        Each limit is checked on every span, measured from the line joining its deflected supports; overhangs are
+        measured from their support and, for span ratios, may use twice their length. The allowable deflections are
+        marked on the graph in &quot;Beam Deformation&quot;.
+      </p>
+
+      <div className="space-y-3">
+        {limits.map((limit, index) => (
+          <div key={limit.id} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end border-b border-gray-200 dark:border-gray-700 pb-3">
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Deflection of
+              <select
+                value={limit.source}
+                onChange={(e) => changeSource(limit.id, e.target.value as DeflectionLimit['source'])}
+                className={inputClass}
+                aria-label={`Limit ${index + 1} deflection source`}
+              >
+                {SOURCES.map(source => (
+                  <option key={source.id} value={source.id}>{source.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              {limit.source === 'combination' ? 'Combination' : 'Case'}
+              <select
+                value={limit.target ?? ''}
+                onChange={(e) => updateLimit(limit.id, { target: e.target.value })}
+                disabled={limit.source !== 'case' && limit.source !== 'combination'}
+                className={inputClass}
+                aria-label={`Limit ${index + 1} load case or combination`}
+              >
+                {limit.source === 'case' && LOAD_CASES.map(({ id, label }) => (
+                  <option key={id} value={id}>{label} ({id})</option>
+                ))}
+                {limit.source === 'combination' && serviceCombinations.map(combination => (
+                  <option key={combination.id} value={combination.id}>{combination.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              Limit
+              <select
+                value={criterionOf(limit)}
+                onChange={(e) => changeCriterion(limit.id, e.target.value)}
+                className={inputClass}
+                aria-label={`Limit ${index + 1} criterion`}
+              >
+                {RATIO_PRESETS.map(ratio => (
+                  <option key={ratio} value={ratio}>L/{ratio}</option>
+                ))}
+                <option value="ratio">Other L/n</option>
+                <option value="absolute">Absolute (mm)</option>
+              </select>
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              {limit.kind === 'ratio' ? 'n' : 'mm'}
+              <input
+                type="number"
+                min="1"
+                step={limit.kind === 'ratio' ? 10 : 1}
+                value={limit.value}
+                onChange={(e) => updateLimit(limit.id, { value: Number(e.target.value) })}
+                className={inputClass}
+                aria-label={limit.kind === 'ratio' ? `Limit ${index + 1} span ratio` : `Limit ${index + 1} deflection in mm`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 pb-1">
+              <input
+                type="checkbox"
+                checked={limit.doubleCantilevers}
+                onChange={(e) => updateLimit(limit.id, { doubleCantilevers: e.target.checked })}
+                disabled={limit.kind !== 'ratio'}
+                aria-label={`Limit ${index + 1} uses twice the overhang length`}
+              />
+              Overhangs 2L
+            </label>
+            <div className="flex justify-end">
+              <button
+                onClick={() => setLimits(prev => prev.filter(l => l.id !== limit.id))}
+                className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-gray-900 rounded-lg transition-colors"
+                title="Remove Limit"
+                aria-label={`Remove limit ${index + 1}`}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={addLimit}
+          className="w-full px-4 py-2 bg-emerald-500 text-white rounded-lg hover:bg-emerald-600 transition-colors flex items-center justify-center gap-2"
+          aria-label="Add deflection limit"
+        >
+          <Plus className="w-5 h-5" />
+          Add Deflection Limit
+        </button>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400">{error}</p>}
+      {checks.length > 0 && (
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+            <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="py-2 pr-2">Limit</th>
+                <th className="py-2 pr-2">Span (m)</th>
+                <th className="py-2 pr-2">Deflection (mm)</th>
+                <th className="py-2 pr-2">Allowable (mm)</th>
+                <th className="py-2 pr-2">Utilisation</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {checks.map((check, i) => {
+                const limit = limits.find(l => l.id === check.limitId);
+                const passes = check.utilisation <= 1;
+                return (
+                  <tr key={`${check.limitId}-${i}`} className="border-t border-gray-200 dark:border-gray-700">
+                    <td className="py-2 pr-2">{limit ? describeLimit(limit, combinations) : ''}</td>
+                    <td className="py-2 pr-2">
+                      {check.start.toFixed(2)}–{check.end.toFixed(2)}{check.cantilever ? ' (overhang)' : ''}
+                    </td>
+                    <td className="py-2 pr-2">{check.deflection.toFixed(2)} at {check.position.toFixed(2)} m</td>
+                    <td className="py-2 pr-2">{check.allowable.toFixed(2)}</td>
+                    <td className={`py-2 pr-2 ${passes ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400 font-semibold'}`}>
+                      {check.utilisation.toFixed(2)}
+                    </td>
+                    <td className="py-2">
+                      {passes
+                        ? <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400" aria-label="Pass" />
+                        : <XCircle className="w-4 h-4 text-red-600 dark:text-red-400" aria-label="Fail" />}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServiceabilityPanel;
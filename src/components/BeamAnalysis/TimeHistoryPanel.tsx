@@ -0,0 +1,492 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { Activity, Plus, Trash2 } from 'lucide-react';
+import { BeamCalculator } from './calculations';
+import { GRAVITY } from './stiffnessModel';
+import { BeamAnalysisOptions, ForceHistory, Load, MaterialProperties, Support, TimeHistoryResponse } from './types';
+import { useTheme } from '../ThemeProvider';
+
+interface TimeHistoryPanelProps {
+  beamLength: number;
+  beamHeight: number;
+  beamWidth: number;
+  materialProps: MaterialProperties;
+  supports: Support[];
+  loads: Load[];  // their weight vibrates with the beam
+  options: BeamAnalysisOptions;  // foundations, hinges, shear deformation
+  liveLoadMassFactor: number;
+}
+
+type ForceType = ForceHistory['type'];
+
+// Peak acceleration limits for walking excitation, AISC Design Guide 11
+const ACCELERATION_LIMITS = [
+  { label: 'Offices, residences, churches (0.5%g)', percentG: 0.5 },
+  { label: 'Shopping malls, indoor footbridges (1.5%g)', percentG: 1.5 },
+  { label: 'Outdoor footbridges (5%g)', percentG: 5 },
+];
+
+// Enough points to draw the histories without slowing the charts down
+const MAX_CHART_POINTS = 1000;
+
+const LINE_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899'];
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+const TimeHistoryPanel: React.FC<TimeHistoryPanelProps> = ({
+  beamLength,
+  beamHeight,
+  beamWidth,
+  materialProps,
+  supports,
+  loads,
+  options,
+  liveLoadMassFactor,
+}) => {
+  const { theme } = useTheme();
+  const [forceType, setForceType] = useState<ForceType>('harmonic');
+  const [amplitude, setAmplitude] = useState<number>(0.3);  // kN, first walking harmonic of a 0.7 kN person
+  const [frequency, setFrequency] = useState<number>(2);
+  const [pulseDuration, setPulseDuration] = useState<number>(0.05);
+  const [tablePoints, setTablePoints] = useState<{ time: number; force: number }[]>([
+    { time: 0, force: 0 },
+    { time: 0.1, force: 1 },
+    { time: 0.2, force: 0 },
+  ]);
+  const [loadPosition, setLoadPosition] = useState<number>(beamLength / 2);
+  const [responsePoints, setResponsePoints] = useState<number[]>([beamLength / 2]);
+  const [duration, setDuration] = useState<number>(2);
+  const [timeStep, setTimeStep] = useState<number>(0.002);
+  const [dampingRatio, setDampingRatio] = useState<number>(0.03);
+  const [limitPercentG, setLimitPercentG] = useState<number>(ACCELERATION_LIMITS[0].percentG);
+  // The analysis steps through thousands of time steps, so it runs on request
+  // rather than on every keystroke
+  const [result, setResult] = useState<{ response: TimeHistoryResponse | null; error: string | null }>({
+    response: null,
+    error: null,
+  });
+
+  const runAnalysis = () => {
+    const history: ForceHistory =
+      forceType === 'harmonic'
+        ? { type: 'harmonic', amplitude, frequency }
+        : forceType === 'impulse'
+          ? { type: 'impulse', amplitude, duration: pulseDuration }
+          : { type: 'table', points: tablePoints };
+    try {
+      const calculator = new BeamCalculator(beamLength, beamHeight, beamWidth, materialProps, supports, loads, options);
+      const response = calculator.calculateTimeHistory(
+        { position: loadPosition, history },
+        responsePoints,
+        { duration, timeStep, dampingRatio },
+        liveLoadMassFactor
+      );
+      setResult({ response, error: null });
+    } catch (error) {
+      setResult({ response: null, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const chartData = useMemo(() => {
+    const { response } = result;
+    if (!response) return [];
+    const stride = Math.ceil(response.time.length / MAX_CHART_POINTS);
+    const rows: Record<string, number>[] = [];
+    for (let j = 0; j < response.time.length; j += stride) {
+      const row: Record<string, number> = { time: Number(response.time[j].toFixed(4)) };
+      response.points.forEach((point, k) => {
+        row[`displacement${k}`] = point.displacement[j];
+        row[`acceleration${k}`] = point.acceleration[j];
+      });
+      rows.push(row);
+    }
+    return rows;
+  }, [result]);
+
+  const limit = (limitPercentG / 100) * GRAVITY;  // m/s²
+
+  const updateTablePoint = (index: number, field: 'time' | 'force', value: number) => {
+    setTablePoints(prev => prev.map((point, i) => (i === index ? { ...point, [field]: value } : point)));
+  };
+
+  const updateResponsePoint = (index: number, value: number) => {
+    setResponsePoints(prev => prev.map((x, i) => (i === index ? Math.min(Math.max(0, value), beamLength) : x)));
+  };
+
+  const axisColor = theme === 'dark' ? '#d1d5db' : '#666';
+  const tooltipStyle = {
+    backgroundColor: theme === 'dark' ? '#1f2937' : '#fff',
+    border: theme === 'dark' ? '1px solid #374151' : '1px solid #ddd',
+    borderRadius: '4px',
+    color: theme === 'dark' ? '#d1d5db' : 'inherit'
+  };
+  const timeAxis = (
+    <XAxis
+      dataKey="time"
+      type="number"
+      domain={[0, 'dataMax']}
+      label={{ value: 'Time (s)', position: 'bottom', offset: 0, style: { fontSize: '12px', fill: axisColor } }}
+      tick={{ fill: axisColor, fontSize: '12px' }}
+    />
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg p-6 transition-colors">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center gap-2">
+        <Activity className="w-5 h-5 text-teal-500" />
+        Dynamic Time-History Response
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Force history</label>
+            <select
+              value={forceType}
+              onChange={e => setForceType(e.target.value as ForceType)}
+              className={inputClass}
+              aria-label="Force history type"
+            >
+              <option value="harmonic">Harmonic (F·sin 2πft)</option>
+              <option value="impulse">Impulse (half-sine pulse)</option>
+              <option value="table">Force-time table</option>
+            </select>
+          </div>
+          {forceType !== 'table' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Amplitude (kN)</label>
+                <input
+                  type="number"
+                  value={amplitude}
+                  onChange={e => setAmplitude(Number(e.target.value))}
+                  step="0.1"
+                  className={inputClass}
+                  aria-label="Force amplitude"
+                />
+              </div>
+              {forceType === 'harmonic' ? (
+                <div>
+                  <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Frequency (Hz)</label>
+                  <input
+                    type="number"
+                    value={frequency}
+                    onChange={e => setFrequency(Number(e.target.value))}
+                    min="0.1"
+                    step="0.1"
+                    className={inputClass}
+                    aria-label="Forcing frequency"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Pulse duration (s)</label>
+                  <input
+                    type="number"
+                    value={pulseDuration}
+                    onChange={e => setPulseDuration(Number(e.target.value))}
+                    min="0.001"
+                    step="0.01"
+                    className={inputClass}
+                    aria-label="Impulse duration"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          {forceType === 'table' && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="text-sm font-semibold text-teal-800 dark:text-teal-200">Force-time points</h4>
+                <button
+                  onClick={() => setTablePoints(prev => [...prev, { time: (prev[prev.length - 1]?.time ?? 0) + 0.1, force: 0 }])}
+                  className="flex items-center gap-1 text-sm text-teal-600 dark:text-teal-400 hover:underline"
+                >
+                  <Plus className="w-4 h-4" /> Add Point
+                </button>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                    <th className="py-1 pr-2">Time (s)</th>
+                    <th className="py-1 pr-2">Force (kN)</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {tablePoints.map((point, i) => (
+                    <tr key={i}>
+                      <td className="py-1 pr-2">
+                        <input
+                          type="number"
+                          value={point.time}
+                          onChange={e => updateTablePoint(i, 'time', Number(e.target.value))}
+                          min="0"
+                          step="0.01"
+                          className={inputClass}
+                          aria-label={`Time of point ${i + 1}`}
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <input
+                          type="number"
+                          value={point.force}
+                          onChange={e => updateTablePoint(i, 'force', Number(e.target.value))}
+                          step="0.1"
+                          className={inputClass}
+                          aria-label={`Force at point ${i + 1}`}
+                        />
+                      </td>
+                      <td className="py-1">
+                        <button
+                          onClick={() => setTablePoints(prev => prev.filter((_, j) => j !== i))}
+                          disabled={tablePoints.length <= 2}
+                          className="text-red-500 hover:text-red-700 disabled:opacity-30"
+                          aria-label={`Remove point ${i + 1}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Load position (m)</label>
+            <input
+              type="number"
+              value={loadPosition}
+              onChange={e => setLoadPosition(Math.min(Math.max(0, Number(e.target.value)), beamLength))}
+              min="0"
+              max={beamLength}
+              step="0.1"
+              className={inputClass}
+              aria-label="Dynamic load position"
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Forces act downward. The vibrating mass is the one used for the natural frequencies, and Rayleigh
+            damping gives the chosen ratio in the first two modes.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Duration (s)</label>
+              <input
+                type="number"
+                value={duration}
+                onChange={e => setDuration(Number(e.target.value))}
+                min="0.1"
+                step="0.5"
+                className={inputClass}
+                aria-label="Analysis duration"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Time step (s)</label>
+              <input
+                type="number"
+                value={timeStep}
+                onChange={e => setTimeStep(Number(e.target.value))}
+                min="0.0001"
+                step="0.001"
+                className={inputClass}
+                aria-label="Time step"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Damping ratio</label>
+              <input
+                type="number"
+                value={dampingRatio}
+                onChange={e => setDampingRatio(Number(e.target.value))}
+                min="0"
+                max="0.99"
+                step="0.005"
+                className={inputClass}
+                aria-label="Damping ratio"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Acceleration limit (%g)</label>
+            <div className="flex gap-2">
+              <select
+                value={ACCELERATION_LIMITS.some(preset => preset.percentG === limitPercentG) ? limitPercentG : ''}
+                onChange={e => e.target.value !== '' && setLimitPercentG(Number(e.target.value))}
+                className={inputClass}
+                aria-label="Acceleration limit preset"
+              >
+                {ACCELERATION_LIMITS.map(preset => (
+                  <option key={preset.percentG} value={preset.percentG}>{preset.label}</option>
+                ))}
+                <option value="">Custom</option>
+              </select>
+              <input
+                type="number"
+                value={limitPercentG}
+                onChange={e => setLimitPercentG(Number(e.target.value))}
+                min="0.1"
+                step="0.1"
+                className={`${inputClass} w-24`}
+                aria-label="Acceleration limit in percent of g"
+              />
+            </div>
+          </div>
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="text-sm font-semibold text-teal-800 dark:text-teal-200">Response points</h4>
+              <button
+                onClick={() => setResponsePoints(prev => [...prev, beamLength / 4])}
+                className="flex items-center gap-1 text-sm text-teal-600 dark:text-teal-400 hover:underline"
+              >
+                <Plus className="w-4 h-4" /> Add Point
+              </button>
+            </div>
+            {responsePoints.map((x, i) => (
+              <div key={i} className="flex items-center gap-2 mb-2">
+                <label className="text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">x (m)</label>
+                <input
+                  type="number"
+                  value={x}
+                  onChange={e => updateResponsePoint(i, Number(e.target.value))}
+                  min="0"
+                  max={beamLength}
+                  step="0.1"
+                  className={inputClass}
+                  aria-label={`Response point ${i + 1} position`}
+                />
+                <button
+                  onClick={() => setResponsePoints(prev => prev.filter((_, j) => j !== i))}
+                  disabled={responsePoints.length === 1}
+                  className="text-red-500 hover:text-red-700 disabled:opacity-30"
+                  aria-label={`Remove response point ${i + 1}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={runAnalysis}
+            className="w-full px-4 py-2 bg-teal-500 text-white rounded-lg hover:bg-teal-600 transition-colors"
+          >
+            Run Time-History Analysis
+          </button>
+        </div>
+      </div>
+
+      {result.error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{result.error}</p>
+      )}
+
+      {result.response && (
+        <>
+          <table className="w-full text-sm text-gray-900 dark:text-gray-100 mb-6">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="py-1 pr-2">Point (m)</th>
+                <th className="py-1 pr-2">Peak Displacement (mm)</th>
+                <th className="py-1 pr-2">Peak Acceleration (m/s²)</th>
+                <th className="py-1 pr-2">Peak Acceleration (%g)</th>
+                <th className="py-1">Ratio to Limit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.response.points.map(point => {
+                const ratio = point.peakAcceleration / limit;
+                return (
+                  <tr key={point.position}>
+                    <td className="py-1 pr-2">{point.position.toFixed(2)}</td>
+                    <td className="py-1 pr-2">{point.peakDisplacement.toFixed(3)}</td>
+                    <td className="py-1 pr-2">{point.peakAcceleration.toFixed(4)}</td>
+                    <td className="py-1 pr-2">{((point.peakAcceleration / GRAVITY) * 100).toFixed(2)}</td>
+                    <td className={`py-1 ${ratio > 1 ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-green-600 dark:text-green-400'}`}>
+                      {ratio.toFixed(2)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Displacement</h4>
+          <div className="h-72 mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+                {timeAxis}
+                <YAxis
+                  reversed
+                  tickFormatter={(value) => `${value.toFixed(3)}`}
+                  label={{ value: 'Displacement (mm)', angle: -90, position: 'left', style: { fontSize: '12px', fill: axisColor } }}
+                  tick={{ fill: axisColor }}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number, name: string) => [`${value.toFixed(4)} mm`, name]}
+                  labelFormatter={(label) => `Time: ${label} s`}
+                />
+                <Legend verticalAlign="top" height={36} />
+                <ReferenceLine y={0} stroke={axisColor} />
+                {result.response.points.map((point, k) => (
+                  <Line
+                    key={k}
+                    type="linear"
+                    dataKey={`displacement${k}`}
+                    stroke={LINE_COLORS[k % LINE_COLORS.length]}
+                    strokeWidth={1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                    name={`x = ${point.position} m`}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-2">Acceleration</h4>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 20, right: 30, left: 30, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={theme === 'dark' ? "#374151" : "#e5e7eb"} />
+                {timeAxis}
+                <YAxis
+                  tickFormatter={(value) => `${value.toFixed(3)}`}
+                  label={{ value: 'Acceleration (m/s²)', angle: -90, position: 'left', style: { fontSize: '12px', fill: axisColor } }}
+                  tick={{ fill: axisColor }}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  formatter={(value: number, name: string) => [`${value.toFixed(4)} m/s²`, name]}
+                  labelFormatter={(label) => `Time: ${label} s`}
+                />
+                <Legend verticalAlign="top" height={36} />
+                <ReferenceLine y={limit} stroke="#ef4444" strokeDasharray="4 3" label={{ value: 'Limit', fill: '#ef4444', fontSize: 12 }} />
+                <ReferenceLine y={-limit} stroke="#ef4444" strokeDasharray="4 3" />
+                {result.response.points.map((point, k) => (
+                  <Line
+                    key={k}
+                    type="linear"
+                    dataKey={`acceleration${k}`}
+                    stroke={LINE_COLORS[k % LINE_COLORS.length]}
+                    strokeWidth={1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                    name={`x = ${point.position} m`}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TimeHistoryPanel;
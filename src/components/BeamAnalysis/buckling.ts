@@ -0,0 +1,149 @@
+// buckling.ts
+// Elastic lateral-torsional buckling of each unbraced segment, with Cb from
+// the moment diagram, and Euler buckling under axial compression.
+
+import { BucklingSegment, DiagramPoint, LateralBrace, Support } from './types';
+
+const POSITION_TOLERANCE = 1e-6;
+const MAX_CB = 3;
+
+export interface BucklingSection {
+  strongAxisInertia: number;  // m⁴, bending in the plane of the loads
+  weakAxisInertia: number;    // m⁴
+  torsionalConstant: number;  // m⁴
+  warpingConstant: number;    // m⁶
+}
+
+export interface BucklingProperties {
+  elasticModulus: number;   // kN/m²
+  shearModulus: number;     // kN/m²
+  sectionAt: (x: number) => BucklingSection;  // x in m
+}
+
+/** |M| at x, interpolated linearly between diagram points. */
+function absoluteMomentAt(diagram: DiagramPoint[], x: number): number {
+  const i = diagram.findIndex(point => point.position >= x - POSITION_TOLERANCE);
+  if (i <= 0) return Math.abs(diagram[Math.max(0, i)].moment);
+  const before = diagram[i - 1];
+  const after = diagram[i];
+  const t = (x - before.position) / (after.position - before.position);
+  return Math.abs(before.moment + (after.moment - before.moment) * t);
+}
+
+/**
+ * Smallest of each section property over [start, end], taken at its ends and
+ * the diagram points between, so a stepped or tapered stretch is checked with
+ * its weakest section.
+ */
+function weakestSection(
+  diagram: DiagramPoint[],
+  start: number,
+  end: number,
+  sectionAt: (x: number) => BucklingSection
+): BucklingSection {
+  const sections = [
+    start,
+    end,
+    ...diagram.map(point => point.position).filter(x => x > start + POSITION_TOLERANCE && x < end - POSITION_TOLERANCE),
+  ].map(sectionAt);
+  const least = (key: keyof BucklingSection) => Math.min(...sections.map(section => section[key]));
+  return {
+    strongAxisInertia: least('strongAxisInertia'),
+    weakAxisInertia: least('weakAxisInertia'),
+    torsionalConstant: least('torsionalConstant'),
+    warpingConstant: least('warpingConstant'),
+  };
+}
+
+/**
+ * AISC 360-16 Eq. F1-1 from the largest moment and the moments at the
+ * quarter, middle and three-quarter points of the segment.
+ */
+function momentGradientFactor(diagram: DiagramPoint[], start: number, end: number, maxMoment: number): number {
+  if (maxMoment <= 0) return 1;
+  const at = (fraction: number) => absoluteMomentAt(diagram, start + (end - start) * fraction);
+  const cb = (12.5 * maxMoment) / (2.5 * maxMoment + 3 * at(0.25) + 4 * at(0.5) + 3 * at(0.75));
+  return Math.min(MAX_CB, cb);
+}
+
+/**
+ * Checks every segment between the beam ends, supports and lateral braces.
+ *
+ * The elastic critical moment is Mcr = Cb·(π/Lb)·√(E·Iy·G·J + (π·E/Lb)²·Iy·Cw)
+ * for a segment whose ends are held against twist, which supports and braces
+ * are assumed to do. Segments running out to a free end are cantilevers and
+ * take Cb = 1.
+ *
+ * Euler buckling takes the smaller of the weak-axis load over the unbraced
+ * length and the strong-axis load over the span between supports, with an
+ * effective length factor of 1, or 2 for an overhang.
+ *
+ * On a non-prismatic beam each check uses the smallest section properties
+ * over its length: the unbraced segment for lateral-torsional and weak-axis
+ * buckling, the span between supports for strong-axis buckling.
+ */
+export function checkBuckling(
+  beamLength: number,
+  supports: Support[],
+  braces: LateralBrace[],
+  diagram: DiagramPoint[],
+  properties: BucklingProperties
+): BucklingSegment[] {
+  if (diagram.length === 0) return [];
+  const { elasticModulus: E, shearModulus: G, sectionAt } = properties;
+  const supportPositions = supports.map(support => support.position).sort((a, b) => a - b);
+  const isSupported = (x: number) => supportPositions.some(position => Math.abs(position - x) <= POSITION_TOLERANCE);
+
+  const edges = [0, beamLength, ...supportPositions, ...braces.map(brace => brace.position)]
+    .filter(x => x >= -POSITION_TOLERANCE && x <= beamLength + POSITION_TOLERANCE)
+    .sort((a, b) => a - b)
+    .filter((x, i, sorted) => i === 0 || x - sorted[i - 1] > POSITION_TOLERANCE);
+
+  // Span between supports containing x, with its strong-axis buckling length
+  const strongAxisSpan = (x: number) => {
+    const left = [...supportPositions].reverse().find(position => position <= x + POSITION_TOLERANCE);
+    const right = supportPositions.find(position => position >= x - POSITION_TOLERANCE);
+    if (left !== undefined && right !== undefined && right - left > POSITION_TOLERANCE) {
+      return { start: left, end: right, length: right - left };
+    }
+    // Overhang past the end supports, or a beam on a single support
+    const [start, end] = left === undefined ? [0, right ?? beamLength] : [left, beamLength];
+    return { start, end, length: 2 * (end - start) };
+  };
+
+  return edges.slice(1).map((end, k) => {
+    const start = edges[k];
+    const length = end - start;
+    const cantilever = (start <= POSITION_TOLERANCE && !isSupported(start)) ||
+      (end >= beamLength - POSITION_TOLERANCE && !isSupported(end));
+    const inside = diagram.filter(point =>
+      point.position >= start - POSITION_TOLERANCE && point.position <= end + POSITION_TOLERANCE
+    );
+    const maxMoment = Math.max(absoluteMomentAt(diagram, start), absoluteMomentAt(diagram, end), ...inside.map(point => Math.abs(point.moment)));
+    const axialCompression = Math.max(0, ...inside.map(point => -(point.axialForce ?? 0)));
+
+    const { weakAxisInertia, torsionalConstant, warpingConstant } = weakestSection(diagram, start, end, sectionAt);
+    const span = strongAxisSpan((start + end) / 2);
+    const { strongAxisInertia } = weakestSection(diagram, span.start, span.end, sectionAt);
+    const cb = cantilever ? 1 : momentGradientFactor(diagram, start, end, maxMoment);
+    const mcr = cb * (Math.PI / length) * Math.sqrt(
+      E * weakAxisInertia * G * torsionalConstant + ((Math.PI * E) / length) ** 2 * weakAxisInertia * warpingConstant
+    );
+    const weakEuler = (Math.PI ** 2 * E * weakAxisInertia) / (cantilever ? 2 * length : length) ** 2;
+    const strongEuler = (Math.PI ** 2 * E * strongAxisInertia) / span.length ** 2;
+
+    return {
+      start,
+      end,
+      cantilever,
+      maxMoment: Number(maxMoment.toFixed(3)),
+      cb: Number(cb.toFixed(3)),
+      criticalMoment: Number(mcr.toFixed(3)),
+      momentUtilisation: Number((maxMoment / mcr).toFixed(3)),
+      axialCompression: Number(axialCompression.toFixed(3)),
+      eulerLoad: Number(Math.min(weakEuler, strongEuler).toFixed(3)),
+      eulerAxis: weakEuler <= strongEuler ? 'weak' : 'strong',
+      axialUtilisation: Number((axialCompression / Math.min(weakEuler, strongEuler)).toFixed(3)),
+    };
+  });
+}
@@ -1,26 +1,88 @@
 // calculations.ts
 'use strict';
 
-import { Load, MaterialProperties, Reactions, SectionProperties, DiagramPoint } from './types';
+import { Load, MaterialProperties, Reactions, SectionProperties, DiagramPoint, Support, BeamAnalysisOptions, StabilityCheck, SecondOrderAmplification, LateralBrace, BucklingSegment, VibrationMode, BeamSegment, DynamicLoad, ForceHistory, TimeHistorySettings, TimeHistoryResponse, ProvidedReinforcement } from './types';
+import { BeamMass, BeamModelDefinition, GRAVITY, SectionRigidities, SectionSegment, SolvedBeamModel, assembleDynamicSystem, solveBeamModel, solveBeamModelLoadSets } from './stiffnessModel';
+import { checkStability } from './stability';
+import { checkBuckling } from './buckling';
+import { forceAt, solveTimeHistory, solveVibrationModes } from './dynamics';
+import { CrackedSectionProperties, crackedSectionProperties, effectiveInertia } from './crackedSection';
+
+// Stretch of the beam with its dimensions in mm, tapering between its ends
+interface BeamStretch {
+  start: number;        // m
+  end: number;          // m
+  width: number;
+  startHeight: number;
+  endHeight: number;
+}
+
+interface BeamStresses {
+  normalStress: number;     // MPa, at the more highly stressed face (corner under biaxial bending), tension positive
+  shearStress: number;      // MPa, resultant of the vertical and lateral shear at the centroid
+  torsionalStress: number;  // MPa
+  vonMisesStress: number;   // MPa
+}
+
+// Vertical bending about the strong axis, or lateral bending about the weak axis
+type BendingPlane = 'vertical' | 'lateral';
+
+const NEGLIGIBLE_COMPONENT = 1e-9;
+
+/**
+ * Components of the loads in one bending plane. Point, distributed and linear
+ * loads inclined from the vertical split between the planes by their angle;
+ * every other load acts in the vertical plane.
+ */
+function planeLoads(loads: Load[], plane: BendingPlane): Load[] {
+  return loads.flatMap(load => {
+    const inclinable = load.type === 'point' || load.type === 'distributed' || load.type === 'linear';
+    if (!inclinable || !load.angle) return plane === 'vertical' ? [load] : [];
+    const radians = (load.angle * Math.PI) / 180;
+    const factor = plane === 'vertical' ? Math.cos(radians) : Math.sin(radians);
+    if (Math.abs(factor) < NEGLIGIBLE_COMPONENT) return [];
+    return [{
+      ...load,
+      magnitude: load.magnitude * factor,
+      ...(load.endMagnitude !== undefined && { endMagnitude: load.endMagnitude * factor }),
+    }];
+  });
+}
 
 export class BeamCalculator {
   private static readonly NEGLIGIBLE = 1e-9;
-  private static readonly STRESS_TO_MPA = 1e-6;
+  private static readonly STRESS_TO_MPA = 1e-3;  // kN/m² → MPa: moments in kN·m over section moduli in m³
   private static readonly DEFLECTION_TO_MM = 1000;
   private static readonly MAX_ITERATIONS = 1000;
   private static readonly CONVERGENCE_TOLERANCE = 1e-6;
+  private static readonly MESH_TOLERANCE = 1e-6;
+
+  private static readonly MESH_ELEMENTS = 200;
+  private static readonly MAX_CRACKING_ITERATIONS = 30;
+  private static readonly CRACKING_TOLERANCE = 1e-4;  // relative change in deflection that ends the iteration
+
+  // Shear area factor of a solid rectangle
+  public static readonly RECTANGULAR_SHEAR_AREA_FACTOR = 5 / 6;
+
+  private supports: Support[];
+  private segments: BeamSegment[];
+  private solution?: SolvedBeamModel;
+  private bendingSolution?: SolvedBeamModel;
+  private firstOrderSolution?: SolvedBeamModel;
+  private lateralSolution?: SolvedBeamModel;
+  private crackedSections?: SectionSegment[];
 
   constructor(
     private beamLength: number,
     private beamHeight: number,
     private beamWidth: number,
     private materialProps: MaterialProperties,
-    private startSupportPosition: number,
-    private endSupportPosition: number,
-    private startSupport: 'pin' | 'roller' | 'fixed' | 'free',
-    private endSupport: 'pin' | 'roller' | 'fixed' | 'free',
-    private loads: Load[]
+    supports: Support[],
+    private loads: Load[],
+    private options: BeamAnalysisOptions = {}
   ) {
+    this.supports = [...supports].sort((a, b) => a.position - b.position);
+    this.segments = [...(options.segments ?? [])].sort((a, b) => a.start - b.start);
     this.validateInputs();
   }
 
@@ -30,42 +92,135 @@ export class BeamCalculator {
     if (this.beamWidth <= 0) throw new Error('Beam width must be positive');
     if (this.materialProps.elasticModulus <= 0) throw new Error('Elastic modulus must be positive');
     if (this.materialProps.shearModulus <= 0) throw new Error('Shear modulus must be positive');
-    if (this.startSupportPosition < 0 || this.startSupportPosition > this.beamLength) {
-      throw new Error('Start support position must be within beam length');
+    if (this.options.meshDensity !== undefined && !(this.options.meshDensity >= 1)) {
+      throw new Error('Mesh density must be at least one element');
     }
-    if (this.endSupportPosition < 0 || this.endSupportPosition > this.beamLength) {
-      throw new Error('End support position must be within beam length');
-    }
-    if (this.startSupportPosition >= this.endSupportPosition) {
-      throw new Error('Start support position must be less than end support position');
+    if (this.options.shearAreaFactor !== undefined && !(this.options.shearAreaFactor > 0 && this.options.shearAreaFactor <= 1)) {
+      throw new Error('Shear area factor must be greater than 0 and at most 1');
     }
+    this.validateSupports();
+    this.validateFoundations();
+    this.validateHinges();
+    this.validateSegments();
+    this.validateReinforcement();
     this.validateLoads();
   }
 
-  private validateLoads(): void {
-    this.loads.forEach(load => {
+  private validateSupports(): void {
+    // A beam on an elastic foundation may rest on the soil alone
+    if (this.supports.length === 0 && !this.options.foundations?.length) {
+      throw new Error('At least one support is required');
+    }
+    this.supports.forEach((support, i) => {
+      if (support.position < 0 || support.position > this.beamLength) {
+        throw new Error(`Support position must be within beam length (0 to ${this.beamLength})`);
+      }
+      if (i > 0 && support.position - this.supports[i - 1].position <= BeamCalculator.MESH_TOLERANCE) {
+        throw new Error('Supports must be at distinct positions');
+      }
+      if (support.type === 'spring' && !((support.stiffness ?? 0) > 0)) {
+        throw new Error('Spring support stiffness must be positive');
+      }
+      if ((support.rotationalStiffness ?? 0) < 0) {
+        throw new Error('Rotational spring stiffness cannot be negative');
+      }
+    });
+  }
+
+  private validateFoundations(): void {
+    (this.options.foundations ?? []).forEach(foundation => {
+      if (foundation.start < 0 || foundation.end > this.beamLength + BeamCalculator.MESH_TOLERANCE) {
+        throw new Error(`Foundation must be within beam length (0 to ${this.beamLength})`);
+      }
+      if (foundation.end - foundation.start <= BeamCalculator.MESH_TOLERANCE) {
+        throw new Error('Foundation length must be positive');
+      }
+      if (!(foundation.modulus > 0)) throw new Error('Modulus of subgrade reaction must be positive');
+      if (!(foundation.width > 0)) throw new Error('Foundation bearing width must be positive');
+    });
+  }
+
+  private validateHinges(): void {
+    const positions = (this.options.hinges ?? []).map(hinge => hinge.position).sort((a, b) => a - b);
+    positions.forEach((position, i) => {
+      // A hinge at a beam end would release nothing but a support's fixity
+      if (position <= BeamCalculator.MESH_TOLERANCE || position >= this.beamLength - BeamCalculator.MESH_TOLERANCE) {
+        throw new Error(`Hinges must lie inside the beam (between 0 and ${this.beamLength})`);
+      }
+      if (i > 0 && position - positions[i - 1] <= BeamCalculator.MESH_TOLERANCE) {
+        throw new Error('Hinges must be at distinct positions');
+      }
+    });
+  }
+
+  private validateSegments(): void {
+    this.segments.forEach((segment, i) => {
+      if (segment.start < 0 || segment.end > this.beamLength + BeamCalculator.MESH_TOLERANCE) {
+        throw new Error(`Segment must be within beam length (0 to ${this.beamLength})`);
+      }
+      if (segment.end - segment.start <= BeamCalculator.MESH_TOLERANCE) throw new Error('Segment length must be positive');
+      if (!(segment.width > 0 && segment.startHeight > 0 && segment.endHeight > 0)) {
+        throw new Error('Segment width and heights must be positive');
+      }
+      if (i > 0 && segment.start < this.segments[i - 1].end - BeamCalculator.MESH_TOLERANCE) {
+        throw new Error('Segments must not overlap');
+      }
+    });
+  }
+
+  private validateReinforcement(): void {
+    const reinforcement = this.options.crackedSection;
+    if (!reinforcement) return;
+    if (!(reinforcement.concreteStrength > 0)) throw new Error('Concrete strength must be positive');
+    if (!(reinforcement.tensionSteel > 0)) throw new Error('Cracked-section analysis needs tension reinforcement');
+    if (reinforcement.compressionSteel < 0) throw new Error('Compression reinforcement cannot be negative');
+    // The bottom bars keep their cover wherever the depth changes
+    const shallowest = Math.min(this.beamHeight, ...this.segments.flatMap(s => [s.startHeight, s.endHeight]));
+    const bottomCover = this.beamHeight - reinforcement.effectiveDepth;
+    if (!(bottomCover > 0 && reinforcement.compressionDepth >= 0 && reinforcement.compressionDepth < shallowest - bottomCover)) {
+      throw new Error('Reinforcement must lie within the section');
+    }
+  }
+
+  private validateLoads(loads: Load[] = this.loads): void {
+    loads.forEach(load => {
       if (load.position < 0 || load.position > this.beamLength) {
         throw new Error(`Load position must be within beam length (0 to ${this.beamLength})`);
       }
-      if (load.magnitude === 0) {
+      if (load.type === 'thermal') {
+        if (!((this.materialProps.thermalExpansion ?? 0) > 0)) {
+          throw new Error('Thermal loads need a positive coefficient of thermal expansion');
+        }
+        if (load.magnitude === 0 && (load.temperatureGradient ?? 0) === 0) {
+          throw new Error('Thermal load needs a uniform temperature change or a gradient');
+        }
+        if (!load.length || load.length <= 0) throw new Error('Thermal load length must be positive');
+        if (load.position + load.length > this.beamLength + BeamCalculator.MESH_TOLERANCE) {
+          throw new Error('Thermal load must be within beam length');
+        }
+        return;
+      }
+      if (load.type === 'linear') {
+        // Either end of a triangular load may be zero, but not both
+        if (load.magnitude === 0 && (load.endMagnitude ?? 0) === 0) {
+          throw new Error('Linear load intensities cannot both be zero');
+        }
+        if (!load.length || load.length <= 0) throw new Error('Linear load length must be positive');
+      } else if (load.magnitude === 0) {
         throw new Error('Load magnitude cannot be zero');
       }
-      if (load.type === 'distributed' && load.length) {
+      if (load.angle !== undefined && !(Math.abs(load.angle) <= 90)) {
+        throw new Error('Load angle must be between -90° and 90° from the vertical');
+      }
+      if ((load.type === 'distributed' || load.type === 'linear') && load.length) {
         if (load.length <= 0) throw new Error('Distributed load length must be positive');
-        if (load.position + load.length > this.beamLength) {
+        if (load.position + load.length > this.beamLength + BeamCalculator.MESH_TOLERANCE) {
           throw new Error('Distributed load must be within beam length');
         }
       }
     });
   }
 
-  private getEffectivePosition(load: Load): number {
-    if (load.type === 'distributed' && load.length) {
-      return load.position + load.length / 2;
-    }
-    return load.position;
-  }
-
   private getLoadEffect(load: Load, x: number): number {
     if (x < load.position) return 0;
 
@@ -90,14 +245,32 @@ export class BeamCalculator {
     }
   }
 
-  public calculateSectionProperties(): SectionProperties {
+  /**
+   * Section dimensions in mm at x: those of the segment there, the later one
+   * at a step, or the beam height and width elsewhere and when x is omitted.
+   */
+  private dimensionsAt(x?: number): { height: number; width: number } {
+    const segment = x === undefined
+      ? undefined
+      : this.segments.filter(s => s.start <= x + BeamCalculator.MESH_TOLERANCE && x <= s.end + BeamCalculator.MESH_TOLERANCE).pop();
+    if (x === undefined || !segment) return { height: this.beamHeight, width: this.beamWidth };
+    const t = Math.min(1, Math.max(0, (x - segment.start) / (segment.end - segment.start)));
+    return { height: segment.startHeight + (segment.endHeight - segment.startHeight) * t, width: segment.width };
+  }
+
+  /** Properties of the section at x, or of the beam height and width when x is omitted. */
+  public calculateSectionProperties(x?: number): SectionProperties {
     // Convert mm to m for calculations
-    const height_m = this.beamHeight / 1000;
-    const width_m = this.beamWidth / 1000;
+    const { height, width } = this.dimensionsAt(x);
+    const height_m = height / 1000;
+    const width_m = width / 1000;
     
     const area = height_m * width_m; // m²
     const momentOfInertia = (width_m * Math.pow(height_m, 3)) / 12; // m⁴
     const sectionModulus = momentOfInertia / (height_m / 2); // m³
+    const momentOfInertiaY = (height_m * Math.pow(width_m, 3)) / 12; // m⁴, weak axis
+    const sectionModulusY = momentOfInertiaY / (width_m / 2); // m³
+    const plasticModulus = (width_m * height_m ** 2) / 4; // m³
 
     // Torsional constant (Roark's formula for rectangular sections)
     const a = Math.max(width_m, height_m);
@@ -112,557 +285,503 @@ export class BeamCalculator {
       area: Math.max(BeamCalculator.NEGLIGIBLE, area),
       momentOfInertia: Math.max(BeamCalculator.NEGLIGIBLE, momentOfInertia),
       sectionModulus: Math.max(BeamCalculator.NEGLIGIBLE, sectionModulus),
+      plasticModulusX: Math.max(BeamCalculator.NEGLIGIBLE, plasticModulus),
+      momentOfInertiaY: Math.max(BeamCalculator.NEGLIGIBLE, momentOfInertiaY),
+      sectionModulusY: Math.max(BeamCalculator.NEGLIGIBLE, sectionModulusY),
       torsionalConstant: Math.max(BeamCalculator.NEGLIGIBLE, torsionalConstant),
       polarMomentOfInertia: Math.max(BeamCalculator.NEGLIGIBLE, polarMomentOfInertia),
     };
   }
 
-  calculateReactions(): Reactions {
-    const span = this.endSupportPosition - this.startSupportPosition;
-    let RA = 0, RB = 0, MA = 0, MB = 0;
-
-    // Handle free supports
-    if (this.startSupport === 'free') {
-      RA = 0;
-      MA = 0;
-    }
-    if (this.endSupport === 'free') {
-      RB = 0;
-      MB = 0;
-    }
-
-    // If both supports are free, return zero reactions
-    if (this.startSupport === 'free' && this.endSupport === 'free') {
-      return { reactionA: 0, reactionB: 0, momentA: 0, momentB: 0 };
-    }
-
-    // Handle cantilever beam cases
-    const isCantilever = (this.startSupport === 'fixed' && this.endSupport === 'free') || 
-                        (this.startSupport === 'free' && this.endSupport === 'fixed');
-    
-    if (isCantilever) {
-      const fixedEnd = this.startSupport === 'fixed' ? 'start' : 'end';
-      const freeEnd = fixedEnd === 'start' ? 'end' : 'start';
-      
-      this.loads.forEach(load => {
-        const effPos = this.getEffectivePosition(load);
-        const a = effPos - this.startSupportPosition;
-        const b = this.endSupportPosition - effPos;
-        
-        switch (load.type) {
-          case 'point':
-            if (fixedEnd === 'start') {
-              RA += load.magnitude;
-              MA += load.magnitude * a;
-            } else {
-              RB += load.magnitude;
-              MB += load.magnitude * b;
-            }
-            break;
-            
-          case 'distributed':
-            if (!load.length) break;
-            const w = load.magnitude;
-            if (fixedEnd === 'start') {
-              RA += w * load.length;
-              MA += w * load.length * (a + load.length / 2);
-            } else {
-              RB += w * load.length;
-              MB += w * load.length * (b + load.length / 2);
-            }
-            break;
-            
-          case 'moment':
-            const M = load.magnitude * (load.momentDirection === 'clockwise' ? 1 : -1);
-            if (fixedEnd === 'start') {
-              MA += M;
-            } else {
-              MB += M;
-            }
-            break;
-        }
-      });
-      
-      return {
-        reactionA: Number(RA.toFixed(3)),
-        reactionB: Number(RB.toFixed(3)),
-        momentA: Number(MA.toFixed(3)),
-        momentB: Number(MB.toFixed(3))
-      };
-    }
+  /**
+   * Dead loads of the beam's own weight, area × density × g: uniform along
+   * the beam height and width and over stepped segments, linearly varying
+   * along tapered ones. None without a density.
+   */
+  calculateSelfWeightLoads(): Load[] {
+    const density = this.materialProps.density ?? 0;
+    if (density < 0) throw new Error('Density cannot be negative');
+    if (density === 0) return [];
+    // kg/m³·mm²·m/s² → kN/m
+    const weight = (width: number, height: number) => (density * width * height * 1e-6 * GRAVITY) / 1000;
+    return this.stretches().map(({ start, end, width, startHeight, endHeight }, i): Load => {
+      const common = { id: -(i + 1), loadCase: 'D' as const, selfWeight: true, position: start, length: end - start };
+      return startHeight === endHeight
+        ? { ...common, type: 'distributed', magnitude: weight(width, startHeight) }
+        : { ...common, type: 'linear', magnitude: weight(width, startHeight), endMagnitude: weight(width, endHeight) };
+    });
+  }
 
-    // Regular beam calculations
-    this.loads.forEach(load => {
-      const effPos = this.getEffectivePosition(load);
-      const a = effPos - this.startSupportPosition;
-      const b = this.endSupportPosition - effPos;
-
-      switch (load.type) {
-        case 'point':
-          if (this.startSupport === 'fixed' && this.endSupport === 'fixed') {
-            // Standard formulas for fixed-fixed beam with point load at distance a from left, b from right
-            // M_A = -Pab^2 / L^2
-            // M_B = -Pa^2b / L^2
-            // R_A = P b^2 (3a + b) / L^3
-            // R_B = P a^2 (a + 3b) / L^3
-            RA += load.magnitude * b * b * (3 * a + b) / Math.pow(span, 3);
-            RB += load.magnitude * a * a * (a + 3 * b) / Math.pow(span, 3);
-            MA += -load.magnitude * a * b * b / (span * span);
-            MB += -load.magnitude * a * a * b / (span * span);
-          } else if (this.startSupport === 'fixed') {
-            RA += load.magnitude * b * b * (3 * span - b) / (2 * span ** 3);
-            RB += load.magnitude * a * (3 * span ** 2 - a * (3 * span - a)) / (2 * span ** 3);
-            MA += load.magnitude * a * b * b / (2 * span ** 2);
-          } else if (this.endSupport === 'fixed') {
-            RA += load.magnitude * b * (3 * span ** 2 - b * (3 * span - b)) / (2 * span ** 3);
-            RB += load.magnitude * a * a * (3 * span - a) / (2 * span ** 3);
-            MB += load.magnitude * a * a * b / (2 * span ** 2);
-          } else {
-            RA += load.magnitude * b / span;
-            RB += load.magnitude * a / span;
-          }
-          break;
-
-        case 'distributed':
-          if (!load.length) break;
-          const w = load.magnitude;
-          if (this.startSupport === 'fixed' && this.endSupport === 'fixed') {
-            // Standard formulas for fixed-fixed beam with uniform load over length l, starting at a from left
-            // For full-span uniform load:
-            // M_A = -wL^2/12
-            // M_B = -wL^2/12
-            // R_A = wL/2
-            // R_B = wL/2
-            if (load.length === span && load.position === this.startSupportPosition) {
-              RA += w * span / 2;
-              RB += w * span / 2;
-              MA += -w * span * span / 12;
-              MB += -w * span * span / 12;
-            } else {
-              // For partial uniform load, use influence lines or superposition (approximate by splitting into point loads at centroid)
-              // Approximate as a point load at centroid for now
-              const a_dist = (load.position + load.length / 2) - this.startSupportPosition;
-              const b_dist = this.endSupportPosition - (load.position + load.length / 2);
-              const P = w * load.length;
-              RA += P * b_dist * b_dist * (3 * a_dist + b_dist) / Math.pow(span, 3);
-              RB += P * a_dist * a_dist * (a_dist + 3 * b_dist) / Math.pow(span, 3);
-              MA += -P * a_dist * b_dist * b_dist / (span * span);
-              MB += -P * a_dist * a_dist * b_dist / (span * span);
-            }
-          } else if (this.startSupport === 'fixed') {
-            RA += w * load.length * b * b * (3 * span - b) / (2 * span ** 3);
-            RB += w * load.length * a * (3 * span ** 2 - a * (3 * span - a)) / (2 * span ** 3);
-            MA += w * load.length * a * b * b / (2 * span ** 2);
-          } else if (this.endSupport === 'fixed') {
-            RA += w * load.length * b * (3 * span ** 2 - b * (3 * span - b)) / (2 * span ** 3);
-            RB += w * load.length * a * a * (3 * span - a) / (2 * span ** 3);
-            MB += w * load.length * a * a * b / (2 * span ** 2);
-          } else {
-            RA += w * load.length * b / span;
-            RB += w * load.length * a / span;
-          }
-          break;
-
-        case 'moment':
-          const M = load.magnitude * (load.momentDirection === 'clockwise' ? 1 : -1);
-          if (this.startSupport === 'fixed' && this.endSupport === 'fixed') {
-            // For a moment applied at position a from left (b from right):
-            // M_A = -M * b / L
-            // M_B = M * a / L
-            // R_A = M / L
-            // R_B = -M / L
-            RA += M / span;
-            RB += -M / span;
-            MA += -M * b / span;
-            MB += M * a / span;
-          } else if (this.startSupport === 'fixed') {
-            RA += (3 * M * b) / (2 * span ** 2);
-            RB -= (3 * M * b) / (2 * span ** 2);
-            MA += M * (2 * b - span) / (2 * span);
-          } else if (this.endSupport === 'fixed') {
-            RA -= (3 * M * a) / (2 * span ** 2);
-            RB += (3 * M * a) / (2 * span ** 2);
-            MB += M * (2 * a - span) / (2 * span);
-          } else {
-            RA -= M / span;
-            RB += M / span;
-          }
-          break;
-      }
+  // The segments, and the beam height and width between them, end to end
+  private stretches(): BeamStretch[] {
+    const stretches: BeamStretch[] = [];
+    const nominal = { width: this.beamWidth, startHeight: this.beamHeight, endHeight: this.beamHeight };
+    let covered = 0;
+    this.segments.forEach(segment => {
+      if (segment.start - covered > BeamCalculator.MESH_TOLERANCE) stretches.push({ start: covered, end: segment.start, ...nominal });
+      stretches.push(segment);
+      covered = segment.end;
     });
+    if (this.beamLength - covered > BeamCalculator.MESH_TOLERANCE) stretches.push({ start: covered, end: this.beamLength, ...nominal });
+    return stretches;
+  }
 
-    return {
-      reactionA: Number(RA.toFixed(3)),
-      reactionB: Number(RB.toFixed(3)),
-      momentA: Number(MA.toFixed(3)),
-      momentB: Number(MB.toFixed(3))
-    };
+  calculateReactions(): Reactions {
+    return this.solve().reactions;
   }
 
   calculateShear(x: number): number {
     if (x < 0 || x > this.beamLength) return 0;
+    return Number(this.solve().actionsAt(x).shear.toFixed(3));
+  }
 
-    const R = this.calculateReactions();
-    let shear = 0;
-
-    // Start with left reaction
-    if (x >= this.startSupportPosition) shear += R.reactionA;
-
-    // Subtract distributed loads up to x
-    this.loads.forEach(load => {
-      if (load.type === 'distributed' && load.length) {
-        const loadStart = load.position;
-        const loadEnd = load.position + load.length;
-        if (x > loadStart) {
-          const effLength = Math.min(x, loadEnd) - loadStart;
-          if (effLength > 0) {
-            shear -= load.magnitude * effLength;
-          }
-        }
-      }
-    });
+  calculateMoment(x: number): number {
+    if (x < 0 || x > this.beamLength) return 0;
+    return Number(this.solve().actionsAt(x).moment.toFixed(3));
+  }
 
-    // Subtract point loads at or before x
-    this.loads.forEach(load => {
-      if (load.type === 'point' && x >= load.position) {
-        shear -= load.magnitude;
-      }
-    });
+  calculateRotation(x: number): number {
+    if (x < 0 || x > this.beamLength) return 0;
+    // Radians, clockwise positive
+    return Number(this.solve().actionsAt(x).rotation.toFixed(6));
+  }
 
-    // Add right reaction if at or past right support
-    if (x >= this.endSupportPosition) shear += R.reactionB;
+  calculateDeflection(x: number): number {
+    if (x < 0 || x > this.beamLength) return 0;
+    // Return deflection in mm (downward positive)
+    return Number((this.solve().actionsAt(x).deflection * BeamCalculator.DEFLECTION_TO_MM).toFixed(3));
+  }
 
-    return Number(shear.toFixed(3));
+  /**
+   * Part of the deflection due to shear deformation, in mm: the Timoshenko
+   * deflection less that of an Euler-Bernoulli analysis of the same beam.
+   * Zero unless shear deformation is included.
+   */
+  calculateShearDeflection(x: number): number {
+    if (x < 0 || x > this.beamLength || !this.options.shearDeformation) return 0;
+    const shearPart = this.solve().actionsAt(x).deflection - this.solveBending().actionsAt(x).deflection;
+    return Number((shearPart * BeamCalculator.DEFLECTION_TO_MM).toFixed(3));
   }
 
-  calculateMoment(x: number): number {
+  calculateAxialForce(x: number): number {
     if (x < 0 || x > this.beamLength) return 0;
+    // kN, tension positive
+    return Number(this.solve().actionsAt(x).axial.toFixed(3));
+  }
 
-    const R = this.calculateReactions();
-    let moment = 0;
-
-    // Start with left reaction contribution
-    if (x >= this.startSupportPosition) {
-      moment += R.reactionA * (x - this.startSupportPosition);
-    }
+  calculateTorsion(x: number): number {
+    if (x < 0 || x > this.beamLength) return 0;
+    return Number(this.solve().actionsAt(x).torsion.toFixed(3));
+  }
 
-    // Subtract distributed loads up to x
-    this.loads.forEach(load => {
-      if (load.type === 'distributed' && load.length) {
-        const loadStart = load.position;
-        const loadEnd = load.position + load.length;
-        if (x > loadStart) {
-          const effLength = Math.min(x, loadEnd) - loadStart;
-          if (effLength > 0) {
-            // The moment due to a UDL from loadStart to min(x, loadEnd) at x
-            // is w * l * (x - loadStart - l/2)
-            moment -= load.magnitude * effLength * (x - loadStart - effLength / 2);
-          }
-        }
-      }
-    });
+  calculateSoilPressure(x: number): number {
+    if (x < 0 || x > this.beamLength) return 0;
+    // kPa, compression positive
+    return Number(this.solve().soilPressureAt(x).toFixed(3));
+  }
 
-    // Subtract point loads at or before x
-    this.loads.forEach(load => {
-      if (load.type === 'point' && x >= load.position) {
-        moment -= load.magnitude * (x - load.position);
-      }
-    });
+  /** Parts of compression-only foundations the beam has lifted off, as [start, end] in m. */
+  calculateUpliftRegions(): [number, number][] {
+    return this.solve().upliftRegions();
+  }
 
-    // Add right reaction if at or past right support
-    if (x >= this.endSupportPosition) {
-      moment += R.reactionB * (x - this.endSupportPosition);
+  /**
+   * Stiffness solution of the beam, assembled and factored once per
+   * calculator; every result method reads from it.
+   */
+  solve(): SolvedBeamModel {
+    if (!this.solution) {
+      this.assertStable();
+      this.solution = solveBeamModel(this.modelDefinition());
     }
-
-    return Number(moment.toFixed(3));
+    return this.solution;
   }
 
-  calculateDeflection(x: number): number {
-    if (x < 0 || x > this.beamLength) return 0;
+  /**
+   * Weak-axis bending under the lateral components of inclined loads, or
+   * undefined when there are none. The supports and hinges restrain the beam
+   * sideways as they do vertically; settlements are vertical and a Winkler
+   * foundation gives no lateral support, so both are left out, as is P-delta.
+   * A beam that only the foundation holds up is free sideways, and its weak-
+   * axis bending is skipped rather than failing the vertical analysis too.
+   */
+  private solveLateral(): SolvedBeamModel | undefined {
+    const loads = planeLoads(this.loads, 'lateral');
+    if (loads.length === 0 || this.checkLateralStability()?.classification === 'mechanism') return undefined;
+    if (!this.lateralSolution) {
+      const { depth, ...rigidities } = this.sectionRigidities(undefined, 'lateral');
+      this.lateralSolution = solveBeamModel({
+        length: this.beamLength,
+        ...rigidities,
+        supports: this.supports.map(({ settlement, imposedRotation, ...support }) => support),
+        loads,
+        meshDensity: this.options.meshDensity ?? BeamCalculator.MESH_ELEMENTS,
+        hinges: this.options.hinges?.map(hinge => hinge.position),
+        sections: this.segments.map(({ start, end }) => ({ start, end, sectionAt: x => this.sectionRigidities(x, 'lateral') })),
+      });
+    }
+    return this.lateralSolution;
+  }
 
-    // Handle cantilever beam cases
-    const isCantilever = (this.startSupport === 'fixed' && this.endSupport === 'free') || 
-                        (this.startSupport === 'free' && this.endSupport === 'fixed');
-    
-    if (isCantilever) {
-      const fixedEnd = this.startSupport === 'fixed' ? 'start' : 'end';
-      const freeEnd = fixedEnd === 'start' ? 'end' : 'start';
-      const fixedPos = fixedEnd === 'start' ? this.startSupportPosition : this.endSupportPosition;
-      const freePos = freeEnd === 'start' ? this.startSupportPosition : this.endSupportPosition;
-      
-      // For cantilever beams, use the analytical solution
-      const EI = this.materialProps.elasticModulus * this.calculateSectionProperties().momentOfInertia;
-      let deflection = 0;
-      
-      this.loads.forEach(load => {
-        const effPos = this.getEffectivePosition(load);
-        const a = effPos - fixedPos;
-        const b = freePos - effPos;
-        
-        switch (load.type) {
-          case 'point':
-            if (x >= effPos) {
-              deflection += (load.magnitude * Math.pow(x - effPos, 2) * (3 * a - (x - effPos))) / (6 * EI);
-            }
-            break;
-            
-          case 'distributed':
-            if (!load.length) break;
-            const w = load.magnitude;
-            const loadEnd = effPos + load.length;
-            if (x >= effPos) {
-              const x1 = Math.min(x, loadEnd);
-              deflection += (w * Math.pow(x1 - effPos, 3) * (4 * a - (x1 - effPos))) / (24 * EI);
-            }
-            break;
-            
-          case 'moment':
-            const M = load.magnitude * (load.momentDirection === 'clockwise' ? 1 : -1);
-            if (x >= effPos) {
-              deflection += (M * Math.pow(x - effPos, 2)) / (2 * EI);
-            }
-            break;
-        }
+  // Euler-Bernoulli solution that splits a Timoshenko deflection into parts
+  private solveBending(): SolvedBeamModel {
+    if (!this.bendingSolution) {
+      const definition = this.modelDefinition();
+      this.bendingSolution = solveBeamModel({
+        ...definition,
+        GAs: undefined,
+        sections: definition.sections?.map(section => ({ ...section, sectionAt: x => ({ ...section.sectionAt(x), GAs: undefined }) })),
       });
-      
-      return Number((deflection * BeamCalculator.DEFLECTION_TO_MM).toFixed(3));
     }
+    return this.bendingSolution;
+  }
 
-    // Regular beam calculations using FEM
-    // Use a finer mesh for better accuracy
-    const numElements = 50;
-    const numNodes = numElements + 1;
-    const dx = this.beamLength / numElements;
-    const totalDOFs = numNodes * 2;
-
-    // Initialize global stiffness matrix and force vector
-    const K: number[][] = Array(totalDOFs).fill(0).map(() => Array(totalDOFs).fill(0));
-    const F: number[] = Array(totalDOFs).fill(0);
-
-    // Element stiffness matrix (Euler-Bernoulli beam)
-    const EI = this.materialProps.elasticModulus * this.calculateSectionProperties().momentOfInertia;
-    const l = dx;
-    const factor = EI / Math.pow(l, 3);
-    const ke: number[][] = [
-      [12, 6 * l, -12, 6 * l],
-      [6 * l, 4 * Math.pow(l, 2), -6 * l, 2 * Math.pow(l, 2)],
-      [-12, -6 * l, 12, -6 * l],
-      [6 * l, 2 * Math.pow(l, 2), -6 * l, 4 * Math.pow(l, 2)]
-    ].map(row => row.map(value => value * factor));
-
-    // Assemble global stiffness matrix
-    for (let elem = 0; elem < numElements; elem++) {
-      const node1 = elem;
-      const node2 = elem + 1;
-      const dofs = [node1 * 2, node1 * 2 + 1, node2 * 2, node2 * 2 + 1];
-      for (let i = 0; i < 4; i++) {
-        for (let j = 0; j < 4; j++) {
-          K[dofs[i]][dofs[j]] += ke[i][j];
-        }
-      }
+  // Solution without P-delta effects, to measure their amplification
+  private solveFirstOrder(): SolvedBeamModel {
+    if (!this.firstOrderSolution) {
+      this.firstOrderSolution = solveBeamModel({ ...this.modelDefinition(), secondOrder: false });
     }
+    return this.firstOrderSolution;
+  }
 
-    // Apply boundary conditions
-    const applyBC = (node: number, isFixed: boolean) => {
-      if (node < 0 || node >= numNodes) return;
-      const dispDOF = node * 2;
-      const rotDOF = node * 2 + 1;
-      if (isFixed) {
-        K[dispDOF].fill(0); K[rotDOF].fill(0);
-        K[dispDOF][dispDOF] = 1; K[rotDOF][rotDOF] = 1;
-        F[dispDOF] = 0; F[rotDOF] = 0;
-      } else {
-        K[dispDOF].fill(0); K[dispDOF][dispDOF] = 1; F[dispDOF] = 0;
+  /**
+   * How much the P-delta analysis amplifies the largest bending moment and
+   * deflection over a first-order analysis; undefined unless it is enabled.
+   */
+  calculateAmplification(points: number = 200): SecondOrderAmplification | undefined {
+    if (!this.options.secondOrder) return undefined;
+    const secondOrder = this.solve();
+    const firstOrder = this.solveFirstOrder();
+    const peak = (model: SolvedBeamModel, quantity: 'moment' | 'deflection') => {
+      let max = 0;
+      for (let i = 0; i <= points; i++) {
+        max = Math.max(max, Math.abs(model.actionsAt((this.beamLength * i) / points)[quantity]));
       }
+      return max;
     };
+    const ratio = (quantity: 'moment' | 'deflection') => {
+      const first = peak(firstOrder, quantity);
+      return first > BeamCalculator.NEGLIGIBLE ? Number((peak(secondOrder, quantity) / first).toFixed(3)) : 1;
+    };
+    return { moment: ratio('moment'), deflection: ratio('deflection') };
+  }
 
-    const startNode = Math.max(0, Math.min(numNodes - 1, Math.round(this.startSupportPosition / dx)));
-    const endNode = Math.max(0, Math.min(numNodes - 1, Math.round(this.endSupportPosition / dx)));
-
-    // Handle free supports
-    if (this.startSupport === 'free') {
-      // No boundary conditions for free support
-    } else if (this.startSupport === 'fixed') {
-      applyBC(startNode, true);
-    } else if (this.startSupport === 'pin' || this.startSupport === 'roller') {
-      applyBC(startNode, false);
-    }
+  /** Stability and determinacy of the supports, hinges and foundations. */
+  checkStability(): StabilityCheck {
+    return checkStability(this.beamLength, this.supports, this.options.hinges, this.options.foundations);
+  }
 
-    if (this.endSupport === 'free') {
-      // No boundary conditions for free support
-    } else if (this.endSupport === 'fixed') {
-      applyBC(endNode, true);
-    } else if (this.endSupport === 'pin' || this.endSupport === 'roller') {
-      applyBC(endNode, false);
-    }
+  /** Sideways stability on the supports and hinges alone, or undefined without inclined loads. */
+  checkLateralStability(): StabilityCheck | undefined {
+    if (planeLoads(this.loads, 'lateral').length === 0) return undefined;
+    return checkStability(this.beamLength, this.supports, this.options.hinges);
+  }
 
-    // Apply loads to the global force vector
-    this.loads.forEach(load => {
-      if (load.type === 'point') {
-        // Find the element containing the load
-        const elem = Math.max(0, Math.min(numElements - 1, Math.floor(load.position / dx)));
-        const xLocal = load.position - elem * dx;
-        const node1 = elem;
-        const node2 = elem + 1;
-        // Shape functions for point load at xLocal in element [0, l]
-        const N1 = 1 - xLocal / l;
-        const N2 = xLocal / l;
-        if (node1 * 2 < totalDOFs) F[node1 * 2] += load.magnitude * N1;
-        if (node2 * 2 < totalDOFs) F[node2 * 2] += load.magnitude * N2;
-      } else if (load.type === 'distributed' && load.length) {
-        // Distribute load to all affected elements
-        let startElem = Math.max(0, Math.floor(load.position / dx));
-        let endElem = Math.min(numElements - 1, Math.ceil((load.position + load.length) / dx) - 1);
-        for (let elem = startElem; elem <= endElem; elem++) {
-          // Overlap of distributed load with this element
-          const elemStart = elem * dx;
-          const elemEnd = (elem + 1) * dx;
-          const overlapStart = Math.max(elemStart, load.position);
-          const overlapEnd = Math.min(elemEnd, load.position + load.length);
-          const overlap = Math.max(0, overlapEnd - overlapStart);
-          if (overlap > 0) {
-            const node1 = elem;
-            const node2 = elem + 1;
-            // Equivalent nodal forces for uniform load over overlap
-            const w = load.magnitude;
-            const L = elemEnd - elemStart;
-            const a = (overlapStart - elemStart) / L;
-            const b = (overlapEnd - elemStart) / L;
-            // Integrate shape functions over [a, b]
-            const f1 = w * L * (b - a) / 2;
-            const f2 = w * L * (b * b - a * a) / 2;
-            if (node1 * 2 < totalDOFs) F[node1 * 2] += f1;
-            if (node2 * 2 < totalDOFs) F[node2 * 2] += f1;
-            if (node1 * 2 + 1 < totalDOFs) F[node1 * 2 + 1] += f2 / 6;
-            if (node2 * 2 + 1 < totalDOFs) F[node2 * 2 + 1] -= f2 / 6;
-          }
-        }
-      } else if (load.type === 'moment') {
-        // Apply moment to nearest node
-        const node = Math.round(load.position / dx);
-        const momentDOF = node * 2 + 1;
-        if (momentDOF >= 0 && momentDOF < totalDOFs) {
-          F[momentDOF] += load.magnitude * (load.momentDirection === 'clockwise' ? 1 : -1);
-        }
+  /**
+   * Lateral-torsional and Euler buckling of the segments between supports and
+   * lateral braces, under the actions of `diagram`.
+   */
+  checkBuckling(braces: LateralBrace[], diagram: DiagramPoint[] = this.generateDiagramData()): BucklingSegment[] {
+    braces.forEach(brace => {
+      if (brace.position < 0 || brace.position > this.beamLength) {
+        throw new Error(`Lateral brace at ${brace.position} m must be within the beam length`);
       }
     });
+    return checkBuckling(this.beamLength, this.supports, braces, diagram, {
+      elasticModulus: this.materialProps.elasticModulus * 1e3,
+      shearModulus: this.materialProps.shearModulus * 1e3,
+      // The section at x, so stepped and tapered segments buckle with their own stiffness
+      sectionAt: x => {
+        const { momentOfInertia, momentOfInertiaY, torsionalConstant } = this.calculateSectionProperties(x);
+        const { height, width } = this.dimensionsAt(x);
+        return {
+          strongAxisInertia: momentOfInertia,
+          weakAxisInertia: momentOfInertiaY ?? momentOfInertia,
+          torsionalConstant,
+          warpingConstant: ((height / 1000) ** 3 * (width / 1000) ** 3) / 144,  // solid rectangle
+        };
+      },
+    });
+  }
+
+  // A mechanism has no unique solution, so its diagrams would only mislead
+  private assertStable(): void {
+    const { classification, issues } = this.checkStability();
+    if (classification === 'mechanism') throw new Error(`The beam is unstable. ${issues.join(' ')}`);
+  }
 
-    // Solve the system of equations
-    const U = this.solveLinearSystem(K, F);
-
-    // Interpolate deflection at x using shape functions
-    const elem = Math.max(0, Math.min(numElements - 1, Math.floor(x / dx)));
-    const xLocal = x - elem * dx;
-    const node1 = elem;
-    const node2 = elem + 1;
-    const l_elem = dx;
-    const xi = xLocal / l_elem;
-    // Hermite shape functions
-    const N1 = 1 - 3 * xi * xi + 2 * xi * xi * xi;
-    const N2 = l_elem * (xi - 2 * xi * xi + xi * xi * xi);
-    const N3 = 3 * xi * xi - 2 * xi * xi * xi;
-    const N4 = l_elem * (-xi * xi + xi * xi * xi);
-    let deflection = 0;
-    if (node1 * 2 < totalDOFs) deflection += U[node1 * 2] * N1;
-    if (node1 * 2 + 1 < totalDOFs) deflection += U[node1 * 2 + 1] * N2;
-    if (node2 * 2 < totalDOFs) deflection += U[node2 * 2] * N3;
-    if (node2 * 2 + 1 < totalDOFs) deflection += U[node2 * 2 + 1] * N4;
+  /**
+   * Stiffness solutions of other load sets on the same beam and supports,
+   * sharing one factorisation (influence lines, moving loads).
+   */
+  solveLoadSets(loadSets: Load[][]): SolvedBeamModel[] {
+    loadSets.forEach(loads => this.validateLoads(loads));
+    this.assertStable();
+    return solveBeamModelLoadSets(this.modelDefinition(), loadSets.map(loads => planeLoads(loads, 'vertical')));
+  }
 
-    // Return deflection in mm (downward positive)
-    return Number((deflection * BeamCalculator.DEFLECTION_TO_MM).toFixed(3));
+  /**
+   * Natural frequencies and mode shapes of vertical bending. The vibrating
+   * mass is the beam's own, from the density, plus the weight of the dead
+   * loads and `liveLoadMassFactor` times the weight of the live loads.
+   * Self-weight loads are left out, the density already giving that mass.
+   */
+  calculateVibrationModes(count: number, liveLoadMassFactor: number = 0): VibrationMode[] {
+    if (!(count >= 1)) throw new Error('At least one vibration mode is required');
+    const mass = this.vibratingMass(liveLoadMassFactor);
+    this.assertStable();
+    return solveVibrationModes(assembleDynamicSystem(this.modelDefinition(), mass), Math.floor(count));
   }
 
-  private solveLinearSystem(K: number[][], F: number[]): number[] {
-    const n = F.length;
-  
-    // Validate input dimensions
-    if (!K || !F) {
-      throw new Error("Stiffness matrix (K) or force vector (F) is undefined.");
+  /**
+   * Displacement and acceleration histories at `responsePositions` under a
+   * dynamic force, from rest, with the vibrating mass of the modal analysis.
+   */
+  calculateTimeHistory(
+    load: DynamicLoad,
+    responsePositions: number[],
+    settings: TimeHistorySettings,
+    liveLoadMassFactor: number = 0
+  ): TimeHistoryResponse {
+    [load.position, ...responsePositions].forEach(position => {
+      if (position < 0 || position > this.beamLength) {
+        throw new Error(`Dynamic load and response positions must be within beam length (0 to ${this.beamLength})`);
+      }
+    });
+    if (!(settings.duration > 0)) throw new Error('Duration must be positive');
+    if (!(settings.timeStep > 0 && settings.timeStep <= settings.duration)) {
+      throw new Error('Time step must be positive and no longer than the duration');
     }
-    if (K.length !== n || K[0].length !== n) {
-      throw new Error(`Stiffness matrix (K) must be an ${n} x ${n} matrix.`);
+    if (!(settings.dampingRatio >= 0 && settings.dampingRatio < 1)) {
+      throw new Error('Damping ratio must be at least 0 and less than 1');
     }
-  
-    // Create a copy of the input matrices to avoid modifying the originals
-    const augmented: number[][] = K.map(row => [...row]);
-    const f = [...F];
-  
-    // Perform Gaussian elimination with partial pivoting
-    for (let i = 0; i < n; i++) {
-      // Find the row with the maximum element in the current column
-      let maxRow = i;
-      let maxVal = Math.abs(augmented[i][i]);
-      for (let j = i + 1; j < n; j++) {
-        const val = Math.abs(augmented[j][i]);
-        if (val > maxVal) {
-          maxVal = val;
-          maxRow = j;
-        }
-      }
-  
-      // Swap rows if necessary
-      if (maxRow !== i) {
-        [augmented[i], augmented[maxRow]] = [augmented[maxRow], augmented[i]];
-        [f[i], f[maxRow]] = [f[maxRow], f[i]];
-      }
-  
-      // Check for singular matrix
-      if (Math.abs(augmented[i][i]) < BeamCalculator.NEGLIGIBLE) {
-        throw new Error("Matrix is singular or nearly singular. Check support conditions and load application.");
-      }
-  
-      // Eliminate column i from rows i+1 to n-1
-      for (let j = i + 1; j < n; j++) {
-        const factor = augmented[j][i] / augmented[i][i];
-        f[j] -= factor * f[i];
-        for (let k = i; k < n; k++) {
-          augmented[j][k] -= factor * augmented[i][k];
-        }
-      }
+    this.validateForceHistory(load.history);
+    const mass = this.vibratingMass(liveLoadMassFactor);
+    this.assertStable();
+    const system = assembleDynamicSystem(this.modelDefinition(), mass, [load.position, ...responsePositions]);
+    return solveTimeHistory(system, t => forceAt(load.history, t), load.position, responsePositions, settings);
+  }
+
+  private validateForceHistory(history: ForceHistory): void {
+    switch (history.type) {
+      case 'harmonic':
+        if (!(history.frequency > 0)) throw new Error('Harmonic load frequency must be positive');
+        break;
+      case 'impulse':
+        if (!(history.duration > 0)) throw new Error('Impulse duration must be positive');
+        break;
+      case 'table':
+        if (history.points.length < 2) throw new Error('A force history table needs at least two points');
+        history.points.forEach((point, i) => {
+          if (i > 0 && !(point.time > history.points[i - 1].time)) {
+            throw new Error('Force history times must increase');
+          }
+        });
+        break;
     }
-  
-    // Back substitution
-    const U: number[] = new Array(n).fill(0);
-    for (let i = n - 1; i >= 0; i--) {
-      let sum = 0;
-      for (let j = i + 1; j < n; j++) {
-        sum += augmented[i][j] * U[j];
-      }
-      U[i] = (f[i] - sum) / augmented[i][i];
+  }
+
+  private vibratingMass(liveLoadMassFactor: number): BeamMass {
+    if (!(liveLoadMassFactor >= 0 && liveLoadMassFactor <= 1)) {
+      throw new Error('Live load mass factor must be between 0 and 1');
     }
-  
-    return U;
+    if ((this.materialProps.density ?? 0) < 0) throw new Error('Density cannot be negative');
+    const massFactor = (load: Load) => {
+      const loadCase = load.loadCase ?? 'D';
+      return loadCase === 'D' ? 1 : loadCase === 'L' ? liveLoadMassFactor : 0;
+    };
+    // Only downward loads are weights
+    const isGravity = (load: Load) =>
+      (load.type === 'point' || load.type === 'distributed' || load.type === 'linear') &&
+      load.magnitude >= 0 && (load.endMagnitude ?? 0) >= 0;
+    return {
+      // kg/m³·m² → t/m
+      perLength: x => ((this.materialProps.density ?? 0) * this.calculateSectionProperties(x).area) / 1000,
+      loads: this.loads
+        .filter(load => isGravity(load) && massFactor(load) > 0 && !load.selfWeight)
+        .map(load => ({
+          ...load,
+          magnitude: load.magnitude * massFactor(load),
+          endMagnitude: load.endMagnitude === undefined ? undefined : load.endMagnitude * massFactor(load),
+        })),
+    };
   }
 
-  calculateTorsion(x: number): number {
-    if (x < 0 || x > this.beamLength) return 0;
+  // Rigidities of the section at x, or of the beam height and width when x is omitted
+  private sectionRigidities(x?: number, plane: BendingPlane = 'vertical'): SectionRigidities {
+    const { area, momentOfInertia, momentOfInertiaY, torsionalConstant } = this.calculateSectionProperties(x);
+    const { height, width } = this.dimensionsAt(x);
+    const shearAreaFactor = this.options.shearAreaFactor ?? BeamCalculator.RECTANGULAR_SHEAR_AREA_FACTOR;
+    return {
+      // MPa·m⁴ → kN·m²
+      EI: this.materialProps.elasticModulus * 1e3 * (plane === 'lateral' ? momentOfInertiaY ?? momentOfInertia : momentOfInertia),
+      GJ: this.materialProps.shearModulus * 1e3 * torsionalConstant,
+      // MPa·m² → kN
+      EA: this.materialProps.elasticModulus * 1e3 * area,
+      GAs: this.options.shearDeformation ? this.materialProps.shearModulus * 1e3 * shearAreaFactor * area : undefined,
+      depth: (plane === 'lateral' ? width : height) / 1000,
+    };
+  }
 
-    let torsion = 0;
-    this.loads.forEach(load => {
-      if (load.type !== 'torsion' || x <= load.position) return;
-      torsion += load.magnitude * (load.momentDirection === 'clockwise' ? 1 : -1);
-    });
+  // With cracked-section analysis on, each stretch carries its effective stiffness
+  private modelDefinition(): BeamModelDefinition {
+    const definition = this.grossDefinition();
+    return this.options.crackedSection ? { ...definition, sections: this.effectiveSections() } : definition;
+  }
+
+  private grossDefinition(): BeamModelDefinition {
+    const { depth, ...rigidities } = this.sectionRigidities();
+    return {
+      length: this.beamLength,
+      ...rigidities,
+      // Imposed movements are left out of unit-load and span-by-span analyses
+      supports: this.options.supportMovements === false
+        ? this.supports.map(({ settlement, imposedRotation, ...support }) => support)
+        : this.supports,
+      loads: planeLoads(this.loads, 'vertical'),
+      meshDensity: this.options.meshDensity ?? BeamCalculator.MESH_ELEMENTS,
+      foundations: this.options.foundations,
+      hinges: this.options.hinges?.map(hinge => hinge.position),
+      thermal: this.materialProps.thermalExpansion
+        ? { expansion: this.materialProps.thermalExpansion, depth }
+        : undefined,
+      secondOrder: this.options.secondOrder,
+      sections: this.segments.map(({ start, end }) => ({ start, end, sectionAt: x => this.sectionRigidities(x) })),
+    };
+  }
+
+  // Gross and cracked properties of the reinforced section at x, the bottom bars keeping their cover
+  private crackedPropertiesAt(x: number, reinforcement: ProvidedReinforcement): CrackedSectionProperties {
+    const { height, width } = this.dimensionsAt(x);
+    return crackedSectionProperties(
+      {
+        width,
+        height,
+        tensionSteel: reinforcement.tensionSteel,
+        effectiveDepth: height - (this.beamHeight - reinforcement.effectiveDepth),
+        compressionSteel: reinforcement.compressionSteel,
+        compressionDepth: reinforcement.compressionDepth,
+      },
+      reinforcement.concreteStrength,
+      this.materialProps.elasticModulus
+    );
+  }
+
+  /**
+   * Sections with the ACI 318-19 effective inertia. Ma is the largest service
+   * moment of the same sign within the span (24.2.3.5), so the sagging and
+   * hogging regions of each span take one stiffness each. The moments
+   * themselves depend on the stiffness along an indeterminate beam: reanalyse
+   * from the gross section until the peak deflection settles.
+   */
+  private effectiveSections(): SectionSegment[] {
+    const reinforcement = this.options.crackedSection;
+    if (!reinforcement) return [];
+    if (!this.crackedSections) {
+      const sample = BeamCalculator.MESH_ELEMENTS;
+      const peakDeflection = (model: SolvedBeamModel) => {
+        let max = 0;
+        for (let i = 0; i <= sample; i++) {
+          max = Math.max(max, Math.abs(model.actionsAt((this.beamLength * i) / sample).deflection));
+        }
+        return max;
+      };
+      const edges = [0, ...this.supports.map(support => support.position), this.beamLength]
+        .filter((x, i, all) => x >= 0 && x <= this.beamLength && (i === 0 || x - all[i - 1] > BeamCalculator.MESH_TOLERANCE));
+      // Largest sagging and hogging moments of each span
+      const spanMoments = (model: SolvedBeamModel) => edges.slice(1).map((end, i) => {
+        const start = edges[i];
+        let sagging = 0;
+        let hogging = 0;
+        for (let j = 0; j <= sample; j++) {
+          const moment = model.actionsAt(start + ((end - start) * j) / sample).moment;
+          sagging = Math.max(sagging, moment);
+          hogging = Math.min(hogging, moment);
+        }
+        return { start, sagging, hogging };
+      });
 
-    return Number(torsion.toFixed(3));
+      let model = solveBeamModel(this.grossDefinition());
+      let previous = peakDeflection(model);
+      for (let iteration = 0; ; iteration++) {
+        if (iteration >= BeamCalculator.MAX_CRACKING_ITERATIONS) {
+          throw new Error('Cracked-section deflections did not converge. Check the loads and reinforcement.');
+        }
+        const moments = model;
+        const spans = spanMoments(model);
+        const serviceMoment = (x: number) => {
+          const span = spans.filter(s => s.start <= x + BeamCalculator.MESH_TOLERANCE).pop() ?? spans[0];
+          return moments.actionsAt(x).moment >= 0 ? span.sagging : span.hogging;
+        };
+        const sections = this.stretches().map(({ start, end }) => ({
+          start,
+          end,
+          sectionAt: (x: number) => ({
+            ...this.sectionRigidities(x),
+            // MPa·mm⁴ → kN·m²
+            EI: this.materialProps.elasticModulus * 1e-9 * effectiveInertia(this.crackedPropertiesAt(x, reinforcement), serviceMoment(x)),
+          }),
+        }));
+        model = solveBeamModel({ ...this.grossDefinition(), sections });
+        const current = peakDeflection(model);
+        this.crackedSections = sections;
+        if (Math.abs(current - previous) <= BeamCalculator.CRACKING_TOLERANCE * Math.max(current, BeamCalculator.NEGLIGIBLE)) break;
+        previous = current;
+      }
+    }
+    return this.crackedSections;
   }
 
-  calculateStresses(x: number): {
-    normalStress: number;
-    shearStress: number;
-    torsionalStress: number;
-    vonMisesStress: number;
-  } {
-    const { sectionModulus, torsionalConstant } = this.calculateSectionProperties();
-    const moment = this.calculateMoment(x);
-    const shear = this.calculateShear(x);
-    const torsion = this.calculateTorsion(x);
+  /** Ie/Ig at x under cracked-section analysis, or undefined when it is off. */
+  calculateEffectiveInertiaRatio(x: number): number | undefined {
+    const reinforcement = this.options.crackedSection;
+    if (!reinforcement) return undefined;
+    const section = this.effectiveSections().filter(s => s.start <= x + BeamCalculator.MESH_TOLERANCE).pop();
+    if (!section) return undefined;
+    return section.sectionAt(x).EI / this.sectionRigidities(x).EI;
+  }
 
-    // Convert beam dimensions to m for consistent units
-    const height_m = this.beamHeight / 1000;
-    const width_m = this.beamWidth / 1000;
+  calculateStresses(x: number): BeamStresses {
+    const lateral = this.solveLateral()?.actionsAt(x);
+    return this.stressesFrom(
+      this.calculateMoment(x),
+      this.calculateShear(x),
+      this.calculateTorsion(x),
+      this.calculateAxialForce(x),
+      x,
+      lateral && { moment: lateral.moment, shear: lateral.shear }
+    );
+  }
 
-    const normalStress = (moment / sectionModulus) * BeamCalculator.STRESS_TO_MPA;
-    const shearStress = (3 * shear) / (2 * width_m * height_m) * BeamCalculator.STRESS_TO_MPA;
+  /**
+   * Stresses on the section at x, or on the beam height and width when x is
+   * omitted, with the weak-axis moment and shear of `lateral` when given.
+   */
+  private stressesFrom(
+    moment: number,
+    shear: number,
+    torsion: number,
+    axial: number = 0,
+    x?: number,
+    lateral?: { moment: number; shear: number }
+  ): BeamStresses {
+    const { area, sectionModulus, sectionModulusY, torsionalConstant } = this.calculateSectionProperties(x);
+
+    // Convert section dimensions to m for consistent units
+    const { height, width } = this.dimensionsAt(x);
+    const height_m = height / 1000;
+    const width_m = width / 1000;
+
+    // Sagging moment stretches the bottom face; a lateral moment adds to it
+    // at the corner on one side or the other
+    const lateralStress = lateral ? Math.abs(lateral.moment) / (sectionModulusY ?? sectionModulus) : 0;
+    const atCorner = (face: number) => face + (face < 0 ? -lateralStress : lateralStress);
+    const bottom = atCorner(axial / area + moment / sectionModulus);
+    const top = atCorner(axial / area - moment / sectionModulus);
+    const normalStress = (Math.abs(top) > Math.abs(bottom) ? top : bottom) * BeamCalculator.STRESS_TO_MPA;
+    // Both shear stress distributions peak at the centroid
+    const resultantShear = lateral ? (shear < 0 ? -1 : 1) * Math.hypot(shear, lateral.shear) : shear;
+    const shearStress = (3 * resultantShear) / (2 * width_m * height_m) * BeamCalculator.STRESS_TO_MPA;
     const torsionalStress = (torsion * height_m) / (2 * torsionalConstant) * BeamCalculator.STRESS_TO_MPA;
 
     const vonMises = Math.sqrt(
@@ -677,21 +796,48 @@ export class BeamCalculator {
     };
   }
 
-  generateDiagramData(points: number = 100): DiagramPoint[] {
+  generateDiagramData(points: number = 200): DiagramPoint[] {
+    const model = this.solve();
+    const bending = this.options.shearDeformation ? this.solveBending() : undefined;
+    const onFoundation = (this.options.foundations?.length ?? 0) > 0;
+    const cracked = this.options.crackedSection !== undefined;
+    const lateral = this.solveLateral();
     const diagramPoints: DiagramPoint[] = [];
-    const dx = this.beamLength / points;
 
-    for (let x = 0; x <= this.beamLength; x += dx) {
+    for (let i = 0; i <= points; i++) {
+      const x = (this.beamLength * i) / points;
+      const actions = model.actionsAt(x);
+      const shear = Number(actions.shear.toFixed(3));
+      const moment = Number(actions.moment.toFixed(3));
+      const torsion = Number(actions.torsion.toFixed(3));
+      const axialForce = Number(actions.axial.toFixed(3));
+      const lateralActions = lateral?.actionsAt(x);
+      const lateralForces = lateralActions && {
+        shear: Number(lateralActions.shear.toFixed(3)),
+        moment: Number(lateralActions.moment.toFixed(3)),
+      };
       diagramPoints.push({
         position: Number(x.toFixed(6)),
-        shear: this.calculateShear(x),
-        moment: this.calculateMoment(x),
-        torsion: this.calculateTorsion(x),
-        deflection: this.calculateDeflection(x),
-        ...this.calculateStresses(x),
+        shear,
+        moment,
+        torsion,
+        axialForce,
+        rotation: Number(actions.rotation.toFixed(6)),
+        deflection: Number((actions.deflection * BeamCalculator.DEFLECTION_TO_MM).toFixed(3)),
+        ...(bending && {
+          shearDeflection: Number(((actions.deflection - bending.actionsAt(x).deflection) * BeamCalculator.DEFLECTION_TO_MM).toFixed(3)),
+        }),
+        ...(lateralActions && lateralForces && {
+          shearY: lateralForces.shear,
+          momentY: lateralForces.moment,
+          deflectionY: Number((lateralActions.deflection * BeamCalculator.DEFLECTION_TO_MM).toFixed(3)),
+        }),
+        ...this.stressesFrom(moment, shear, torsion, axialForce, x, lateralForces),
+        ...(onFoundation && { soilPressure: Number(model.soilPressureAt(x).toFixed(3)) }),
+        ...(cracked && { effectiveInertiaRatio: Number((this.calculateEffectiveInertiaRatio(x) ?? 1).toFixed(4)) }),
       });
     }
 
     return diagramPoints;
   }
-}
\ No newline at end of file
+}
@@ -30,6 +30,8 @@ interface UseBeamSectionAnalysisProps {
     axialForce: number;
     shearForce: number;
     bendingMoment: number;
+    shearForceY?: number;
+    bendingMomentY?: number;
     torsion: number;
   };
 }
@@ -64,9 +66,9 @@ export function useBeamSectionAnalysis({
   const [appliedLoads, setAppliedLoads] = useState<AppliedLoads>({
     axialForce: loads.axialForce,
     shearForceX: loads.shearForce,
-    shearForceY: 0,
+    shearForceY: loads.shearForceY ?? 0,
     bendingMomentX: loads.bendingMoment,
-    bendingMomentY: 0,
+    bendingMomentY: loads.bendingMomentY ?? 0,
     torsion: loads.torsion,
     distributedLoad: 0
   });
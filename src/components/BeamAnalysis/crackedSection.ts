@@ -0,0 +1,78 @@
+// crackedSection.ts
+// Flexural stiffness of cracked reinforced concrete rectangles for service
+// deflections: cracking moment, cracked transformed inertia and the
+// effective moment of inertia of ACI 318-19 Section 24.2.3.
+
+import { E_s } from './BeamReinforcementCalculations';
+
+export interface ReinforcedSection {
+  width: number;             // mm
+  height: number;            // mm
+  tensionSteel: number;      // mm², bottom bars
+  effectiveDepth: number;    // mm, from the top face to the bottom bars
+  compressionSteel: number;  // mm², top bars; none for a singly reinforced section
+  compressionDepth: number;  // mm, from the top face to the top bars
+}
+
+export interface CrackedSectionProperties {
+  grossInertia: number;     // mm⁴, of the concrete alone
+  crackingMoment: number;   // kN·m, either way since the section is symmetric
+  crackedInertia: {         // mm⁴
+    sagging: number;
+    hogging: number;
+  };
+}
+
+/** Modulus of rupture of normalweight concrete, MPa, ACI 318-19 Eq. 19.2.3.1. */
+export const modulusOfRupture = (concreteStrength: number) => 0.62 * Math.sqrt(concreteStrength);
+
+/**
+ * Inertia of the cracked transformed section about its neutral axis, mm⁴:
+ * concrete above the neutral axis, the tension bars at n·As and the
+ * compression bars at (n − 1)·As', n being Es/Ec.
+ */
+function transformedInertia(width: number, tensionSteel: number, depth: number, compressionSteel: number, compressionDepth: number, n: number): number {
+  // Neutral axis depth c from b·c²/2 + (n − 1)·As'·(c − d') = n·As·(d − c)
+  const a = width / 2;
+  const b = (n - 1) * compressionSteel + n * tensionSteel;
+  const c0 = -((n - 1) * compressionSteel * compressionDepth + n * tensionSteel * depth);
+  const c = (-b + Math.sqrt(b * b - 4 * a * c0)) / (2 * a);
+  return (width * c ** 3) / 3 + (n - 1) * compressionSteel * (c - compressionDepth) ** 2 + n * tensionSteel * (depth - c) ** 2;
+}
+
+/**
+ * Gross and cracked properties of a section in concrete of strength
+ * `concreteStrength` (MPa) and elastic modulus `concreteModulus` (MPa).
+ * Hogging moments put the top bars in tension; a section without top bars
+ * takes the bottom bars mirrored, as one reinforcement layout serves the
+ * whole beam.
+ */
+export function crackedSectionProperties(section: ReinforcedSection, concreteStrength: number, concreteModulus: number): CrackedSectionProperties {
+  const { width, height, tensionSteel, effectiveDepth, compressionSteel, compressionDepth } = section;
+  const n = E_s / concreteModulus;
+  const grossInertia = (width * height ** 3) / 12;
+  const hogging = compressionSteel > 0
+    ? transformedInertia(width, compressionSteel, height - compressionDepth, tensionSteel, height - effectiveDepth, n)
+    : transformedInertia(width, tensionSteel, effectiveDepth, 0, 0, n);
+  return {
+    grossInertia,
+    // N·mm → kN·m
+    crackingMoment: (modulusOfRupture(concreteStrength) * grossInertia) / (height / 2) / 1e6,
+    crackedInertia: {
+      sagging: transformedInertia(width, tensionSteel, effectiveDepth, compressionSteel, compressionDepth, n),
+      hogging,
+    },
+  };
+}
+
+/**
+ * Effective moment of inertia, mm⁴, under the service moment `moment`
+ * (kN·m, sagging positive), ACI 318-19 Table 24.2.3.5:
+ * Ie = Icr / (1 − ((2/3)·Mcr / Ma)²·(1 − Icr / Ig)), or Ig while Ma ≤ (2/3)·Mcr.
+ */
+export function effectiveInertia({ grossInertia, crackingMoment, crackedInertia }: CrackedSectionProperties, moment: number): number {
+  const Ma = Math.abs(moment);
+  if (Ma <= (2 / 3) * crackingMoment) return grossInertia;
+  const Icr = moment >= 0 ? crackedInertia.sagging : crackedInertia.hogging;
+  return Math.min(grossInertia, Icr / (1 - ((2 / 3) * crackingMoment / Ma) ** 2 * (1 - Icr / grossInertia)));
+}
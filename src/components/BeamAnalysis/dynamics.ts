@@ -0,0 +1,305 @@
+// dynamics.ts
+// Vibration of the beam from the stiffness and consistent mass of the
+// stiffness model: natural frequencies, mode shapes and modal masses, and
+// the response to a dynamic force by direct time integration.
+
+import { BandedFactorization, BandedMatrix, DOFS_PER_NODE, DynamicSystem } from './stiffnessModel';
+import { ForceHistory, TimeHistoryResponse, TimeHistorySettings, VibrationMode } from './types';
+
+const MAX_SUBSPACE_ITERATIONS = 100;
+const EIGENVALUE_TOLERANCE = 1e-10;  // relative change that ends the subspace iteration
+const MAX_JACOBI_SWEEPS = 50;
+const MAX_TIME_STEPS = 20000;
+const POSITION_TOLERANCE = 1e-6;
+
+// Average acceleration: unconditionally stable, with no numerical damping
+const NEWMARK_GAMMA = 1 / 2;
+const NEWMARK_BETA = 1 / 4;
+
+/** A·x straight from the stored lower band, mirroring each entry for the upper one. */
+function multiply(A: BandedMatrix, x: number[]): number[] {
+  const { size, bandwidth, values } = A;
+  const y = new Array<number>(size).fill(0);
+  for (let i = 0; i < size; i++) {
+    const row = i * (bandwidth + 1);
+    y[i] += values[row] * x[i];
+    for (let offset = 1; offset <= Math.min(bandwidth, i); offset++) {
+      const aij = values[row + offset];
+      y[i] += aij * x[i - offset];
+      y[i - offset] += aij * x[i];
+    }
+  }
+  return y;
+}
+
+const dot = (x: number[], y: number[]) => x.reduce((sum, xi, i) => sum + xi * y[i], 0);
+
+/** Eigenvalues and eigenvectors (as columns) of a small symmetric matrix, by cyclic Jacobi rotations. */
+function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length;
+  const A = matrix.map(row => [...row]);
+  const V = A.map((_, i) => A.map((__, j): number => (i === j ? 1 : 0)));
+  for (let sweep = 0; sweep < MAX_JACOBI_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) offDiagonal += A[p][q] ** 2;
+    const scale = A.reduce((sum, row, i) => sum + row[i] ** 2, 0);
+    if (offDiagonal <= 1e-24 * scale) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (A[p][q] === 0) continue;
+        const theta = (A[q][q] - A[p][p]) / (2 * A[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = A[k][p];
+          const akq = A[k][q];
+          A[k][p] = c * akp - s * akq;
+          A[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = A[p][k];
+          const aqk = A[q][k];
+          A[p][k] = c * apk - s * aqk;
+          A[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = V[k][p];
+          const vkq = V[k][q];
+          V[k][p] = c * vkp - s * vkq;
+          V[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  return { values: A.map((row, i) => row[i]), vectors: V };
+}
+
+/**
+ * Solves K·q = λ·M·q for small symmetric K and positive definite M through
+ * the Cholesky factor of M, with the eigenvectors M-orthonormal.
+ */
+function generalizedEigen(K: number[][], M: number[][]): { values: number[]; vectors: number[][] } {
+  const n = M.length;
+  const L = M.map(() => new Array<number>(n).fill(0));
+  for (let j = 0; j < n; j++) {
+    let d = M[j][j];
+    for (let k = 0; k < j; k++) d -= L[j][k] ** 2;
+    if (!(d > 0)) throw new Error('The trial vectors of the modal analysis became dependent. Check the mass and supports.');
+    L[j][j] = Math.sqrt(d);
+    for (let i = j + 1; i < n; i++) {
+      let lij = M[i][j];
+      for (let k = 0; k < j; k++) lij -= L[i][k] * L[j][k];
+      L[i][j] = lij / L[j][j];
+    }
+  }
+  // Columns of L⁻¹·K, then rows: A = L⁻¹·K·L⁻ᵀ
+  const forward = (b: number[]) => {
+    const x = [...b];
+    for (let i = 0; i < n; i++) {
+      for (let k = 0; k < i; k++) x[i] -= L[i][k] * x[k];
+      x[i] /= L[i][i];
+    }
+    return x;
+  };
+  const B = K.map((_, j) => forward(K.map(row => row[j])));  // B[j] = column j of L⁻¹·K
+  const A = B.map((_, i) => forward(B.map(column => column[i])));
+  const { values, vectors } = symmetricEigen(A.map((row, i) => row.map((aij, j) => (aij + A[j][i]) / 2)));
+  // q = L⁻ᵀ·z
+  const backward = (z: number[]) => {
+    const x = [...z];
+    for (let i = n - 1; i >= 0; i--) {
+      for (let k = i + 1; k < n; k++) x[i] -= L[k][i] * x[k];
+      x[i] /= L[i][i];
+    }
+    return x;
+  };
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const columns = order.map(i => backward(vectors.map(row => row[i])));
+  return { values: order.map(i => values[i]), vectors: columns };
+}
+
+/**
+ * The lowest `count` vertical bending modes by subspace iteration: a block of
+ * trial vectors is repeatedly passed through K⁻¹·M and re-orthogonalised by
+ * a Rayleigh-Ritz analysis, so closely spaced modes (equal spans) converge
+ * together.
+ */
+export function solveVibrationModes(system: DynamicSystem, count: number): VibrationMode[] {
+  const { nodes, M, totalMass, factorization } = system;
+  const size = M.size;
+  const massive = Array.from({ length: size }, (_, i) => M.get(i, i) > 0);
+  const massiveDOFs = massive.filter(Boolean).length;
+  const modeCount = Math.min(count, massiveDOFs);
+  if (modeCount === 0) throw new Error('The beam has no mass to vibrate. Give the material a density or add dead loads.');
+  const blockSize = Math.min(massiveDOFs, Math.max(2 * modeCount, modeCount + 8));
+
+  // Smooth trial shapes with a different number of half-waves each
+  const length = nodes[nodes.length - 1] - nodes[0];
+  let X = Array.from({ length: blockSize }, (_, j) => Array.from({ length: size }, (__, i) => {
+    if (!massive[i] || i % DOFS_PER_NODE !== 0) return 0;
+    const s = (nodes[i / DOFS_PER_NODE] - nodes[0]) / length;
+    return Math.sin((j + 1) * Math.PI * s) + 0.5 * Math.cos((j + 1) * Math.PI * s);
+  }));
+
+  let eigenvalues: number[] = [];
+  for (let iteration = 0; ; iteration++) {
+    const MX = X.map(x => multiply(M, x));
+    const Y = MX.map(f => factorization.solve(f));
+    const MY = Y.map(y => multiply(M, y));
+    // Since K·Y = M·X, the projected stiffness needs no product with K
+    const Kr = Y.map(yi => MX.map(mxj => dot(yi, mxj)));
+    const Mr = Y.map(yi => MY.map(myj => dot(yi, myj)));
+    const { values, vectors } = generalizedEigen(Kr, Mr);
+    X = vectors.map(q => Y[0].map((_, k) => q.reduce((sum, qj, j) => sum + qj * Y[j][k], 0)));
+
+    const converged = eigenvalues.length > 0 && values.slice(0, modeCount).every((value, i) =>
+      Math.abs(value - eigenvalues[i]) <= EIGENVALUE_TOLERANCE * Math.abs(value)
+    );
+    eigenvalues = values;
+    if (converged) break;
+    if (iteration >= MAX_SUBSPACE_ITERATIONS) {
+      throw new Error('The modal analysis did not converge. Check the supports and mass.');
+    }
+  }
+
+  // Rigid-body translation of the vertical DOFs, for the effective modal mass
+  const translation = Array.from({ length: size }, (_, i) => (i % DOFS_PER_NODE === 0 ? 1 : 0));
+
+  return X.slice(0, modeCount).map((phi, i) => {
+    const omega = Math.sqrt(Math.max(0, eigenvalues[i]));
+    const Mphi = multiply(M, phi);
+    const participation = dot(translation, Mphi);
+    const deflections = nodes.map((_, node) => phi[node * DOFS_PER_NODE]);
+    const peak = deflections.reduce((best, value) => (Math.abs(value) > Math.abs(best) ? value : best), 0);
+    return {
+      number: i + 1,
+      frequency: Number((omega / (2 * Math.PI)).toFixed(4)),
+      period: Number(((2 * Math.PI) / omega).toFixed(5)),
+      effectiveMassRatio: totalMass > 0 ? Number(((participation ** 2 / dot(phi, Mphi)) / totalMass).toFixed(4)) : 0,
+      shape: nodes.map((position, node) => ({
+        position,
+        deflection: peak === 0 ? 0 : Number((deflections[node] / peak).toFixed(5)),
+      })),
+    };
+  });
+}
+
+/** Force of a history at time t, in kN. */
+export function forceAt(history: ForceHistory, t: number): number {
+  switch (history.type) {
+    case 'harmonic':
+      return history.amplitude * Math.sin(2 * Math.PI * history.frequency * t);
+    case 'impulse':
+      return t <= history.duration ? history.amplitude * Math.sin((Math.PI * t) / history.duration) : 0;
+    case 'table': {
+      const { points } = history;
+      const after = points.findIndex(point => point.time >= t);
+      if (after < 0 || (after === 0 && points[0].time > t)) return 0;
+      if (after === 0) return points[0].force;
+      const before = points[after - 1];
+      const next = points[after];
+      return before.force + ((next.force - before.force) * (t - before.time)) / (next.time - before.time);
+    }
+  }
+}
+
+/** Linear combination Σ c·A of banded matrices with the same layout. */
+function combine(...terms: [BandedMatrix, number][]): BandedMatrix {
+  const [[first]] = terms;
+  const result = new BandedMatrix(first.size, first.bandwidth);
+  terms.forEach(([A, c]) => A.values.forEach((value, i) => {
+    result.values[i] += c * value;
+  }));
+  return result;
+}
+
+/**
+ * Response to a downward force `force(t)` at `position`, starting from rest,
+ * by Newmark-β integration with Rayleigh damping C = a·M + b·K chosen to give
+ * `dampingRatio` in the first two modes (higher modes are damped more).
+ * Displacements and accelerations are recorded at `responsePositions`, which
+ * like `position` must be mesh nodes.
+ */
+export function solveTimeHistory(
+  system: DynamicSystem,
+  force: (t: number) => number,
+  position: number,
+  responsePositions: number[],
+  { duration, timeStep, dampingRatio }: TimeHistorySettings
+): TimeHistoryResponse {
+  const { nodes, K, M } = system;
+  const steps = Math.round(duration / timeStep);
+  if (steps > MAX_TIME_STEPS) {
+    throw new Error(`The time history needs ${steps} steps; lengthen the time step or shorten the duration to keep within ${MAX_TIME_STEPS}.`);
+  }
+  const dofAt = (x: number) => {
+    const node = nodes.findIndex(node => Math.abs(node - x) <= POSITION_TOLERANCE);
+    if (node < 0) throw new Error(`No mesh node at ${x} m`);
+    return node * DOFS_PER_NODE;
+  };
+  const loadDOF = dofAt(position);
+  const responseDOFs = responsePositions.map(dofAt);
+
+  const modes = solveVibrationModes(system, 2);
+  const omega1 = 2 * Math.PI * modes[0].frequency;
+  const omega2 = 2 * Math.PI * (modes[1] ?? modes[0]).frequency;
+  const massDamping = (2 * dampingRatio * omega1 * omega2) / (omega1 + omega2);
+  const stiffnessDamping = (2 * dampingRatio) / (omega1 + omega2);
+  const C = combine([M, massDamping], [K, stiffnessDamping]);
+
+  const dt = timeStep;
+  const gamma = NEWMARK_GAMMA;
+  const beta = NEWMARK_BETA;
+  // u(n+1) from K̂·u(n+1) = p(n+1) + M·(m1·u + m2·v + m3·a) + C·(c1·u + c2·v + c3·a)
+  const [m1, m2, m3] = [1 / (beta * dt * dt), 1 / (beta * dt), 1 / (2 * beta) - 1];
+  const [c1, c2, c3] = [gamma / (beta * dt), gamma / beta - 1, dt * (gamma / (2 * beta) - 1)];
+  const effective = new BandedFactorization(combine([K, 1], [M, m1], [C, c1]));
+
+  const size = K.size;
+  let u = new Array<number>(size).fill(0);
+  let v = new Array<number>(size).fill(0);
+  let a = new Array<number>(size).fill(0);
+  // A force present at t = 0 accelerates the beam from rest: M·a = p(0)
+  const initialForce = force(0);
+  if (initialForce !== 0 && M.get(loadDOF, loadDOF) > 0) {
+    const massOnly = M.clone();
+    for (let i = 0; i < size; i++) if (!(massOnly.get(i, i) > 0)) massOnly.set(i, i, 1);
+    const p = new Array<number>(size).fill(0);
+    p[loadDOF] = initialForce;
+    a = new BandedFactorization(massOnly).solve(p);
+  }
+
+  const time = [0];
+  const displacement = responseDOFs.map(() => [0]);
+  const acceleration = responseDOFs.map(dof => [a[dof]]);
+  for (let n = 1; n <= steps; n++) {
+    const t = n * dt;
+    const inertia = multiply(M, u.map((ui, i) => m1 * ui + m2 * v[i] + m3 * a[i]));
+    const damping = multiply(C, u.map((ui, i) => c1 * ui + c2 * v[i] + c3 * a[i]));
+    const p = inertia.map((value, i) => value + damping[i]);
+    p[loadDOF] += force(t);
+    const next = effective.solve(p);
+    const nextA = next.map((value, i) => m1 * (value - u[i]) - m2 * v[i] - m3 * a[i]);
+    v = v.map((value, i) => value + dt * ((1 - gamma) * a[i] + gamma * nextA[i]));
+    u = next;
+    a = nextA;
+    time.push(Number(t.toFixed(6)));
+    responseDOFs.forEach((dof, k) => {
+      displacement[k].push(u[dof] * 1000);  // m → mm
+      acceleration[k].push(a[dof]);
+    });
+  }
+
+  const peak = (values: number[]) => values.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  return {
+    time,
+    points: responsePositions.map((x, k) => ({
+      position: x,
+      displacement: displacement[k],
+      acceleration: acceleration[k],
+      peakDisplacement: peak(displacement[k]),
+      peakAcceleration: peak(acceleration[k]),
+    })),
+  };
+}
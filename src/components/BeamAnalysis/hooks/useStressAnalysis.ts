@@ -39,7 +39,7 @@ export function useStressAnalysis({
     // Calculate stresses
     const axialStress = appliedLoads.axialForce / sectionProps.area;
     const bendingStressX = appliedLoads.bendingMomentX / sectionProps.sectionModulus;
-    const bendingStressY = appliedLoads.bendingMomentY / sectionProps.sectionModulus;
+    const bendingStressY = appliedLoads.bendingMomentY / (sectionProps.sectionModulusY ?? sectionProps.sectionModulus);
     const normalStress = Math.abs(axialStress) + Math.abs(bendingStressX) + Math.abs(bendingStressY);
     const shearStressX = Math.abs(appliedLoads.shearForceX / sectionProps.area);
     const shearStressY = Math.abs(appliedLoads.shearForceY / sectionProps.area);
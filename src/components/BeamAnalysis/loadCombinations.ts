@@ -0,0 +1,294 @@
+// loadCombinations.ts
+// Load cases, ASCE 7-16 load combinations (as adopted by ACI 318-19 Section 5.3)
+// and max/min envelopes of the combined results.
+
+import { BeamCalculator } from './calculations';
+import {
+  BeamAnalysisOptions,
+  DiagramPoint,
+  EnvelopePoint,
+  EnvelopeValue,
+  Load,
+  LoadCase,
+  LoadCombination,
+  Reactions,
+} from './types';
+
+export const LOAD_CASES: { id: LoadCase; label: string }[] = [
+  { id: 'D', label: 'Dead' },
+  { id: 'L', label: 'Live' },
+  { id: 'Lr', label: 'Roof Live' },
+  { id: 'S', label: 'Snow' },
+  { id: 'W', label: 'Wind' },
+  { id: 'E', label: 'Earthquake' },
+  { id: 'T', label: 'Temperature' },
+];
+
+export const DEFAULT_LOAD_CASE: LoadCase = 'D';
+
+/** Readable form of a combination, e.g. "1.2D + 1.6L + 0.5S". */
+export function describeCombination(factors: LoadCombination['factors']): string {
+  const terms = LOAD_CASES
+    .filter(({ id }) => factors[id])
+    .map(({ id }) => (factors[id] === 1 ? id : `${factors[id]}${id}`));
+  return terms.length > 0 ? terms.join(' + ') : 'No loads';
+}
+
+const combination = (
+  id: string,
+  type: LoadCombination['type'],
+  factors: LoadCombination['factors']
+): LoadCombination => ({ id, name: describeCombination(factors), type, factors, enabled: true });
+
+/**
+ * Strength combinations follow ASCE 7-16 Section 2.3.1 and service combinations
+ * Section 2.4.1. Each "Lr or S" and "L or 0.5W" alternative is listed separately.
+ * Self-straining (temperature) effects join dead and live load with a factor
+ * of 1.0, the minimum of Section 2.3.4.
+ */
+export const DEFAULT_LOAD_COMBINATIONS: LoadCombination[] = [
+  combination('U1', 'strength', { D: 1.4 }),
+  combination('U2a', 'strength', { D: 1.2, L: 1.6, Lr: 0.5 }),
+  combination('U2b', 'strength', { D: 1.2, L: 1.6, S: 0.5 }),
+  combination('U3a', 'strength', { D: 1.2, L: 1, Lr: 1.6 }),
+  combination('U3b', 'strength', { D: 1.2, L: 1, S: 1.6 }),
+  combination('U3c', 'strength', { D: 1.2, Lr: 1.6, W: 0.5 }),
+  combination('U3d', 'strength', { D: 1.2, S: 1.6, W: 0.5 }),
+  combination('U4a', 'strength', { D: 1.2, L: 1, Lr: 0.5, W: 1 }),
+  combination('U4b', 'strength', { D: 1.2, L: 1, S: 0.5, W: 1 }),
+  combination('U5', 'strength', { D: 1.2, L: 1, S: 0.2, E: 1 }),
+  combination('U6', 'strength', { D: 0.9, W: 1 }),
+  combination('U7', 'strength', { D: 0.9, E: 1 }),
+  combination('U8', 'strength', { D: 1.2, L: 1.6, T: 1 }),
+  combination('S1', 'service', { D: 1 }),
+  combination('S2', 'service', { D: 1, L: 1 }),
+  combination('S3a', 'service', { D: 1, Lr: 1 }),
+  combination('S3b', 'service', { D: 1, S: 1 }),
+  combination('S4a', 'service', { D: 1, L: 0.75, Lr: 0.75 }),
+  combination('S4b', 'service', { D: 1, L: 0.75, S: 0.75 }),
+  combination('S5a', 'service', { D: 1, W: 0.6 }),
+  combination('S5b', 'service', { D: 1, E: 0.7 }),
+  combination('S6a', 'service', { D: 1, L: 0.75, Lr: 0.75, W: 0.45 }),
+  combination('S6b', 'service', { D: 1, L: 0.75, S: 0.75, W: 0.45 }),
+  combination('S6c', 'service', { D: 1, L: 0.75, S: 0.75, E: 0.525 }),
+  combination('S7', 'service', { D: 0.6, W: 0.6 }),
+  combination('S8', 'service', { D: 0.6, E: 0.7 }),
+  combination('S9', 'service', { D: 1, L: 1, T: 1 }),
+];
+
+/** Loads of a combination, scaled by their case factors; cases with no factor drop out. */
+export function factorLoads(loads: Load[], factors: LoadCombination['factors']): Load[] {
+  return loads.flatMap(load => {
+    const factor = factors[load.loadCase ?? DEFAULT_LOAD_CASE] ?? 0;
+    if (factor === 0) return [];
+    return [{
+      ...load,
+      magnitude: load.magnitude * factor,
+      ...(load.endMagnitude !== undefined && { endMagnitude: load.endMagnitude * factor }),
+      ...(load.temperatureGradient !== undefined && { temperatureGradient: load.temperatureGradient * factor }),
+    }];
+  });
+}
+
+export type Span = [number, number];  // m, [start, end]
+
+const SPAN_TOLERANCE = 1e-6;
+
+/** Spans between supports, including any overhangs past the end supports. */
+export function spansOf(beamLength: number, supportPositions: number[]): Span[] {
+  const edges = [0, ...supportPositions, beamLength].sort((a, b) => a - b);
+  const spans: Span[] = [];
+  edges.forEach((edge, i) => {
+    if (i > 0 && edge - edges[i - 1] > SPAN_TOLERANCE) spans.push([edges[i - 1], edge]);
+  });
+  return spans;
+}
+
+/**
+ * The parts of the loads acting on [start, end]. Distributed loads are cut at
+ * the span ends; concentrated actions belong to the span they start, or to
+ * the last span at the beam end.
+ */
+export function loadsOnSpan(loads: Load[], [start, end]: Span, isLastSpan: boolean): Load[] {
+  return loads.flatMap<Load>(load => {
+    if (load.type === 'distributed' || load.type === 'linear' || load.type === 'thermal') {
+      const { position, length, magnitude } = load;
+      if (!length) return [];
+      const from = Math.max(start, position);
+      const to = Math.min(end, position + length);
+      if (to - from <= SPAN_TOLERANCE) return [];
+      const endMagnitude = load.type === 'linear' ? load.endMagnitude ?? magnitude : magnitude;
+      const intensityAt = (x: number) => magnitude + ((endMagnitude - magnitude) * (x - position)) / length;
+      return [{
+        ...load,
+        position: from,
+        length: to - from,
+        magnitude: intensityAt(from),
+        ...(load.type === 'linear' && { endMagnitude: intensityAt(to) }),
+      }];
+    }
+    const onSpan = load.position >= start - SPAN_TOLERANCE &&
+      (load.position < end - SPAN_TOLERANCE || (isLastSpan && load.position <= end + SPAN_TOLERANCE));
+    return onSpan ? [load] : [];
+  });
+}
+
+/** Live load on each span alone, used to build the pattern loading envelope. */
+interface LivePatterns {
+  base: DiagramPoint[];      // the combination without live load
+  spans: DiagramPoint[][];   // factored live load on each span alone
+}
+
+export interface CombinationResult {
+  combination: LoadCombination;
+  reactions: Reactions;
+  diagram: DiagramPoint[];   // live load on every span
+  livePatterns?: LivePatterns;
+}
+
+export interface CombinationAnalysis {
+  results: CombinationResult[];
+  envelope: EnvelopePoint[];
+}
+
+export interface CombinationAnalysisOptions {
+  points?: number;
+  // Spans for pattern live loading; patterns are only built for two or more spans
+  liveLoadSpans?: Span[];
+}
+
+type Analysis = Omit<CombinationResult, 'combination' | 'livePatterns'>;
+
+/**
+ * Analyses every enabled combination that has loads acting on it. Results are
+ * named by the factors of the loaded cases only, so "0.9D + W" reads "0.9D"
+ * on a beam without wind load, and a combination that reduces to the same
+ * factored loads as one already listed of its type (e.g. an "Lr or S"
+ * alternative when neither case is loaded) is left out.
+ *
+ * With pattern live loading, the live load of each combination is also
+ * analysed span by span. Since the response is linear, the worst of all
+ * loaded/unloaded span arrangements at a section is the combination without
+ * live load plus every span contribution of the right sign. Support
+ * movements act unfactored in every combination, so they are left out of the
+ * span contributions.
+ */
+export function analyzeLoadCombinations(
+  createCalculator: (loads: Load[], options?: BeamAnalysisOptions) => BeamCalculator,
+  loads: Load[],
+  combinations: LoadCombination[],
+  { points, liveLoadSpans = [] }: CombinationAnalysisOptions = {}
+): CombinationAnalysis {
+  const activeCases = new Set(loads.map(load => load.loadCase ?? DEFAULT_LOAD_CASE));
+  const liveLoads = loads.filter(load => load.loadCase === 'L');
+  const spanLiveLoads = liveLoadSpans.length > 1 && liveLoads.length > 0
+    ? liveLoadSpans.map((span, i) => loadsOnSpan(liveLoads, span, i === liveLoadSpans.length - 1))
+    : [];
+  const analyses = new Map<string, Analysis>();
+
+  const analyze = (key: string, factoredLoads: Load[], options?: BeamAnalysisOptions): Analysis => {
+    let analysis = analyses.get(key);
+    if (!analysis) {
+      const calculator = createCalculator(factoredLoads, options);
+      analysis = {
+        reactions: calculator.calculateReactions(),
+        diagram: calculator.generateDiagramData(points),
+      };
+      analyses.set(key, analysis);
+    }
+    return analysis;
+  };
+  const factorKey = (factors: LoadCombination['factors']) => LOAD_CASES
+    .filter(({ id }) => activeCases.has(id))
+    .map(({ id }) => factors[id] ?? 0)
+    .join('|');
+  const loadedFactors = (factors: LoadCombination['factors']): LoadCombination['factors'] => Object.fromEntries(
+    LOAD_CASES.filter(({ id }) => activeCases.has(id) && factors[id]).map(({ id }) => [id, factors[id]])
+  );
+  const listed = new Set<string>();
+
+  const results = combinations
+    .filter(combination => combination.enabled)
+    .flatMap(combination => {
+      const factoredLoads = factorLoads(loads, combination.factors);
+      const key = factorKey(combination.factors);
+      if (factoredLoads.length === 0 || listed.has(`${combination.type} ${key}`)) return [];
+      listed.add(`${combination.type} ${key}`);
+      const result: CombinationResult = {
+        combination: { ...combination, name: describeCombination(loadedFactors(combination.factors)) },
+        ...analyze(key, factoredLoads),
+      };
+
+      const liveFactor = combination.factors.L ?? 0;
+      if (spanLiveLoads.length > 0 && liveFactor !== 0) {
+        const withoutLive = { ...combination.factors, L: 0 };
+        result.livePatterns = {
+          base: analyze(factorKey(withoutLive), factorLoads(loads, withoutLive)).diagram,
+          spans: spanLiveLoads.map((spanLoads, i) =>
+            analyze(`span ${i}: ${liveFactor}`, factorLoads(spanLoads, { L: liveFactor }), { supportMovements: false }).diagram
+          ),
+        };
+      }
+      return [result];
+    });
+
+  return { results, envelope: computeEnvelope(results) };
+}
+
+type EnvelopeQuantity = 'shear' | 'moment' | 'deflection';
+
+const patternName = (name: string, loadedSpans: number[]) =>
+  loadedSpans.length > 0
+    ? `${name}, L on span${loadedSpans.length > 1 ? 's' : ''} ${loadedSpans.map(i => i + 1).join(', ')}`
+    : `${name}, no L`;
+
+function envelopeOf(results: CombinationResult[], index: number, quantity: EnvelopeQuantity): EnvelopeValue | undefined {
+  if (results.length === 0) return undefined;
+  return results.reduce<EnvelopeValue>((envelope, { combination, diagram, livePatterns }) => {
+    let max = { value: diagram[index][quantity], name: combination.name };
+    let min = max;
+    if (livePatterns) {
+      const base = livePatterns.base[index][quantity];
+      const contributions = livePatterns.spans.map(span => span[index][quantity]);
+      const spansWhere = (test: (value: number) => boolean) =>
+        contributions.flatMap((value, i) => (test(value) ? [i] : []));
+      const raising = spansWhere(value => value > 0);
+      const lowering = spansWhere(value => value < 0);
+      max = {
+        value: raising.reduce((sum, i) => sum + contributions[i], base),
+        name: patternName(combination.name, raising),
+      };
+      min = {
+        value: lowering.reduce((sum, i) => sum + contributions[i], base),
+        name: patternName(combination.name, lowering),
+      };
+    }
+    if (max.value > envelope.max) {
+      envelope.max = max.value;
+      envelope.maxCombination = max.name;
+    }
+    if (min.value < envelope.min) {
+      envelope.min = min.value;
+      envelope.minCombination = min.name;
+    }
+    return envelope;
+  }, { max: -Infinity, min: Infinity, maxCombination: '', minCombination: '' });
+}
+
+/**
+ * Max/min of each result along the beam with the combination that governs it:
+ * shear and moment over strength combinations, deflection over service ones.
+ * All diagrams must be sampled at the same positions.
+ */
+export function computeEnvelope(results: CombinationResult[]): EnvelopePoint[] {
+  if (results.length === 0) return [];
+  const strength = results.filter(result => result.combination.type === 'strength');
+  const service = results.filter(result => result.combination.type === 'service');
+
+  return results[0].diagram.map((point, i) => ({
+    position: point.position,
+    shear: envelopeOf(strength, i, 'shear'),
+    moment: envelopeOf(strength, i, 'moment'),
+    deflection: envelopeOf(service, i, 'deflection'),
+  }));
+}
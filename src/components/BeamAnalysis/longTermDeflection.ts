@@ -0,0 +1,113 @@
+// longTermDeflection.ts
+// Sustained-load deflections of reinforced concrete beams, ACI 318-19
+// Section 24.2.4: the additional creep and shrinkage deflection is the
+// immediate deflection under the sustained loads times λΔ = ξ / (1 + 50ρ').
+
+import { BeamCalculator } from './calculations';
+import { factorLoads, LOAD_CASES } from './loadCombinations';
+import { BeamAnalysisOptions, Load, LoadCombination, LongTermSettings } from './types';
+
+export interface LongTermDeflectionPoint {
+  position: number;     // m
+  sustained: number;    // mm, immediate, under the sustained loads
+  immediate: number;    // mm, immediate, under the full service loads
+  longTerm: number;     // mm, immediate plus creep and shrinkage at the chosen duration
+  incremental: number;  // mm, after the non-structural elements are attached
+}
+
+export interface LongTermDeflection {
+  timeFactor: number;            // ξ at the chosen duration
+  attachmentTimeFactor: number;  // ξ when the non-structural elements are attached
+  multiplier: number;            // λΔ at the chosen duration
+  points: LongTermDeflectionPoint[];
+}
+
+// Gravity load cases at full service intensity, ASCE 7-16 Section 2.4.1
+export const SERVICE_FACTORS: LoadCombination['factors'] = { D: 1, L: 1, Lr: 1, S: 1 };
+
+export const DEFAULT_LONG_TERM_SETTINGS: LongTermSettings = {
+  sustainedFractions: { D: 1, L: 0.25 },
+  duration: 60,
+  attachmentAge: 0,
+};
+
+// ACI 318-19 Table 24.2.4.1.3, months against ξ, from zero at loading
+const TIME_FACTORS: [number, number][] = [[0, 0], [3, 1], [6, 1.2], [12, 1.4], [60, 2]];
+
+/**
+ * Time-dependent factor ξ for sustained loads after `months`, interpolated
+ * linearly between the tabulated durations and 2.0 from five years on.
+ */
+export function timeDependentFactor(months: number): number {
+  if (!(months > 0)) return 0;
+  const upper = TIME_FACTORS.findIndex(([duration]) => duration >= months);
+  if (upper < 0) return TIME_FACTORS[TIME_FACTORS.length - 1][1];
+  const [t0, xi0] = TIME_FACTORS[upper - 1];
+  const [t1, xi1] = TIME_FACTORS[upper];
+  return xi0 + ((xi1 - xi0) * (months - t0)) / (t1 - t0);
+}
+
+/** λΔ = ξ / (1 + 50ρ'), ACI 318-19 Eq. 24.2.4.1.1. */
+export const longTermMultiplier = (timeFactor: number, compressionSteelRatio: number) =>
+  timeFactor / (1 + 50 * compressionSteelRatio);
+
+/**
+ * Immediate, long-term and incremental deflections along the beam. The
+ * service loads are the gravity cases unfactored and the sustained loads the
+ * chosen fraction of each case; both are analysed in full, so a cracked
+ * section takes its effective inertia under each load level. The incremental
+ * deflection is the creep and shrinkage after attachment plus the immediate
+ * deflection of the loads that are not sustained. Imposed support movements
+ * are not loads, so they are left out.
+ */
+export function analyzeLongTermDeflection(
+  createCalculator: (loads: Load[], options?: BeamAnalysisOptions) => BeamCalculator,
+  loads: Load[],
+  { sustainedFractions, duration, attachmentAge }: LongTermSettings,
+  compressionSteelRatio: number,
+  points: number = 200
+): LongTermDeflection {
+  if (!(duration > 0)) throw new Error('Load duration must be positive');
+  if (!(attachmentAge >= 0 && attachmentAge <= duration)) {
+    throw new Error('Non-structural elements must be attached within the load duration');
+  }
+  if (Object.values(sustainedFractions).some(fraction => fraction !== undefined && !(fraction >= 0 && fraction <= 1))) {
+    throw new Error('Sustained fractions must be between 0 and 1');
+  }
+  if (!(compressionSteelRatio >= 0)) throw new Error('Compression steel ratio cannot be negative');
+
+  const serviceLoads = factorLoads(loads, SERVICE_FACTORS);
+  if (serviceLoads.length === 0) throw new Error('Long-term deflection needs dead, live, roof live or snow loads');
+  const sustainedFactors: LoadCombination['factors'] = {};
+  LOAD_CASES.forEach(({ id }) => {
+    sustainedFactors[id] = (SERVICE_FACTORS[id] ?? 0) * (sustainedFractions[id] ?? 0);
+  });
+  const sustainedLoads = factorLoads(loads, sustainedFactors);
+
+  const immediate = createCalculator(serviceLoads, { supportMovements: false }).generateDiagramData(points);
+  const sustained = sustainedLoads.length > 0
+    ? createCalculator(sustainedLoads, { supportMovements: false }).generateDiagramData(points)
+    : immediate.map(point => ({ ...point, deflection: 0 }));
+
+  const timeFactor = timeDependentFactor(duration);
+  const attachmentTimeFactor = timeDependentFactor(attachmentAge);
+  const multiplier = longTermMultiplier(timeFactor, compressionSteelRatio);
+  const creepAfterAttachment = longTermMultiplier(timeFactor - attachmentTimeFactor, compressionSteelRatio);
+  const round = (value: number) => Number(value.toFixed(3));
+
+  return {
+    timeFactor,
+    attachmentTimeFactor,
+    multiplier,
+    points: immediate.map((point, i) => {
+      const sustainedDeflection = sustained[i].deflection;
+      return {
+        position: point.position,
+        sustained: round(sustainedDeflection),
+        immediate: round(point.deflection),
+        longTerm: round(point.deflection + multiplier * sustainedDeflection),
+        incremental: round(creepAfterAttachment * sustainedDeflection + point.deflection - sustainedDeflection),
+      };
+    }),
+  };
+}
@@ -0,0 +1,183 @@
+// movingLoads.ts
+// Influence lines and moving load (wheel train) envelopes. A unit load is
+// solved at evenly spaced stations with one stiffness factorisation, and any
+// train position is then a weighted sum of those unit-load results.
+
+import { BeamCalculator } from './calculations';
+import { Load } from './types';
+
+export interface Axle {
+  load: number;     // kN, downward positive
+  spacing: number;  // m from the previous axle; ignored for the first axle
+}
+
+export interface InfluenceLines {
+  stations: number[];  // unit load positions (m)
+  reactions: { supportId: number; position: number; values: number[] }[];  // kN per kN
+  sections: { position: number; shear: number[]; moment: number[] }[];     // kN and kN·m per kN
+}
+
+export interface MovingLoadEnvelopePoint {
+  position: number;
+  momentMax: number;  // kN·m
+  momentMin: number;
+  shearMax: number;   // kN
+  shearMin: number;
+}
+
+export interface MovingLoadPeak {
+  value: number;     // signed, largest in magnitude
+  section: number;   // m
+  leadAxle: number;  // m, position of the first axle of the train
+  reversed: boolean; // train running from right to left
+}
+
+export interface MovingLoadAnalysis {
+  envelope: MovingLoadEnvelopePoint[];
+  maxMoment: MovingLoadPeak;
+  maxShear: MovingLoadPeak;
+}
+
+const STATION_TOLERANCE = 1e-9;
+
+const unitLoadAt = (position: number): Load => ({ id: -1, type: 'point', position, magnitude: 1 });
+
+const stationsOf = (beamLength: number, count: number) =>
+  Array.from({ length: count + 1 }, (_, j) => (beamLength * j) / count);
+
+/**
+ * Influence lines for every support reaction and for shear and moment at the
+ * given sections: the value of each as a unit downward load crosses the beam.
+ */
+export function computeInfluenceLines(
+  calculator: BeamCalculator,
+  beamLength: number,
+  sections: number[],
+  stationCount: number = 100
+): InfluenceLines {
+  const stations = stationsOf(beamLength, stationCount);
+  const models = calculator.solveLoadSets(stations.map(x => [unitLoadAt(x)]));
+
+  return {
+    stations,
+    reactions: models[0].reactions.map((reaction, k) => ({
+      supportId: reaction.supportId,
+      position: reaction.position,
+      values: models.map(model => model.reactions[k].force),
+    })),
+    sections: sections.map(position => {
+      const actions = models.map(model => model.actionsAt(position));
+      return {
+        position,
+        shear: actions.map(action => action.shear),
+        moment: actions.map(action => action.moment),
+      };
+    }),
+  };
+}
+
+/** Distance of each axle behind the first one. */
+const axleOffsets = (axles: Axle[]) =>
+  axles.reduce<number[]>((offsets, axle, i) => [...offsets, i === 0 ? 0 : offsets[i - 1] + axle.spacing], []);
+
+/**
+ * Runs the wheel train across the beam in both directions and envelopes
+ * shear and moment at each diagram point, with the absolute maxima.
+ *
+ * Every train position that puts an axle on a station is checked, and
+ * influence values between stations are interpolated linearly. Shear at a
+ * section is taken on both sides of an axle standing on it.
+ */
+export function analyzeMovingLoad(
+  calculator: BeamCalculator,
+  beamLength: number,
+  axles: Axle[],
+  points: number = 200
+): MovingLoadAnalysis {
+  if (axles.length === 0) throw new Error('The moving load needs at least one axle');
+  if (axles.some((axle, i) => i > 0 && !(axle.spacing > 0))) throw new Error('Axle spacings must be positive');
+
+  const stations = stationsOf(beamLength, points);
+  const h = beamLength / points;
+  const models = calculator.solveLoadSets(stations.map(x => [unitLoadAt(x)]));
+  // influence[j][i]: action at stations[i] due to a unit load at stations[j]
+  const shearInfluence = models.map(model => stations.map(x => model.actionsAt(x).shear));
+  const momentInfluence = models.map(model => stations.map(x => model.actionsAt(x).moment));
+
+  const envelope: MovingLoadEnvelopePoint[] = stations.map(position => ({
+    position: Number(position.toFixed(6)),
+    momentMax: 0,
+    momentMin: 0,
+    shearMax: 0,
+    shearMin: 0,
+  }));
+  const peak = (): MovingLoadPeak => ({ value: 0, section: 0, leadAxle: 0, reversed: false });
+  const maxMoment = peak();
+  const maxShear = peak();
+  const record = (target: MovingLoadPeak, value: number, section: number, leadAxle: number, reversed: boolean) => {
+    if (Math.abs(value) > Math.abs(target.value)) Object.assign(target, { value, section, leadAxle, reversed });
+  };
+
+  const offsets = axleOffsets(axles);
+  const trainLength = offsets[offsets.length - 1];
+
+  [false, true].forEach(reversed => {
+    // A reversed train meets the beam with its last axle first
+    const behind = reversed ? offsets.map(offset => trainLength - offset) : offsets;
+    const leadPositions = new Set<number>();
+    behind.forEach(offset => stations.forEach(x => leadPositions.add(x + offset)));
+
+    leadPositions.forEach(lead => {
+      const moment = new Float64Array(stations.length);
+      const shear = new Float64Array(stations.length);
+      // Shear jump of axles standing exactly on a station
+      const onStation = new Float64Array(stations.length);
+
+      axles.forEach((axle, k) => {
+        const position = lead - behind[k];
+        if (position < -STATION_TOLERANCE || position > beamLength + STATION_TOLERANCE) return;
+        let j = Math.floor(position / h + STATION_TOLERANCE);
+        let t = position / h - j;
+        if (j >= points) {
+          j = points;
+          t = 0;
+        }
+        if (Math.abs(t) < STATION_TOLERANCE) t = 0;
+        if (t === 0) onStation[j] += axle.load;
+
+        for (let i = 0; i < stations.length; i++) {
+          const m = t === 0 ? momentInfluence[j][i] : (1 - t) * momentInfluence[j][i] + t * momentInfluence[j + 1][i];
+          // Just right of section i the unit load is not yet counted in the shear
+          const shearFrom = j === i ? shearInfluence[j][i] + 1 : shearInfluence[j][i];
+          const v = t === 0 ? shearInfluence[j][i] : (1 - t) * shearFrom + t * shearInfluence[j + 1][i];
+          moment[i] += axle.load * m;
+          shear[i] += axle.load * v;
+        }
+      });
+
+      envelope.forEach((point, i) => {
+        point.momentMax = Math.max(point.momentMax, moment[i]);
+        point.momentMin = Math.min(point.momentMin, moment[i]);
+        const shearValues = onStation[i] !== 0 ? [shear[i], shear[i] + onStation[i]] : [shear[i]];
+        shearValues.forEach(value => {
+          point.shearMax = Math.max(point.shearMax, value);
+          point.shearMin = Math.min(point.shearMin, value);
+          record(maxShear, value, point.position, lead, reversed);
+        });
+        record(maxMoment, moment[i], point.position, lead, reversed);
+      });
+    });
+  });
+
+  return {
+    envelope: envelope.map(point => ({
+      position: point.position,
+      momentMax: Number(point.momentMax.toFixed(3)),
+      momentMin: Number(point.momentMin.toFixed(3)),
+      shearMax: Number(point.shearMax.toFixed(3)),
+      shearMin: Number(point.shearMin.toFixed(3)),
+    })),
+    maxMoment,
+    maxShear,
+  };
+}
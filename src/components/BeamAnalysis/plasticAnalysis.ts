@@ -0,0 +1,150 @@
+// plasticAnalysis.ts
+// Plastic (limit) analysis of steel beams: the load factor at which enough
+// plastic hinges have formed to turn the beam into a mechanism, found by
+// raising the loads and adding the hinges one at a time as each section
+// reaches its plastic moment Mp = Zx·fy.
+
+import { BeamCalculator } from './calculations';
+import { Hinge, Load, PlasticAnalysisSettings, Support } from './types';
+
+export interface PlasticHinge {
+  position: number;    // m
+  loadFactor: number;  // λ at which it forms
+  moment: number;      // kN·m, +Mp or −Mp, sagging positive
+}
+
+export interface PlasticCollapse {
+  yieldMoment: number;       // kN·m, My = Sx·fy of the beam section
+  plasticMoment: number;     // kN·m, Mp = Zx·fy
+  firstYieldFactor: number;  // λ at which the extreme fibre first yields, the elastic limit
+  collapseFactor: number;    // λc of the collapse mechanism
+  hinges: PlasticHinge[];    // in the order they form
+  points: { position: number; moment: number; plasticMoment: number }[];  // kN·m at collapse
+}
+
+// Loads as entered rather than a load combination
+export const ENTERED_LOADS = 'entered';
+
+export const DEFAULT_YIELD_STRENGTH = 250;  // MPa, used where the material gives none
+
+export const DEFAULT_PLASTIC_ANALYSIS: PlasticAnalysisSettings = { enabled: false, loads: ENTERED_LOADS };
+
+const POSITION_TOLERANCE = 1e-6;
+const YIELD_TOLERANCE = 1e-6;  // relative: sections this close to Mp yield together
+const NEGLIGIBLE_MOMENT = 1e-9;
+const MAX_HINGES = 50;
+
+/**
+ * Sections checked for hinges: evenly spaced points plus the supports and
+ * the ends of the loads, where the moment peaks. Beam ends count only where
+ * a support restrains their rotation, since nothing else gives them moment.
+ * Positions within the tolerance of an end are taken as that end.
+ */
+function candidatePositions(beamLength: number, supports: Support[], loads: Load[], points: number): number[] {
+  const restrainedEnd = (x: number) => supports.some(support =>
+    Math.abs(support.position - x) < POSITION_TOLERANCE && (support.type === 'fixed' || (support.rotationalStiffness ?? 0) > 0)
+  );
+  const positions = [
+    ...Array.from({ length: points - 1 }, (_, i) => (beamLength * (i + 1)) / points),
+    ...supports.map(support => support.position),
+    ...loads.flatMap(load => [load.position, load.position + (load.length ?? 0)]),
+  ]
+    .map(x => (x <= POSITION_TOLERANCE ? 0 : x >= beamLength - POSITION_TOLERANCE ? beamLength : x))
+    .filter(x => (x > 0 && x < beamLength) || restrainedEnd(x));
+  return positions
+    .sort((a, b) => a - b)
+    .filter((x, i, sorted) => i === 0 || x - sorted[i - 1] > POSITION_TOLERANCE);
+}
+
+/**
+ * Incremental (event-to-event) plastic analysis. Each step solves the beam
+ * with the hinges formed so far as moment releases carrying their Mp, and
+ * scales the loads up until the next section reaches Mp; collapse comes when
+ * the hinges leave a mechanism. A hinge at a fixed or rotationally restrained
+ * beam end releases that restraint instead. Hinges are taken to keep
+ * rotating once formed, without unloading.
+ *
+ * Thermal loads and support movements are left out: they are locked in by
+ * the restraints and do not change the collapse load.
+ */
+export function analyzePlasticCollapse(
+  createCalculator: (loads: Load[], supports: Support[], hinges: Hinge[]) => BeamCalculator,
+  beamLength: number,
+  supports: Support[],
+  loads: Load[],
+  yieldStrength: number,
+  points: number = 200
+): PlasticCollapse {
+  if (!(yieldStrength > 0)) throw new Error('Yield strength must be positive');
+  const bendingLoads = loads.filter(load => load.type !== 'thermal');
+  const elastic = createCalculator(bendingLoads, supports, []);
+  if (elastic.checkStability().degree === Infinity) {
+    throw new Error('Plastic collapse analysis does not apply to beams on an elastic foundation');
+  }
+
+  const positions = candidatePositions(beamLength, supports, bendingLoads, points);
+  const stress = yieldStrength * 1e3;  // MPa → kN/m²
+  const sections = positions.map(x => elastic.calculateSectionProperties(x));
+  const plasticMoments = sections.map(section => (section.plasticModulusX ?? 0) * stress);
+  const yieldMoments = sections.map(section => section.sectionModulus * stress);
+
+  let collapseSupports = supports;
+  const releases: Hinge[] = [];
+  const hinges: PlasticHinge[] = [];
+  const hinged = positions.map(() => false);
+  const moments = positions.map(() => 0);
+  let loadFactor = 0;
+  let firstYieldFactor = Infinity;
+
+  let calculator = elastic;
+  while (calculator.checkStability().classification !== 'mechanism') {
+    if (hinges.length >= MAX_HINGES) throw new Error('No collapse mechanism formed. Check the supports and loads.');
+    const model = calculator.solve();
+    const increments = positions.map(x => model.actionsAt(x).moment);
+
+    if (hinges.length === 0) {
+      increments.forEach((increment, i) => {
+        if (Math.abs(increment) > NEGLIGIBLE_MOMENT) firstYieldFactor = Math.min(firstYieldFactor, yieldMoments[i] / Math.abs(increment));
+      });
+    }
+
+    // Smallest load factor increment that takes another section to ±Mp
+    let step = Infinity;
+    increments.forEach((increment, i) => {
+      if (hinged[i] || Math.abs(increment) <= NEGLIGIBLE_MOMENT) return;
+      step = Math.min(step, (Math.sign(increment) * plasticMoments[i] - moments[i]) / increment);
+    });
+    if (step === Infinity) throw new Error('The loads cause no bending, so no plastic hinge can form');
+
+    loadFactor += step;
+    positions.forEach((x, i) => {
+      if (hinged[i]) return;
+      moments[i] += step * increments[i];
+      if (Math.abs(moments[i]) < plasticMoments[i] * (1 - YIELD_TOLERANCE)) return;
+      hinged[i] = true;
+      moments[i] = Math.sign(moments[i]) * plasticMoments[i];
+      hinges.push({ position: x, loadFactor: Number(loadFactor.toFixed(4)), moment: Number(moments[i].toFixed(3)) });
+      if (x > POSITION_TOLERANCE && x < beamLength - POSITION_TOLERANCE) {
+        releases.push({ id: -(releases.length + 1), position: x });
+      } else {
+        collapseSupports = collapseSupports.map(support => (Math.abs(support.position - x) < POSITION_TOLERANCE
+          ? { ...support, type: support.type === 'fixed' ? 'pin' : support.type, rotationalStiffness: undefined }
+          : support));
+      }
+    });
+    calculator = createCalculator(bendingLoads, collapseSupports, releases);
+  }
+
+  return {
+    yieldMoment: Number(((elastic.calculateSectionProperties().sectionModulus) * stress).toFixed(3)),
+    plasticMoment: Number(((elastic.calculateSectionProperties().plasticModulusX ?? 0) * stress).toFixed(3)),
+    firstYieldFactor: Number(firstYieldFactor.toFixed(4)),
+    collapseFactor: Number(loadFactor.toFixed(4)),
+    hinges,
+    points: positions.map((position, i) => ({
+      position: Number(position.toFixed(6)),
+      moment: Number(moments[i].toFixed(3)),
+      plasticMoment: Number(plasticMoments[i].toFixed(3)),
+    })),
+  };
+}
@@ -0,0 +1,143 @@
+// redistribution.ts
+// Redistribution of negative moments at the supports of continuous
+// reinforced concrete beams, ACI 318-19 Section 6.6.5.
+
+import { E_s } from './BeamReinforcementCalculations';
+import { CombinationAnalysis, CombinationResult, computeEnvelope } from './loadCombinations';
+import { DiagramPoint, MomentRedistribution, ProvidedReinforcement, Support } from './types';
+
+// Section 6.6.5.1: at most 1000εt percent and 20 %, and only from εt ≥ 0.0075
+export const MIN_REDISTRIBUTION_STRAIN = 0.0075;
+export const MAX_REDISTRIBUTION = 20;  // %
+
+export const DEFAULT_REDISTRIBUTION: MomentRedistribution = { enabled: false, percent: MAX_REDISTRIBUTION };
+
+const SUPPORT_TOLERANCE = 1e-6;
+const ULTIMATE_CONCRETE_STRAIN = 0.003;  // Section 22.2.2.1
+const NEUTRAL_AXIS_ITERATIONS = 100;
+
+/**
+ * Permissible reduction of the support moments, %, for net tensile strain εt.
+ * A strain that is not a finite, positive number allows none.
+ */
+export const permissibleRedistribution = (netTensileStrain: number) =>
+  Number.isFinite(netTensileStrain) && netTensileStrain >= MIN_REDISTRIBUTION_STRAIN
+    ? Math.min(1000 * netTensileStrain, MAX_REDISTRIBUTION)
+    : 0;
+
+/**
+ * Net tensile strain εt of the section over the supports, where hogging puts
+ * the top bars in tension and the bottom bars in compression. A section
+ * without top bars takes the bottom bars mirrored, as for its stiffness.
+ *
+ * Strain compatibility at nominal strength (Section 22.2): the neutral axis
+ * depth c balances the equivalent rectangular stress block and the bars at
+ * their strains, limited to ±fy, and is found by bisection since the force
+ * balance rises steadily with c. Compression bars within the stress block
+ * displace its concrete.
+ */
+export function hoggingTensileStrain(reinforcement: ProvidedReinforcement, width: number, height: number): number {
+  const { tensionSteel, effectiveDepth, compressionSteel, compressionDepth, concreteStrength, steelYieldStrength } = reinforcement;
+  // Depths from the bottom face, now in compression
+  const [tension, depth, compression, compressionBarDepth] = compressionSteel > 0
+    ? [compressionSteel, height - compressionDepth, tensionSteel, height - effectiveDepth]
+    : [tensionSteel, effectiveDepth, 0, 0];
+  const beta1 = concreteStrength <= 28 ? 0.85 : Math.max(0.65, 0.85 - (0.05 * (concreteStrength - 28)) / 7);
+  const barStress = (strain: number) => Math.max(-steelYieldStrength, Math.min(steelYieldStrength, strain * E_s));
+  // Compression less tension, N, for neutral axis depth c
+  const balance = (c: number) => {
+    const block = beta1 * c;
+    const concrete = 0.85 * concreteStrength * width * Math.min(block, height);
+    const compressionStress = barStress((ULTIMATE_CONCRETE_STRAIN * (c - compressionBarDepth)) / c);
+    const displaced = compressionBarDepth < block ? 0.85 * concreteStrength : 0;
+    const tensionStress = barStress((ULTIMATE_CONCRETE_STRAIN * (depth - c)) / c);
+    return concrete + compression * (compressionStress - displaced) - tension * tensionStress;
+  };
+
+  let low = 0;
+  let high = height / beta1;
+  for (let i = 0; i < NEUTRAL_AXIS_ITERATIONS; i++) {
+    const c = (low + high) / 2;
+    if (balance(c) < 0) low = c;
+    else high = c;
+  }
+  const c = (low + high) / 2;
+  return (ULTIMATE_CONCRETE_STRAIN * (depth - c)) / c;
+}
+
+/**
+ * Supports whose moment is statically indeterminate and may be reduced:
+ * those between two spans, and fixed or rotationally restrained supports at
+ * the beam ends. A support next to an overhang carries the overhang moment,
+ * which statics fixes, and a hinge in an adjacent span must keep zero moment.
+ */
+export function redistributableSupports(beamLength: number, supports: Support[], hingePositions: number[] = []): number[] {
+  const sorted = [...supports].sort((a, b) => a.position - b.position);
+  const atEnd = (x: number) => x < SUPPORT_TOLERANCE || x > beamLength - SUPPORT_TOLERANCE;
+  const hingeWithin = (from: number, to: number) => hingePositions.some(h => h > from && h < to);
+  return sorted.flatMap((support, i) => {
+    const before = sorted[i - 1]?.position;
+    const after = sorted[i + 1]?.position;
+    if (before === undefined && after === undefined) return [];
+    if ((before !== undefined && hingeWithin(before, support.position)) || (after !== undefined && hingeWithin(support.position, after))) return [];
+    const continuous = before !== undefined && after !== undefined;
+    const restrainedEnd = atEnd(support.position) && (support.type === 'fixed' || (support.rotationalStiffness ?? 0) > 0);
+    return continuous || restrainedEnd ? [support.position] : [];
+  });
+}
+
+// Moment at x, interpolated between diagram points
+function momentAt(diagram: DiagramPoint[], x: number): number {
+  const i = diagram.findIndex(point => point.position >= x);
+  if (i <= 0) return diagram[Math.max(i, 0)]?.moment ?? 0;
+  const a = diagram[i - 1];
+  const b = diagram[i];
+  return a.moment + ((b.moment - a.moment) * (x - a.position)) / (b.position - a.position);
+}
+
+/**
+ * Reduces the hogging moment at each redistributed support by `fraction`;
+ * a sagging moment there, as some live load patterns leave, is kept. To
+ * keep equilibrium, the same change is added varying linearly to zero at the
+ * neighbouring supports, with the matching constant change in shear. The
+ * adjustment is linear in the diagram, so live load patterns built by
+ * superposition stay valid. Deflections are left as analysed.
+ */
+export function redistributeDiagram(diagram: DiagramPoint[], supportPositions: number[], redistributed: number[], fraction: number): DiagramPoint[] {
+  const positions = [...supportPositions].sort((a, b) => a - b);
+  const changes = redistributed.map(x => {
+    const i = positions.findIndex(p => Math.abs(p - x) < SUPPORT_TOLERANCE);
+    return { x, before: positions[i - 1], after: positions[i + 1], change: -fraction * Math.min(0, momentAt(diagram, x)) };
+  });
+  return diagram.map(point => {
+    let moment = point.moment;
+    let shear = point.shear;
+    changes.forEach(({ x, before, after, change }) => {
+      if (before !== undefined && point.position >= before && point.position <= x) {
+        moment += (change * (point.position - before)) / (x - before);
+        // Shear on the side of the point within the span, as the diagram takes it
+        if (point.position < x) shear += change / (x - before);
+      } else if (after !== undefined && point.position >= x && point.position <= after) {
+        moment += (change * (after - point.position)) / (after - x);
+        if (point.position > x) shear -= change / (after - x);
+      }
+    });
+    return { ...point, moment: Number(moment.toFixed(3)), shear: Number(shear.toFixed(3)) };
+  });
+}
+
+/** Every combination, and its live load patterns, redistributed and enveloped again. */
+export function redistributeCombinations(analysis: CombinationAnalysis, supportPositions: number[], redistributed: number[], fraction: number): CombinationAnalysis {
+  const redistribute = (diagram: DiagramPoint[]) => redistributeDiagram(diagram, supportPositions, redistributed, fraction);
+  const results = analysis.results.map<CombinationResult>(result => ({
+    ...result,
+    diagram: redistribute(result.diagram),
+    ...(result.livePatterns && {
+      livePatterns: {
+        base: redistribute(result.livePatterns.base),
+        spans: result.livePatterns.spans.map(redistribute),
+      },
+    }),
+  }));
+  return { results, envelope: computeEnvelope(results) };
+}
@@ -0,0 +1,148 @@
+// serviceability.ts
+// Deflection limits (IBC Table 1604.3, ACI 318-19 Table 24.2.2) checked span
+// by span against the deflections of a load case, a combination, the service
+// envelope or the long-term analysis.
+
+import { BeamCalculator } from './calculations';
+import { factorLoads, spansOf } from './loadCombinations';
+import { LongTermDeflection } from './longTermDeflection';
+import {
+  BeamAnalysisOptions,
+  DeflectionCheck,
+  DeflectionLimit,
+  EnvelopePoint,
+  Load,
+  LoadCase,
+  LoadCombination,
+} from './types';
+
+// Everything the limits may be checked against
+export interface DeflectionSources {
+  createCalculator: (loads: Load[], options?: BeamAnalysisOptions) => BeamCalculator;
+  loads: Load[];
+  combinations: LoadCombination[];
+  envelope: EnvelopePoint[];
+  longTerm: LongTermDeflection | null;
+}
+
+export const DEFAULT_DEFLECTION_LIMITS: DeflectionLimit[] = [
+  { id: 1, source: 'case', target: 'L', kind: 'ratio', value: 360, doubleCantilevers: true },
+  { id: 2, source: 'envelope', kind: 'ratio', value: 240, doubleCantilevers: true },
+];
+
+const SUPPORT_TOLERANCE = 1e-6;
+
+type Profile = { position: number; deflection: number }[];
+
+// Linear interpolation between diagram points
+function deflectionAt(profile: Profile, x: number): number {
+  const i = profile.findIndex(point => point.position >= x);
+  if (i <= 0) return profile[Math.max(i, 0)]?.deflection ?? 0;
+  const a = profile[i - 1];
+  const b = profile[i];
+  return a.deflection + ((b.deflection - a.deflection) * (x - a.position)) / (b.position - a.position);
+}
+
+/**
+ * Deflection profiles of a limit's source: one for a single analysis, or the
+ * max and min of the service envelope. Empty when the source has nothing to
+ * show, e.g. a case without loads.
+ */
+function profilesOf(limit: DeflectionLimit, sources: DeflectionSources, points: number): Profile[] {
+  switch (limit.source) {
+    case 'case':
+    case 'combination': {
+      const factors = limit.source === 'case'
+        ? { [limit.target as LoadCase]: 1 }
+        : sources.combinations.find(combination => combination.id === limit.target)?.factors ?? {};
+      const loads = factorLoads(sources.loads, factors);
+      if (loads.length === 0) return [];
+      // A load case alone carries no support movements; combinations do, as in the envelope
+      const options = limit.source === 'case' ? { supportMovements: false } : undefined;
+      return [sources.createCalculator(loads, options).generateDiagramData(points)];
+    }
+    case 'envelope': {
+      if (!sources.envelope.some(point => point.deflection)) return [];
+      return (['max', 'min'] as const).map(side => sources.envelope.map(point => ({
+        position: point.position,
+        deflection: point.deflection?.[side] ?? 0,
+      })));
+    }
+    case 'longTerm':
+    case 'incremental': {
+      const key = limit.source;
+      return sources.longTerm ? [sources.longTerm.points.map(point => ({ position: point.position, deflection: point[key] }))] : [];
+    }
+  }
+}
+
+/**
+ * Checks every limit on every span, overhangs included. Deflections are
+ * measured from the chord between the deflected supports at the span ends,
+ * so settlements do not count against the limit; an overhang is measured
+ * from its support. Spans with no support at either end (a beam on an
+ * elastic foundation) are measured from the undeflected beam.
+ */
+export function checkDeflectionLimits(
+  limits: DeflectionLimit[],
+  sources: DeflectionSources,
+  beamLength: number,
+  supportPositions: number[],
+  points: number = 200
+): DeflectionCheck[] {
+  limits.forEach(limit => {
+    if (!(limit.value > 0)) throw new Error('Deflection limits must be positive');
+  });
+  const isSupport = (x: number) => supportPositions.some(position => Math.abs(position - x) < SUPPORT_TOLERANCE);
+  const spans = spansOf(beamLength, supportPositions);
+
+  return limits.flatMap(limit => {
+    const profiles = profilesOf(limit, sources, points);
+    if (profiles.length === 0) return [];
+    return spans.map(([start, end]) => {
+      const startSupported = isSupport(start);
+      const endSupported = isSupport(end);
+      const cantilever = startSupported !== endSupported;
+      const length = end - start;
+
+      let deflection = 0;
+      let position = start;
+      let chord: [number, number] = [0, 0];
+      profiles.forEach(profile => {
+        const startDeflection = deflectionAt(profile, start);
+        const endDeflection = deflectionAt(profile, end);
+        const chordAt = (x: number) => {
+          if (startSupported && endSupported) return startDeflection + ((endDeflection - startDeflection) * (x - start)) / length;
+          if (startSupported) return startDeflection;
+          if (endSupported) return endDeflection;
+          return 0;
+        };
+        profile
+          .filter(point => point.position >= start - SUPPORT_TOLERANCE && point.position <= end + SUPPORT_TOLERANCE)
+          .forEach(point => {
+            const relative = point.deflection - chordAt(point.position);
+            if (Math.abs(relative) > Math.abs(deflection)) {
+              deflection = relative;
+              position = point.position;
+              chord = [chordAt(start), chordAt(end)];
+            }
+          });
+      });
+
+      const allowable = limit.kind === 'absolute'
+        ? limit.value
+        : ((cantilever && limit.doubleCantilevers ? 2 : 1) * length * 1000) / limit.value;
+      return {
+        limitId: limit.id,
+        start,
+        end,
+        cantilever,
+        deflection: Number(deflection.toFixed(3)),
+        position,
+        allowable: Number(allowable.toFixed(3)),
+        utilisation: Math.abs(deflection) / allowable,
+        chord,
+      };
+    });
+  });
+}
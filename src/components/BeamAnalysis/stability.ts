@@ -0,0 +1,162 @@
+// stability.ts
+// Geometric stability and static determinacy of the support layout, found
+// from the rigid-body motions the supports and hinges leave free.
+
+import { ElasticFoundation, Hinge, StabilityCheck, Support } from './types';
+
+const POSITION_TOLERANCE = 1e-6;
+const RANK_TOLERANCE = 1e-9;
+
+/** Part of the beam between hinges, moving as a rigid body. */
+interface Segment {
+  start: number;  // m
+  end: number;    // m
+}
+
+const formatPosition = (x: number) => `${Number(x.toFixed(3))} m`;
+
+/**
+ * Row-reduces the constraint matrix and returns one rigid-body motion it
+ * allows, or undefined when the only solution is no motion at all.
+ */
+function freeMotion(constraints: number[][], unknowns: number): number[] | undefined {
+  const rows = constraints.map(row => [...row]);
+  const scale = Math.max(1, ...rows.flat().map(Math.abs));
+  const pivotColumns: number[] = [];
+  let rank = 0;
+
+  for (let col = 0; col < unknowns && rank < rows.length; col++) {
+    let pivot = rank;
+    for (let r = rank + 1; r < rows.length; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) <= RANK_TOLERANCE * scale) continue;
+    [rows[rank], rows[pivot]] = [rows[pivot], rows[rank]];
+    const lead = rows[rank][col];
+    rows[rank] = rows[rank].map(value => value / lead);
+    rows.forEach((row, r) => {
+      if (r === rank || row[col] === 0) return;
+      const factor = row[col];
+      rows[r] = row.map((value, c) => value - factor * rows[rank][c]);
+    });
+    pivotColumns.push(col);
+    rank++;
+  }
+
+  const free = Array.from({ length: unknowns }, (_, col) => col).find(col => !pivotColumns.includes(col));
+  if (free === undefined) return undefined;
+  const motion = new Array<number>(unknowns).fill(0);
+  motion[free] = 1;
+  pivotColumns.forEach((col, r) => {
+    motion[col] = -rows[r][free];
+  });
+  return motion;
+}
+
+/**
+ * Classifies the beam as stable and statically determinate, stable and
+ * indeterminate (with its degree), or a mechanism, with what to change.
+ *
+ * Each part between hinges has a deflection and a rotation as rigid-body
+ * unknowns, joined by a common deflection at each hinge. Pins, rollers,
+ * springs and a fixed support's translation stop the deflection at their
+ * position, fixed supports and rotational springs stop the rotation, and an
+ * elastic foundation holds the whole part it lies under. Horizontally, one
+ * pin or fixed support (or friction on a foundation) is needed. Springs count
+ * as restraints, since they make the stiffness matrix non-singular.
+ */
+export function checkStability(
+  beamLength: number,
+  supports: Support[],
+  hinges: Hinge[] = [],
+  foundations: ElasticFoundation[] = []
+): StabilityCheck {
+  const hingePositions = hinges
+    .map(hinge => hinge.position)
+    .filter(x => x > POSITION_TOLERANCE && x < beamLength - POSITION_TOLERANCE)
+    .sort((a, b) => a - b);
+  const edges = [0, ...hingePositions, beamLength];
+  const segments: Segment[] = edges.slice(1).map((end, k) => ({ start: edges[k], end }));
+  const unknowns = 2 * segments.length;  // [v, θ] at the start of each segment
+
+  // A support at a hinge sits on the part to its left, as in the stiffness model
+  const segmentAt = (x: number) => {
+    const k = segments.findIndex(segment => x <= segment.end + POSITION_TOLERANCE);
+    return k === -1 ? segments.length - 1 : k;
+  };
+  const deflectionRow = (k: number, x: number) => {
+    const row = new Array<number>(unknowns).fill(0);
+    row[2 * k] = 1;
+    row[2 * k + 1] = x - segments[k].start;
+    return row;
+  };
+  const rotationRow = (k: number) => {
+    const row = new Array<number>(unknowns).fill(0);
+    row[2 * k + 1] = 1;
+    return row;
+  };
+
+  const constraints: number[][] = [];
+  // Neighbouring parts share the deflection of the hinge between them
+  segments.slice(1).forEach((segment, i) => {
+    const row = deflectionRow(i, segment.start);
+    row[2 * (i + 1)] -= 1;
+    constraints.push(row);
+  });
+
+  let horizontalRestraints = 0;
+  let restraints = 0;
+  supports.forEach(support => {
+    const k = segmentAt(support.position);
+    constraints.push(deflectionRow(k, support.position));
+    restraints++;
+    if (support.type === 'pin' || support.type === 'fixed') {
+      horizontalRestraints++;
+      restraints++;
+    }
+    if (support.type === 'fixed' || (support.rotationalStiffness ?? 0) > 0) {
+      constraints.push(rotationRow(k));
+      restraints++;
+    }
+  });
+
+  const supported = segments.map(segment => foundations.some(foundation =>
+    Math.min(segment.end, foundation.end) - Math.max(segment.start, foundation.start) > POSITION_TOLERANCE
+  ));
+  supported.forEach((onFoundation, k) => {
+    if (!onFoundation) return;
+    constraints.push(deflectionRow(k, segments[k].start), rotationRow(k));
+  });
+  const onFoundation = supported.some(Boolean);
+
+  const issues: string[] = [];
+  if (supports.length === 0 && !onFoundation) {
+    issues.push('The beam has no supports: add a support or rest it on an elastic foundation.');
+  } else {
+    if (horizontalRestraints === 0 && !onFoundation) {
+      issues.push('Nothing holds the beam horizontally: change one roller or spring to a pin.');
+    }
+    const motion = freeMotion(constraints, unknowns);
+    if (motion) {
+      const scale = Math.max(...motion.map(Math.abs));
+      segments.forEach((segment, k) => {
+        const moves = Math.abs(motion[2 * k]) > RANK_TOLERANCE * scale || Math.abs(motion[2 * k + 1]) > RANK_TOLERANCE * scale;
+        if (!moves) return;
+        const part = `from ${formatPosition(segment.start)} to ${formatPosition(segment.end)}`;
+        const bounding = hingePositions.filter(h =>
+          Math.abs(h - segment.start) <= POSITION_TOLERANCE || Math.abs(h - segment.end) <= POSITION_TOLERANCE
+        );
+        const fixes = bounding.length > 0
+          ? `add a support under it or remove the hinge at ${bounding.map(formatPosition).join(' or ')}`
+          : 'add a support or make one of its supports fixed';
+        issues.push(`The beam ${part} is free to ${Math.abs(motion[2 * k + 1]) > RANK_TOLERANCE * scale ? 'rotate' : 'move'}: ${fixes}.`);
+      });
+    }
+  }
+
+  if (issues.length > 0) return { classification: 'mechanism', degree: 0, issues };
+  // A foundation adds restraint all along the beam
+  if (onFoundation) return { classification: 'indeterminate', degree: Infinity, issues };
+  const degree = restraints - (3 + hingePositions.length);
+  return { classification: degree > 0 ? 'indeterminate' : 'determinate', degree, issues };
+}
@@ -0,0 +1,964 @@
+// stiffnessModel.ts
+// Direct stiffness model of a straight beam: mesh generation, banded assembly
+// and solution, and recovery of internal actions anywhere along the member.
+//
+// Sign conventions (shared with BeamCalculator):
+// - deflection, point and distributed loads: downward positive
+// - rotation, applied moments and torques: clockwise positive
+// - axial displacement: positive toward the beam end; axial force: tension positive
+// - shear: sum of upward forces left of the section
+// - bending moment: sagging positive
+
+import { ElasticFoundation, Load, Reactions, Support } from './types';
+
+export const DOFS_PER_NODE = 4;
+
+const MESH_TOLERANCE = 1e-6;
+const PIVOT_TOLERANCE = 1e-10;
+const MAX_CONTACT_ITERATIONS = 50;
+const MAX_SECOND_ORDER_ITERATIONS = 20;
+const AXIAL_FORCE_TOLERANCE = 1e-6;  // relative change that ends the P-delta iteration
+export const GRAVITY = 9.81;  // m/s²
+
+export type ElementLoad =
+  // Axial loads are positive toward the beam end
+  | { type: 'point' | 'moment' | 'torsion' | 'axial'; a: number; value: number }
+  | { type: 'distributed'; a: number; b: number; qa: number; qb: number }
+  // Free thermal strain and curvature (bottom face hotter positive, as sagging)
+  | { type: 'thermal'; a: number; b: number; strain: number; curvature: number };
+
+export interface ElementFoundation {
+  modulus: number;           // kN/m³, modulus of subgrade reaction
+  width: number;             // m, bearing width
+  compressionOnly: boolean;
+  inContact: boolean;        // false once the element has lifted off
+}
+
+export interface BeamElement {
+  start: number;   // m
+  length: number;  // m
+  EI: number;      // kN·m²
+  GJ: number;      // kN·m²
+  EA: number;      // kN
+  GAs?: number;    // kN, shear rigidity; Euler-Bernoulli bending when absent
+  dofs: number[];
+  loads: ElementLoad[];
+  foundation?: ElementFoundation;
+  hingeAtStart?: boolean;  // bending moment released at the start node
+  axialForce?: number;     // kN, tension positive; adds the geometric stiffness of a P-delta analysis
+  depth?: number;          // m, of a non-prismatic section, for temperature gradients
+}
+
+export interface BeamModelDefinition {
+  length: number;       // m
+  EI: number;           // kN·m²
+  GJ: number;           // kN·m²
+  EA: number;           // kN
+  GAs?: number;         // kN, shear rigidity for Timoshenko elements
+  supports: Support[];  // sorted by position
+  loads: Load[];
+  meshDensity: number;  // minimum number of elements over the beam length
+  foundations?: ElasticFoundation[];
+  hinges?: number[];    // m, internal moment releases
+  thermal?: ThermalProperties;  // needed for thermal loads
+  secondOrder?: boolean;        // P-delta: equilibrium in the deflected shape
+  sections?: SectionSegment[];  // non-prismatic parts, in place of EI, GJ, EA and GAs
+}
+
+/** Rigidities and depth of the cross-section at a point. */
+export interface SectionRigidities {
+  EI: number;     // kN·m²
+  GJ: number;     // kN·m²
+  EA: number;     // kN
+  GAs?: number;   // kN
+  depth: number;  // m
+}
+
+/**
+ * Stretch of beam whose section differs from the rest, stepped or tapered.
+ * Each element takes the section at its midpoint, so a taper is followed
+ * closely once the mesh is fine.
+ */
+export interface SectionSegment {
+  start: number;  // m
+  end: number;    // m
+  sectionAt: (x: number) => SectionRigidities;
+}
+
+export interface ThermalProperties {
+  expansion: number;  // 1/°C, coefficient of thermal expansion
+  depth: number;      // m, between the faces a temperature gradient is given for
+}
+
+/** What vibrates with the beam, for modal and dynamic analyses. */
+export interface BeamMass {
+  perLength: (x: number) => number;  // t/m, the beam's own mass at x
+  loads: Load[];      // kN and kN/m, gravity loads whose weight moves with the beam
+}
+
+export interface InternalActions {
+  axial: number;       // kN, tension positive
+  shear: number;       // kN
+  moment: number;      // kN·m
+  torsion: number;     // kN·m
+  rotation: number;    // rad
+  deflection: number;  // m
+}
+
+// Hermite shape functions and their derivatives at ξ = s / l
+const hermite = (xi: number, l: number) => [
+  1 - 3 * xi ** 2 + 2 * xi ** 3,
+  l * (xi - 2 * xi ** 2 + xi ** 3),
+  3 * xi ** 2 - 2 * xi ** 3,
+  l * (-(xi ** 2) + xi ** 3),
+];
+
+const hermiteSlope = (xi: number, l: number) => [
+  (6 / l) * (-xi + xi ** 2),
+  1 - 4 * xi + 3 * xi ** 2,
+  (6 / l) * (xi - xi ** 2),
+  -2 * xi + 3 * xi ** 2,
+];
+
+const GAUSS_POINTS = [
+  { xi: -Math.sqrt(3 / 5), w: 5 / 9 },
+  { xi: 0, w: 8 / 9 },
+  { xi: Math.sqrt(3 / 5), w: 5 / 9 },
+];
+
+// Local positions of the bending DOFs [v1, θ1, v2, θ2], the twists and the
+// axial displacements in the element's [v1, θ1, φ1, u1, v2, θ2, φ2, u2]
+const BENDING_DOFS = [0, 1, 4, 5];
+const TWIST_DOFS = [2, 6];
+const AXIAL_DOFS = [3, 7];
+
+/**
+ * Element stiffness in local DOF order [v1, θ1, φ1, u1, v2, θ2, φ2, u2],
+ * including the consistent Winkler spring matrix of a foundation in contact.
+ *
+ * With a shear rigidity the bending part is the exact Timoshenko element,
+ * where θ is the rotation of the cross-section and Φ = 12EI / (GAs·l²) is the
+ * ratio of shear to bending flexibility; Φ = 0 recovers Euler-Bernoulli.
+ * An axial force adds the consistent geometric stiffness N/(30l)·[…], which
+ * softens the element in compression.
+ */
+export function elementStiffness({ length: l, EI, GJ, EA, GAs, foundation, axialForce = 0 }: BeamElement): number[][] {
+  const phi = GAs ? (12 * EI) / (GAs * l * l) : 0;
+  const b = EI / ((1 + phi) * l ** 3);
+  const t = GJ / l;
+  const e = EA / l;
+  const w = foundation?.inContact ? (foundation.modulus * foundation.width * l) / 420 : 0;
+  const g = axialForce / (30 * l);
+  const near = (4 + phi) * l * l * b;
+  const far = (2 - phi) * l * l * b;
+  const bending = [
+    [12 * b + 156 * w + 36 * g, 6 * l * b + 22 * l * w + 3 * l * g, -12 * b + 54 * w - 36 * g, 6 * l * b - 13 * l * w + 3 * l * g],
+    [6 * l * b + 22 * l * w + 3 * l * g, near + 4 * l * l * w + 4 * l * l * g, -6 * l * b + 13 * l * w - 3 * l * g, far - 3 * l * l * w - l * l * g],
+    [-12 * b + 54 * w - 36 * g, -6 * l * b + 13 * l * w - 3 * l * g, 12 * b + 156 * w + 36 * g, -6 * l * b - 22 * l * w - 3 * l * g],
+    [6 * l * b - 13 * l * w + 3 * l * g, far - 3 * l * l * w - l * l * g, -6 * l * b - 22 * l * w - 3 * l * g, near + 4 * l * l * w + 4 * l * l * g],
+  ];
+  const k = Array.from({ length: 2 * DOFS_PER_NODE }, () => new Array<number>(2 * DOFS_PER_NODE).fill(0));
+  BENDING_DOFS.forEach((row, r) => BENDING_DOFS.forEach((col, c) => {
+    k[row][col] = bending[r][c];
+  }));
+  const addBar = ([first, second]: number[], stiffness: number) => {
+    k[first][first] = k[second][second] = stiffness;
+    k[first][second] = k[second][first] = -stiffness;
+  };
+  addBar(TWIST_DOFS, t);
+  addBar(AXIAL_DOFS, e);
+  return k;
+}
+
+/**
+ * Consistent mass matrix (t, t·m, t·m²) in local DOF order from a uniform
+ * mass per length and point masses at distances a along the element. Only
+ * the transverse motion carries mass, so the twist and axial DOFs stay
+ * massless and drop out of the vertical bending modes.
+ */
+export function elementMass(l: number, perLength: number, points: { a: number; mass: number }[]): number[][] {
+  const m = (perLength * l) / 420;
+  const bending = [
+    [156 * m, 22 * l * m, 54 * m, -13 * l * m],
+    [22 * l * m, 4 * l * l * m, 13 * l * m, -3 * l * l * m],
+    [54 * m, 13 * l * m, 156 * m, -22 * l * m],
+    [-13 * l * m, -3 * l * l * m, -22 * l * m, 4 * l * l * m],
+  ];
+  points.forEach(({ a, mass }) => {
+    const N = hermite(a / l, l);
+    N.forEach((Ni, r) => N.forEach((Nj, c) => {
+      bending[r][c] += mass * Ni * Nj;
+    }));
+  });
+  const M = Array.from({ length: 2 * DOFS_PER_NODE }, () => new Array<number>(2 * DOFS_PER_NODE).fill(0));
+  BENDING_DOFS.forEach((row, r) => BENDING_DOFS.forEach((col, c) => {
+    M[row][col] = bending[r][c];
+  }));
+  return M;
+}
+
+/**
+ * Stiffness and consistent loads of an element as assembled: a hinge at the
+ * start condenses out the element's own start rotation, leaving its row and
+ * column zero so the element carries no moment into the node.
+ */
+function assembledElement(element: BeamElement): { k: number[][]; f: number[] } {
+  const k = elementStiffness(element);
+  const f = equivalentNodalLoads(element);
+  if (!element.hingeAtStart) return { k, f };
+  const r = 1;
+  const krr = k[r][r];
+  const column = k.map(row => row[r]);
+  const released = [...k[r]];
+  const fr = f[r];
+  return {
+    k: k.map((row, i) => row.map((kij, j) => kij - (column[i] * released[j]) / krr)),
+    f: f.map((fi, i) => fi - (column[i] * fr) / krr),
+  };
+}
+
+/**
+ * Mass of an element as assembled. Behind a hinge the released rotation
+ * follows the other DOFs statically (θ = -Σ k_rj·u_j / k_rr), as in the
+ * condensed stiffness, and the mass is transformed the same way.
+ */
+function assembledMass(element: BeamElement, M: number[][]): number[][] {
+  if (!element.hingeAtStart) return M;
+  const k = elementStiffness(element);
+  const r = 1;
+  const T = k.map((_, i) => k.map((__, j): number => (i === j ? 1 : 0)));
+  T[r] = k[r].map((krj, j) => (j === r ? 0 : -krj / k[r][r]));
+  const product = (A: number[][], B: number[][]) =>
+    A.map(row => B[0].map((_, j) => row.reduce((sum, aik, i) => sum + aik * B[i][j], 0)));
+  const transposed = T.map((row, i) => row.map((_, j) => T[j][i]));
+  return product(transposed, product(M, T));
+}
+
+/** Rotation of the element's own start end behind a hinge, from its released moment being zero. */
+function releasedStartRotation(element: BeamElement, u: number[]): number {
+  const k = elementStiffness(element);
+  const f = equivalentNodalLoads(element);
+  const coupled = k[1].reduce((sum, k1j, j) => (j === 1 ? sum : sum + k1j * u[j]), 0);
+  return (f[1] - coupled) / k[1][1];
+}
+
+/**
+ * Consistent (work-equivalent) nodal loads, i.e. negated fixed-end forces.
+ * A thermal strain or curvature acts as the end forces that would hold it in.
+ */
+export function equivalentNodalLoads({ length: l, EI, EA, loads }: BeamElement): number[] {
+  const f = new Array<number>(2 * DOFS_PER_NODE).fill(0);
+  const addBending = (values: number[], scale: number) => {
+    BENDING_DOFS.forEach((dof, i) => {
+      f[dof] += values[i] * scale;
+    });
+  };
+
+  loads.forEach(load => {
+    switch (load.type) {
+      case 'point':
+        addBending(hermite(load.a / l, l), load.value);
+        break;
+      case 'moment':
+        addBending(hermiteSlope(load.a / l, l), load.value);
+        break;
+      case 'torsion':
+        f[TWIST_DOFS[0]] += load.value * (1 - load.a / l);
+        f[TWIST_DOFS[1]] += load.value * (load.a / l);
+        break;
+      case 'axial':
+        f[AXIAL_DOFS[0]] += load.value * (1 - load.a / l);
+        f[AXIAL_DOFS[1]] += load.value * (load.a / l);
+        break;
+      case 'thermal': {
+        const elongation = load.strain * (load.b - load.a);
+        f[AXIAL_DOFS[0]] -= (EA * elongation) / l;
+        f[AXIAL_DOFS[1]] += (EA * elongation) / l;
+        // Curvature over [a, b] is held in by opposing moments at its ends
+        addBending(hermiteSlope(load.a / l, l), EI * load.curvature);
+        addBending(hermiteSlope(load.b / l, l), -EI * load.curvature);
+        break;
+      }
+      case 'distributed': {
+        // Linear intensity times cubic shape functions: 3-point Gauss is exact
+        const half = (load.b - load.a) / 2;
+        const mid = (load.a + load.b) / 2;
+        GAUSS_POINTS.forEach(({ xi, w }) => {
+          const s = mid + xi * half;
+          const q = load.qa + ((load.qb - load.qa) * (s - load.a)) / (load.b - load.a);
+          addBending(hermite(s / l, l), q * w * half);
+        });
+        break;
+      }
+    }
+  });
+
+  return f;
+}
+
+/**
+ * Symmetric banded matrix storing the lower band row by row:
+ * entry (i, j) with i - bandwidth <= j <= i lives at i * (bandwidth + 1) + (i - j).
+ */
+export class BandedMatrix {
+  readonly values: Float64Array;
+
+  constructor(readonly size: number, readonly bandwidth: number) {
+    this.values = new Float64Array(size * (bandwidth + 1));
+  }
+
+  private index(i: number, j: number): number {
+    const [row, col] = i >= j ? [i, j] : [j, i];
+    if (row - col > this.bandwidth) throw new Error(`Entry (${i}, ${j}) lies outside the matrix band`);
+    return row * (this.bandwidth + 1) + (row - col);
+  }
+
+  get(i: number, j: number): number {
+    return Math.abs(i - j) > this.bandwidth ? 0 : this.values[this.index(i, j)];
+  }
+
+  add(i: number, j: number, value: number): void {
+    if (i < j) return; // upper triangle mirrors the lower one
+    this.values[this.index(i, j)] += value;
+  }
+
+  set(i: number, j: number, value: number): void {
+    this.values[this.index(i, j)] = value;
+  }
+
+  multiplyRow(i: number, x: ArrayLike<number>): number {
+    let sum = 0;
+    const from = Math.max(0, i - this.bandwidth);
+    const to = Math.min(this.size - 1, i + this.bandwidth);
+    for (let j = from; j <= to; j++) sum += this.get(i, j) * x[j];
+    return sum;
+  }
+
+  clone(): BandedMatrix {
+    const copy = new BandedMatrix(this.size, this.bandwidth);
+    copy.values.set(this.values);
+    return copy;
+  }
+}
+
+/**
+ * LDLᵀ factorisation of a symmetric banded matrix, in O(n·b²) time instead of
+ * the O(n³) of dense elimination. Once factored, each right-hand side costs
+ * only O(n·b).
+ */
+export class BandedFactorization {
+  private readonly L: BandedMatrix;
+  private readonly d: Float64Array;
+
+  constructor(K: BandedMatrix) {
+    const n = K.size;
+    const bw = K.bandwidth;
+    const L = K.clone();
+    const d = new Float64Array(n);
+
+    for (let j = 0; j < n; j++) {
+      let dj = L.get(j, j);
+      for (let k = Math.max(0, j - bw); k < j; k++) dj -= L.get(j, k) ** 2 * d[k];
+      // A pivot that has lost nearly all of its diagonal stiffness marks a mechanism
+      if (!(Math.abs(dj) > PIVOT_TOLERANCE * Math.abs(K.get(j, j)))) {
+        throw new Error('Matrix is singular or nearly singular. Check support conditions and load application.');
+      }
+      d[j] = dj;
+      for (let i = j + 1; i <= Math.min(n - 1, j + bw); i++) {
+        let lij = L.get(i, j);
+        for (let k = Math.max(0, i - bw); k < j; k++) lij -= L.get(i, k) * L.get(j, k) * d[k];
+        L.set(i, j, lij / dj);
+      }
+    }
+
+    this.L = L;
+    this.d = d;
+  }
+
+  /** Whether every pivot is positive, i.e. the structure is stable under its axial forces. */
+  get positiveDefinite(): boolean {
+    return this.d.every(pivot => pivot > 0);
+  }
+
+  solve(f: ArrayLike<number>): number[] {
+    const { L, d } = this;
+    const n = L.size;
+    const bw = L.bandwidth;
+    if (f.length !== n) throw new Error(`Force vector must have ${n} entries.`);
+
+    // Forward substitution (L·y = f), diagonal scaling, back substitution (Lᵀ·x = z),
+    // reading L(i, k) straight from its band storage at i·(bw + 1) + (i - k)
+    const { values } = L;
+    const stride = bw + 1;
+    const x = Array.from(f);
+    for (let i = 0; i < n; i++) {
+      for (let k = Math.max(0, i - bw); k < i; k++) x[i] -= values[i * stride + i - k] * x[k];
+    }
+    for (let i = 0; i < n; i++) x[i] /= d[i];
+    for (let i = n - 1; i >= 0; i--) {
+      for (let k = i + 1; k <= Math.min(n - 1, i + bw); k++) x[i] -= values[k * stride + k - i] * x[k];
+    }
+    return x;
+  }
+}
+
+/** Solves K·x = f for a symmetric banded K. */
+export function solveBandedSystem(K: BandedMatrix, f: ArrayLike<number>): number[] {
+  return new BandedFactorization(K).solve(f);
+}
+
+function buildMesh(
+  { length, supports, loads, meshDensity, foundations = [], hinges = [], sections = [] }: BeamModelDefinition,
+  extraPoints: number[] = []
+): number[] {
+  const keyPoints = [
+    0,
+    length,
+    ...extraPoints,
+    ...supports.map(support => support.position),
+    ...foundations.flatMap(foundation => [foundation.start, foundation.end]),
+    ...sections.flatMap(section => [section.start, section.end]),
+    ...hinges,
+  ];
+  loads.forEach(load => {
+    keyPoints.push(load.position);
+    if ((load.type === 'distributed' || load.type === 'linear' || load.type === 'thermal') && load.length) {
+      keyPoints.push(load.position + load.length);
+    }
+  });
+  keyPoints.sort((a, b) => a - b);
+  const unique = keyPoints.filter((pos, i) => i === 0 || pos - keyPoints[i - 1] > MESH_TOLERANCE);
+
+  const maxElementLength = length / meshDensity;
+  const nodes = [unique[0]];
+  for (let i = 1; i < unique.length; i++) {
+    const span = unique[i] - unique[i - 1];
+    const divisions = Math.max(1, Math.ceil(span / maxElementLength - MESH_TOLERANCE));
+    for (let k = 1; k <= divisions; k++) {
+      nodes.push(unique[i - 1] + (span * k) / divisions);
+    }
+  }
+  return nodes;
+}
+
+/** Loads acting on [start, end], in element-local coordinates. */
+function elementLoads(loads: Load[], start: number, end: number, isLast: boolean, thermal?: ThermalProperties): ElementLoad[] {
+  const length = end - start;
+  const result: ElementLoad[] = [];
+
+  loads.forEach(load => {
+    const sign = load.momentDirection === 'anticlockwise' ? -1 : 1;
+    switch (load.type) {
+      case 'distributed':
+      case 'linear': {
+        const { position, length: loadLength, magnitude } = load;
+        if (!loadLength) break;
+        const a = Math.max(start, position);
+        const b = Math.min(end, position + loadLength);
+        if (b - a <= MESH_TOLERANCE) break;
+        // Uniform loads are linear loads with equal end intensities
+        const endIntensity = load.type === 'linear' ? load.endMagnitude ?? magnitude : magnitude;
+        const intensityAt = (x: number) => magnitude + ((endIntensity - magnitude) * (x - position)) / loadLength;
+        result.push({ type: 'distributed', a: a - start, b: b - start, qa: intensityAt(a), qb: intensityAt(b) });
+        break;
+      }
+      case 'thermal': {
+        const { position, length: loadLength } = load;
+        if (!loadLength) break;
+        if (!thermal) throw new Error('Thermal loads need the coefficient of thermal expansion');
+        const a = Math.max(start, position);
+        const b = Math.min(end, position + loadLength);
+        if (b - a <= MESH_TOLERANCE) break;
+        result.push({
+          type: 'thermal',
+          a: a - start,
+          b: b - start,
+          strain: thermal.expansion * load.magnitude,
+          curvature: (thermal.expansion * (load.temperatureGradient ?? 0)) / thermal.depth,
+        });
+        break;
+      }
+      case 'point':
+      case 'moment':
+      case 'torsion':
+      case 'axial': {
+        // A concentrated action at a node is carried by the element starting
+        // there, or by the last element at the beam end
+        const inside = load.position >= start - MESH_TOLERANCE &&
+          (load.position < end - MESH_TOLERANCE || (isLast && load.position <= end + MESH_TOLERANCE));
+        if (!inside) break;
+        const a = Math.min(length, Math.max(0, load.position - start));
+        // Axial loads are given positive toward the beam start
+        const value = load.type === 'point' ? load.magnitude : load.type === 'axial' ? -load.magnitude : load.magnitude * sign;
+        result.push({ type: load.type, a, value });
+        break;
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Result of one stiffness analysis. Element end forces are computed once, so
+ * internal actions at any x cost a binary search and a few Macaulay terms.
+ */
+export class SolvedBeamModel {
+  constructor(
+    readonly nodes: number[],
+    readonly elements: BeamElement[],
+    readonly displacements: number[],
+    readonly endForces: number[][],
+    // Start rotation of each element, which differs from its node's behind a hinge
+    readonly startRotations: number[],
+    readonly reactions: Reactions
+  ) {}
+
+  /** Nodal [deflection (m), rotation (rad), twist (rad), axial displacement (m)]. */
+  nodalDisplacements(node: number): number[] {
+    const dof = node * DOFS_PER_NODE;
+    return this.displacements.slice(dof, dof + DOFS_PER_NODE);
+  }
+
+  /** Index of the element containing x; nodes belong to the element on their right. */
+  elementIndexAt(x: number): number {
+    let lo = 0;
+    let hi = this.elements.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.elements[mid].start <= x + MESH_TOLERANCE) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  }
+
+  /** Subgrade contact pressure at x (kPa), zero off the foundation or where it has lifted off. */
+  soilPressureAt(x: number): number {
+    const { foundation } = this.elements[this.elementIndexAt(x)];
+    return foundation?.inContact ? foundation.modulus * this.actionsAt(x).deflection : 0;
+  }
+
+  /** Stretches of compression-only foundation the beam has lifted off, as [start, end] in m. */
+  upliftRegions(): [number, number][] {
+    const regions: [number, number][] = [];
+    this.elements.forEach(({ start, length, foundation }) => {
+      if (!foundation || foundation.inContact) return;
+      const last = regions[regions.length - 1];
+      if (last && Math.abs(last[1] - start) <= MESH_TOLERANCE) last[1] = start + length;
+      else regions.push([start, start + length]);
+    });
+    return regions;
+  }
+
+  /**
+   * Internal actions at x from the end forces of the element containing it;
+   * rotation follows from integrating θ' = -M / EI - κT exactly, with κT the
+   * thermal curvature, and deflection from v' = θ + V / GAs (the shear strain
+   * only for Timoshenko elements).
+   */
+  actionsAt(x: number): InternalActions {
+    const index = this.elementIndexAt(x);
+    const element = this.elements[index];
+    const endForces = this.endForces[index];
+    const v0 = this.displacements[element.dofs[0]];
+    const theta0 = this.startRotations[index];
+
+    const s = Math.min(element.length, Math.max(0, x - element.start));
+    const V0 = -endForces[0];
+    const M0 = endForces[1];
+
+    // Macaulay terms for loads within the element: shear, moment and the
+    // first and second integrals of moment
+    let shear = V0;
+    let shearIntegral = V0 * s;
+    let moment = M0 + V0 * s;
+    let momentIntegral = M0 * s + (V0 * s * s) / 2;
+    let momentDoubleIntegral = (M0 * s * s) / 2 + (V0 * s ** 3) / 6;
+    let torsion = endForces[TWIST_DOFS[0]];
+    let axial = -endForces[AXIAL_DOFS[0]];
+    // First and second integrals of the thermal curvature
+    let thermalRotation = 0;
+    let thermalDeflection = 0;
+
+    element.loads.forEach(load => {
+      if (load.type === 'distributed') {
+        const slope = (load.qb - load.qa) / (load.b - load.a);
+        // Load from a onward minus its continuation beyond b
+        [
+          { from: load.a, q: load.qa, sign: 1 },
+          { from: load.b, q: load.qb, sign: -1 },
+        ].forEach(({ from, q, sign }) => {
+          const d = Math.max(0, s - from);
+          shear -= sign * (q * d + (slope * d ** 2) / 2);
+          shearIntegral -= sign * ((q * d ** 2) / 2 + (slope * d ** 3) / 6);
+          moment -= sign * ((q * d ** 2) / 2 + (slope * d ** 3) / 6);
+          momentIntegral -= sign * ((q * d ** 3) / 6 + (slope * d ** 4) / 24);
+          momentDoubleIntegral -= sign * ((q * d ** 4) / 24 + (slope * d ** 5) / 120);
+        });
+        return;
+      }
+      if (load.type === 'thermal') {
+        const inside = Math.max(0, Math.min(s, load.b) - load.a);
+        const beyond = Math.max(0, s - load.b);
+        thermalRotation += load.curvature * inside;
+        thermalDeflection += load.curvature * ((inside * inside) / 2 + inside * beyond);
+        return;
+      }
+      if (s < load.a) return;
+      const d = s - load.a;
+      switch (load.type) {
+        case 'point':
+          shear -= load.value;
+          shearIntegral -= load.value * d;
+          moment -= load.value * d;
+          momentIntegral -= (load.value * d * d) / 2;
+          momentDoubleIntegral -= (load.value * d ** 3) / 6;
+          break;
+        case 'moment':
+          moment += load.value;
+          momentIntegral += load.value * d;
+          momentDoubleIntegral += (load.value * d * d) / 2;
+          break;
+        case 'torsion':
+          torsion += load.value;
+          break;
+        case 'axial':
+          axial -= load.value;
+          break;
+      }
+    });
+
+    return {
+      axial,
+      shear,
+      moment,
+      torsion,
+      rotation: theta0 - momentIntegral / element.EI - thermalRotation,
+      deflection: v0 + theta0 * s - momentDoubleIntegral / element.EI - thermalDeflection
+        + (element.GAs ? shearIntegral / element.GAs : 0),
+    };
+  }
+}
+
+/**
+ * Meshes, assembles and solves the beam. Nodes are placed at the beam ends,
+ * supports, section changes and every load discontinuity, and the spans between them are
+ * subdivided to honour the requested mesh density.
+ *
+ * Each node carries [deflection, rotation, twist, axial displacement]. Loads
+ * enter through their exact consistent load vectors, so nodal displacements,
+ * element end forces and reactions are exact for Euler-Bernoulli bending,
+ * uniform torsion and axial force.
+ * Timoshenko elements are exact as well, except for the small fixed-end
+ * moment error of a linearly varying load on a single element.
+ */
+export function solveBeamModel(definition: BeamModelDefinition): SolvedBeamModel {
+  return solveBeamModelLoadSets(definition, [definition.loads])[0];
+}
+
+/** Unloaded elements between the mesh nodes. */
+function meshElements({ EI, GJ, EA, GAs, foundations = [], hinges = [], sections = [] }: BeamModelDefinition, nodes: number[]): BeamElement[] {
+  return nodes.slice(0, -1).map((start, i) => ({
+    start,
+    length: nodes[i + 1] - start,
+    EI,
+    GJ,
+    EA,
+    GAs,
+    ...elementSection(sections, start, nodes[i + 1]),
+    dofs: Array.from({ length: 2 * DOFS_PER_NODE }, (_, k) => i * DOFS_PER_NODE + k),
+    loads: [],
+    foundation: elementFoundation(foundations, start, nodes[i + 1]),
+    hingeAtStart: hinges.some(hinge => Math.abs(hinge - start) <= MESH_TOLERANCE),
+  }));
+}
+
+/** Section of a non-prismatic part over [start, end]; mesh nodes lie at every segment end. */
+function elementSection(sections: SectionSegment[], start: number, end: number): SectionRigidities | undefined {
+  const mid = (start + end) / 2;
+  return sections.find(section => section.start <= mid && mid <= section.end)?.sectionAt(mid);
+}
+
+/** Foundation under [start, end]; mesh nodes lie at every foundation end. */
+function elementFoundation(foundations: ElasticFoundation[], start: number, end: number): ElementFoundation | undefined {
+  const mid = (start + end) / 2;
+  const foundation = foundations.find(f => f.start <= mid && mid <= f.end);
+  if (!foundation) return undefined;
+  const { modulus, width, compressionOnly } = foundation;
+  return { modulus, width, compressionOnly, inContact: true };
+}
+
+/** Stiffness matrix with its supports applied, factored for any load set. */
+interface AssembledSystem {
+  K0: BandedMatrix;  // before supports are applied, for reaction recovery
+  K: BandedMatrix;   // with supports applied
+  factorization: BandedFactorization;
+  restrained: number[];
+  prescribed: number[];
+  movementLoads: number[];
+  supportDOFs: number[];
+}
+
+const holdsHorizontally = (support: Support) => support.type === 'pin' || support.type === 'fixed';
+
+function assembleSystem(elements: BeamElement[], nodes: number[], supports: Support[]): AssembledSystem {
+  const totalDOFs = nodes.length * DOFS_PER_NODE;
+  // Elements only couple neighbouring nodes
+  const K = new BandedMatrix(totalDOFs, 2 * DOFS_PER_NODE - 1);
+  elements.forEach(element => {
+    const ke = assembledElement(element).k;
+    element.dofs.forEach((row, r) => {
+      element.dofs.forEach((col, c) => K.add(row, col, ke[r][c]));
+    });
+  });
+
+  // Keep the unrestrained matrix for reaction recovery (R = K·U - F)
+  const K0 = K.clone();
+
+  // Restrain a DOF symmetrically so the system stays banded and positive definite
+  const restrained: number[] = [];
+  const prescribed = new Array<number>(totalDOFs).fill(0);
+  const restrain = (dof: number, value: number = 0) => {
+    for (let j = Math.max(0, dof - K.bandwidth); j <= Math.min(totalDOFs - 1, dof + K.bandwidth); j++) {
+      if (j >= dof) K.set(j, dof, 0);
+      else K.set(dof, j, 0);
+    }
+    K.set(dof, dof, 1);
+    restrained.push(dof);
+    prescribed[dof] = value;
+  };
+  // Loads from the support movements: springs pulled by their settling
+  // ground ends, and free DOFs coupled to a prescribed displacement
+  const movementLoads = new Array<number>(totalDOFs).fill(0);
+  const nodeIndex = (position: number) => nodes.findIndex(pos => Math.abs(pos - position) <= MESH_TOLERANCE);
+  const supportDOFs = supports.map(support => nodeIndex(support.position) * DOFS_PER_NODE);
+  supports.forEach((support, i) => {
+    const dof = supportDOFs[i];
+    const settlement = (support.settlement ?? 0) / 1000;  // mm → m
+    const rotation = support.imposedRotation ?? 0;
+    // Every support is a torsional fork
+    restrain(dof + 2);
+    switch (support.type) {
+      case 'fixed':
+        restrain(dof, settlement);
+        restrain(dof + 1, rotation);
+        restrain(dof + 3);
+        break;
+      case 'pin':
+        restrain(dof, settlement);
+        restrain(dof + 3);
+        break;
+      case 'roller':
+        restrain(dof, settlement);
+        break;
+      case 'spring':
+        K.add(dof, dof, support.stiffness ?? 0);
+        movementLoads[dof] += (support.stiffness ?? 0) * settlement;
+        break;
+    }
+    if (support.type !== 'fixed' && support.rotationalStiffness) {
+      K.add(dof + 1, dof + 1, support.rotationalStiffness);
+      movementLoads[dof + 1] += support.rotationalStiffness * rotation;
+    }
+  });
+  // Beams on a foundation need no support to restrain their twist, and rest
+  // on the soil's friction horizontally
+  if (supports.length === 0) restrain(2);
+  if (!supports.some(holdsHorizontally)) restrain(3);
+
+  const isRestrained = new Array<boolean>(totalDOFs).fill(false);
+  restrained.forEach(dof => {
+    isRestrained[dof] = true;
+  });
+  restrained.forEach(dof => {
+    if (prescribed[dof] === 0) return;
+    for (let j = Math.max(0, dof - K0.bandwidth); j <= Math.min(totalDOFs - 1, dof + K0.bandwidth); j++) {
+      if (!isRestrained[j]) movementLoads[j] -= K0.get(j, dof) * prescribed[dof];
+    }
+  });
+
+  return { K0, K, factorization: new BandedFactorization(K), restrained, prescribed, movementLoads, supportDOFs };
+}
+
+function solveLoadSet(
+  system: AssembledSystem,
+  geometry: BeamElement[],
+  nodes: number[],
+  supports: Support[],
+  loads: Load[],
+  thermal?: ThermalProperties
+): SolvedBeamModel {
+  const { K0, factorization, restrained, prescribed, movementLoads, supportDOFs } = system;
+  const F = new Array<number>(K0.size).fill(0);
+  const elements = geometry.map((element, i) => {
+    const loaded = {
+      ...element,
+      loads: elementLoads(
+        loads,
+        element.start,
+        element.start + element.length,
+        i === geometry.length - 1,
+        thermal && element.depth ? { ...thermal, depth: element.depth } : thermal
+      ),
+    };
+    const fe = assembledElement(loaded).f;
+    loaded.dofs.forEach((row, r) => {
+      F[row] += fe[r];
+    });
+    return loaded;
+  });
+  const F0 = [...F];
+  movementLoads.forEach((load, dof) => {
+    F[dof] += load;
+  });
+  restrained.forEach(dof => {
+    F[dof] = prescribed[dof];
+  });
+
+  const U = factorization.solve(F);
+
+  const startRotations = elements.map(element => (
+    element.hingeAtStart
+      ? releasedStartRotation(element, element.dofs.map(dof => U[dof]))
+      : U[element.dofs[1]]
+  ));
+  const endForces = elements.map(element => {
+    const u = element.dofs.map(dof => U[dof]);
+    const { k, f } = assembledElement(element);
+    return k.map((row, r) => row.reduce((sum, kr, c) => sum + kr * u[c], 0) - f[r]);
+  });
+  // The subgrade reaction, linear between the nodes, joins the element loads
+  // so that internal actions between the nodes account for it
+  elements.forEach(element => {
+    if (!element.foundation?.inContact) return;
+    const { modulus, width } = element.foundation;
+    element.loads.push({
+      type: 'distributed',
+      a: 0,
+      b: element.length,
+      qa: -modulus * width * U[element.dofs[0]],
+      qb: -modulus * width * U[element.dofs[DOFS_PER_NODE]],
+    });
+  });
+
+  const nodalResidual = (dof: number) => K0.multiplyRow(dof, U) - F0[dof];
+  const reactions: Reactions = supports.map((support, i) => {
+    const dof = supportDOFs[i];
+    // The unrestrained matrix leaves out the support springs, so the
+    // residual is the support force whether it is rigid or elastic
+    const force = -nodalResidual(dof);
+    const moment = support.type === 'fixed' || support.rotationalStiffness ? nodalResidual(dof + 1) : 0;
+    const horizontal = holdsHorizontally(support) ? nodalResidual(dof + 3) : 0;
+    return {
+      supportId: support.id,
+      position: support.position,
+      force: Number(force.toFixed(3)),
+      moment: Number(moment.toFixed(3)),
+      horizontal: Number(horizontal.toFixed(3)),
+    };
+  });
+
+  return new SolvedBeamModel(nodes, elements, U, endForces, startRotations, reactions);
+}
+
+/**
+ * Solves several load sets on the same beam, e.g. a unit load at many
+ * stations. The mesh has nodes at the discontinuities of every set, so the
+ * stiffness matrix is assembled and factored only once.
+ *
+ * Compression-only foundations make the response depend on the loads: each
+ * load set is re-solved with the springs of lifted-off elements removed until
+ * the contact region stops changing. A second-order (P-delta) analysis is
+ * likewise re-solved with the geometric stiffness of the axial forces until
+ * they stop changing.
+ */
+export function solveBeamModelLoadSets(definition: BeamModelDefinition, loadSets: Load[][]): SolvedBeamModel[] {
+  const { supports } = definition;
+  const nodes = buildMesh({ ...definition, loads: loadSets.flat() });
+  const geometry = meshElements(definition, nodes);
+  const fullContact = assembleSystem(geometry, nodes, supports);
+  const compressionOnly = geometry.some(element => element.foundation?.compressionOnly);
+
+  return loadSets.map(loads => {
+    let elements = geometry;
+    let system = fullContact;
+    for (let iteration = 0; ; iteration++) {
+      // Compression beyond the buckling load leaves no stable equilibrium
+      if (!system.factorization.positiveDefinite) {
+        throw new Error('The axial compression exceeds the elastic buckling load, so the P-delta analysis has no stable solution.');
+      }
+      const model = solveLoadSet(system, elements, nodes, supports, loads, definition.thermal);
+      const midpoint = (element: BeamElement) => model.actionsAt(element.start + element.length / 2);
+
+      // An element bears on the soil while its midpoint deflects downward
+      const contact = compressionOnly
+        ? elements.map(element => !element.foundation?.compressionOnly || midpoint(element).deflection > 0)
+        : undefined;
+      const contactSettled = !contact ||
+        elements.every((element, i) => !element.foundation || element.foundation.inContact === contact[i]);
+      const axialForces = definition.secondOrder ? elements.map(element => midpoint(element).axial) : undefined;
+      const axialSettled = !axialForces || elements.every((element, i) =>
+        Math.abs(axialForces[i] - (element.axialForce ?? 0)) <= AXIAL_FORCE_TOLERANCE * Math.max(1, Math.abs(axialForces[i]))
+      );
+      if (contactSettled && axialSettled) return model;
+
+      if (!contactSettled && iteration >= MAX_CONTACT_ITERATIONS) {
+        throw new Error('Foundation contact did not converge. Check the foundation and the loads.');
+      }
+      if (!axialSettled && iteration >= MAX_SECOND_ORDER_ITERATIONS) {
+        throw new Error('The P-delta analysis did not converge. Check the axial loads.');
+      }
+      elements = elements.map((element, i) => ({
+        ...element,
+        ...(contact && element.foundation && { foundation: { ...element.foundation, inContact: contact[i] } }),
+        ...(axialForces && { axialForce: axialForces[i] }),
+      }));
+      system = assembleSystem(elements, nodes, supports);
+    }
+  });
+}
+
+/** Stiffness and mass of the supported beam, for vibration and dynamic analyses. */
+export interface DynamicSystem {
+  nodes: number[];
+  K: BandedMatrix;  // kN/m; restrained DOFs keep only a unit diagonal
+  M: BandedMatrix;  // t; zero on restrained DOFs
+  totalMass: number;  // t, including the mass over the supports
+  factorization: BandedFactorization;  // of K
+  restrained: number[];
+}
+
+/**
+ * Assembles the linear stiffness and consistent mass of a beam: the soil
+ * stays in contact under any foundation and axial forces are left out.
+ * The mesh has nodes at the loads of the definition and of the mass, and at
+ * `keyPoints` where dynamic forces act or responses are wanted.
+ */
+export function assembleDynamicSystem(definition: BeamModelDefinition, mass: BeamMass, keyPoints: number[] = []): DynamicSystem {
+  const nodes = buildMesh({ ...definition, loads: [...definition.loads, ...mass.loads] }, keyPoints);
+  const elements = meshElements(definition, nodes);
+  const { K, factorization, restrained } = assembleSystem(elements, nodes, definition.supports);
+
+  const M = new BandedMatrix(K.size, K.bandwidth);
+  elements.forEach((element, i) => {
+    const loads = elementLoads(mass.loads, element.start, element.start + element.length, i === elements.length - 1);
+    // Mesh nodes lie at the ends of distributed loads, so each covers whole
+    // elements and its weight can be spread evenly over them
+    const weight = loads.reduce((sum, load) => (load.type === 'distributed' ? sum + ((load.qa + load.qb) / 2) * (load.b - load.a) : sum), 0);
+    const points = loads.flatMap(load => (load.type === 'point' ? [{ a: load.a, mass: load.value / GRAVITY }] : []));
+    const me = assembledMass(element, elementMass(element.length, mass.perLength(element.start + element.length / 2) + weight / (GRAVITY * element.length), points));
+    element.dofs.forEach((row, r) => {
+      element.dofs.forEach((col, c) => M.add(row, col, me[r][c]));
+    });
+  });
+  const translation = Array.from({ length: M.size }, (_, i): number => (i % DOFS_PER_NODE === 0 ? 1 : 0));
+  const totalMass = translation.reduce((sum, ri, i) => sum + ri * M.multiplyRow(i, translation), 0);
+  restrained.forEach(dof => {
+    for (let j = Math.max(0, dof - M.bandwidth); j <= Math.min(M.size - 1, dof + M.bandwidth); j++) {
+      if (j >= dof) M.set(j, dof, 0);
+      else M.set(dof, j, 0);
+    }
+  });
+
+  return { nodes, K, M, totalMass, factorization, restrained };
+}
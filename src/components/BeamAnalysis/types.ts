@@ -1,18 +1,29 @@
+export type LoadCase = 'D' | 'L' | 'Lr' | 'S' | 'W' | 'E' | 'T';
+
 export type Load = {
   id: number;
-  type: 'point' | 'distributed' | 'moment' | 'torsion';
+  loadCase?: LoadCase;    // dead load when omitted
+  type: 'point' | 'distributed' | 'linear' | 'moment' | 'torsion' | 'thermal' | 'axial';
   position: number;
-  magnitude: number;
+  magnitude: number;      // intensity at `position` for linear loads; uniform ΔT in °C for thermal loads;
+                          // kN toward the beam start (x = 0) for axial loads
   length?: number;
+  endMagnitude?: number;  // kN/m at `position + length`, linear loads only
+  temperatureGradient?: number;  // °C, bottom face minus top face change, thermal loads only
   momentDirection?: 'clockwise' | 'anticlockwise';
+  angle?: number;         // degrees from the vertical toward the weak axis, point, distributed and linear loads;
+                          // the sine part bends the beam sideways
+  selfWeight?: boolean;   // generated from the section and density, not edited by hand
 } & (
   | { type: 'moment' | 'torsion'; momentDirection: 'clockwise' | 'anticlockwise' }
-  | { type: 'point' | 'distributed'; momentDirection?: never }
+  | { type: 'point' | 'distributed' | 'linear' | 'thermal' | 'axial'; momentDirection?: never }
 );
   
   export interface MaterialProperties {
   elasticModulus: number;  // E in MPa
   shearModulus: number;    // G in MPa
+  thermalExpansion?: number;  // α in 1/°C
+  density?: number;           // ρ in kg/m³
   yieldStrength?: number;  // σy in MPa
   ultimateStrength?: number; // σu in MPa
 }
@@ -22,11 +33,19 @@ export type Load = {
     shear: number;
     moment: number;
     torsion: number;
+    axialForce: number;   // kN, tension positive
     normalStress: number;
     shearStress: number;
     torsionalStress: number;
     vonMisesStress: number;
-    deflection: number;
+    rotation: number;     // rad, clockwise positive
+    deflection: number;   // mm, downward positive
+    shearDeflection?: number;  // mm, part of the deflection due to shear, Timoshenko analysis only
+    soilPressure?: number;  // kPa, beams on an elastic foundation only
+    effectiveInertiaRatio?: number;  // Ie / Ig, cracked-section analysis only
+    shearY?: number;       // kN, Vy of the lateral load components, inclined loads only
+    momentY?: number;      // kN·m, My about the weak axis, inclined loads only
+    deflectionY?: number;  // mm, sideways in the direction of positive load angles, inclined loads only
   }
   
   export interface SectionProperties {
@@ -47,23 +66,216 @@ export type Load = {
     plasticModulusY?: number;   // m³
   }
   
-  export interface Reactions {
-    reactionA: number;
-    reactionB: number;
-    momentA: number;
-    momentB: number;
+  export type SupportType = 'pin' | 'roller' | 'fixed' | 'spring';
+
+  export interface Support {
+    id: number;
+    type: SupportType;
+    position: number;    // m
+    stiffness?: number;  // kN/m, translational stiffness of spring supports
+    rotationalStiffness?: number;  // kN·m/rad, rotational spring of pin, roller and spring supports
+    settlement?: number;       // mm, imposed downward movement (of the ground end of a spring)
+    imposedRotation?: number;  // rad, clockwise positive; fixed supports and rotational springs
   }
-  
+
+  export interface ElasticFoundation {
+    id: number;
+    start: number;     // m
+    end: number;       // m
+    modulus: number;   // kN/m³, modulus of subgrade reaction
+    width: number;     // m, bearing width
+    compressionOnly: boolean;  // the soil springs switch off where the beam lifts off
+  }
+
+  export interface Hinge {
+    id: number;
+    position: number;  // m, internal moment release
+  }
+
+  export interface BeamSegment {
+    id: number;
+    start: number;        // m
+    end: number;          // m
+    width: number;        // mm
+    startHeight: number;  // mm
+    endHeight: number;    // mm, tapering linearly from startHeight, e.g. a haunch
+  }
+
+  // Bars provided by the reinforcement design, for cracked-section deflections and moment redistribution
+  export interface ProvidedReinforcement {
+    tensionSteel: number;      // mm², bottom bars
+    effectiveDepth: number;    // mm, top face to the bottom bars
+    compressionSteel: number;  // mm², top bars
+    compressionDepth: number;  // mm, top face to the top bars
+    concreteStrength: number;  // MPa, f'c
+    steelYieldStrength: number;  // MPa, fy
+  }
+
+  export interface SecondOrderAmplification {
+    moment: number;      // largest second-order over largest first-order bending moment
+    deflection: number;  // the same for deflection
+  }
+
+  export interface StabilityCheck {
+    classification: 'determinate' | 'indeterminate' | 'mechanism';
+    degree: number;    // static indeterminacy; Infinity on an elastic foundation
+    issues: string[];  // why the beam is a mechanism and what to change
+  }
+
+  export interface LateralBrace {
+    id: number;
+    position: number;  // m, restrains the compression flange laterally and against twist
+  }
+
+  export interface BucklingSegment {
+    start: number;     // m
+    end: number;       // m
+    cantilever: boolean;   // runs out to a free end
+    maxMoment: number;     // kN·m, largest |M| in the segment
+    cb: number;            // lateral-torsional buckling modification factor
+    criticalMoment: number;     // kN·m, elastic Mcr
+    momentUtilisation: number;  // maxMoment / criticalMoment
+    axialCompression: number;   // kN, largest compression in the segment
+    eulerLoad: number;          // kN, elastic flexural buckling load
+    eulerAxis: 'weak' | 'strong';  // axis about which eulerLoad is found
+    axialUtilisation: number;   // axialCompression / eulerLoad
+  }
+
+  export interface VibrationMode {
+    number: number;     // 1 for the fundamental mode
+    frequency: number;  // Hz
+    period: number;     // s
+    effectiveMassRatio: number;  // share of the vibrating mass excited by a uniform vertical motion
+    shape: { position: number; deflection: number }[];  // position in m; deflection scaled to a peak of 1
+  }
+
+  // Downward positive force histories
+  export type ForceHistory =
+    | { type: 'harmonic'; amplitude: number; frequency: number }  // kN, Hz: amplitude·sin(2πft)
+    | { type: 'impulse'; amplitude: number; duration: number }    // kN, s: half-sine pulse, e.g. a heel drop
+    | { type: 'table'; points: { time: number; force: number }[] };  // s, kN: linear between points, zero outside
+
+  export interface DynamicLoad {
+    position: number;  // m
+    history: ForceHistory;
+  }
+
+  export interface TimeHistorySettings {
+    duration: number;      // s
+    timeStep: number;      // s
+    dampingRatio: number;  // fraction of critical damping in the first two modes
+  }
+
+  export interface ResponseHistory {
+    position: number;          // m
+    displacement: number[];    // mm, downward positive, at each time
+    acceleration: number[];    // m/s²
+    peakDisplacement: number;  // mm, largest magnitude
+    peakAcceleration: number;  // m/s², largest magnitude
+  }
+
+  export interface TimeHistoryResponse {
+    time: number[];  // s
+    points: ResponseHistory[];
+  }
+
+  export interface SupportReaction {
+    supportId: number;
+    position: number;  // m
+    force: number;     // kN, upward positive
+    moment: number;    // kN·m, clockwise positive
+    horizontal: number;  // kN, positive toward the beam end; pins and fixed supports only
+  }
+
+  export type Reactions = SupportReaction[];
+
+  export interface LoadCombination {
+    id: string;
+    name: string;
+    type: 'strength' | 'service';
+    factors: Partial<Record<LoadCase, number>>;
+    enabled: boolean;
+  }
+
+  // Sustained loading for ACI 318-19 long-term deflections
+  export interface LongTermSettings {
+    sustainedFractions: Partial<Record<LoadCase, number>>;  // part of each service load case that is sustained
+    duration: number;       // months under load
+    attachmentAge: number;  // months under load when the non-structural elements are attached
+  }
+
+  // ACI 318-19 Section 6.6.5 reduction of the negative moments at the supports
+  export interface MomentRedistribution {
+    enabled: boolean;
+    percent: number;  // requested reduction, capped at the permissible one
+  }
+
+  // Plastic (limit) analysis of steel beams by incremental hinge formation
+  export interface PlasticAnalysisSettings {
+    enabled: boolean;
+    loads: string;  // id of the load combination scaled to collapse, or 'entered' for the loads as entered
+  }
+
+  // Serviceability deflection limit, checked span by span
+  export interface DeflectionLimit {
+    id: number;
+    // Deflections checked: a load case alone, a combination, the service
+    // combination envelope, or the long-term or after-attachment deflection
+    source: 'case' | 'combination' | 'envelope' | 'longTerm' | 'incremental';
+    target?: string;            // load case or combination id, for those sources
+    kind: 'ratio' | 'absolute';
+    value: number;              // span over deflection (e.g. 360), or mm
+    doubleCantilevers: boolean; // ratio limits on overhangs use twice their length
+  }
+
+  export interface DeflectionCheck {
+    limitId: number;
+    start: number;        // m, span ends
+    end: number;
+    cantilever: boolean;
+    deflection: number;   // mm, largest from the chord between the supports, downward positive
+    position: number;     // m, where it occurs
+    allowable: number;    // mm
+    utilisation: number;  // |deflection| / allowable
+    chord: [number, number];  // mm, deflection measured from this line, at the span ends
+  }
+
+  export interface EnvelopeValue {
+    max: number;
+    min: number;
+    maxCombination: string;  // name of the governing combination
+    minCombination: string;
+  }
+
+  export interface EnvelopePoint {
+    position: number;
+    shear?: EnvelopeValue;       // kN, strength combinations
+    moment?: EnvelopeValue;      // kN·m, strength combinations
+    deflection?: EnvelopeValue;  // mm, service combinations
+  }
+
+  export interface BeamAnalysisOptions {
+    meshDensity?: number;  // minimum number of finite elements over the beam length
+    supportMovements?: boolean;  // apply support settlements and imposed rotations (default true)
+    foundations?: ElasticFoundation[];  // Winkler foundation under all or part of the beam
+    hinges?: Hinge[];
+    shearDeformation?: boolean;  // Timoshenko elements with shear deflection (default false)
+    shearAreaFactor?: number;    // shear area / gross area (5/6 for a rectangle)
+    secondOrder?: boolean;       // P-delta analysis of the axial forces (default false)
+    segments?: BeamSegment[];    // non-prismatic parts; elsewhere the beam height and width apply
+    crackedSection?: ProvidedReinforcement;  // reinforced concrete stiffness, ACI 318-19 effective inertia; for service analyses
+  }
+
   export interface BeamDeformationVisualizationProps {
     beamLength: number;
     deflectionData: DiagramPoint[];
-    startSupport: 'pin' | 'roller' | 'fixed' | 'free';
-    endSupport: 'pin' | 'roller' | 'fixed' | 'free';
-    startSupportPosition: number;
-    endSupportPosition: number;
+    supports: Support[];
     loads: Load[];
     elasticModulus: number;
     momentOfInertia: number;
+    envelope?: EnvelopePoint[];
+    hinges?: Hinge[];
+    mode?: VibrationMode;
   }
 
 export interface BeamProject {
@@ -74,10 +286,23 @@ export interface BeamProject {
   beamWidth: number;
   materialProps: MaterialProperties;
   loads: Load[];
-  startSupport: 'pin' | 'roller' | 'fixed' | 'free';
-  endSupport: 'pin' | 'roller' | 'fixed' | 'free';
-  startSupportPosition: number;
-  endSupportPosition: number;
+  supports: Support[];
+  foundations: ElasticFoundation[];
+  hinges: Hinge[];
+  segments: BeamSegment[];
+  lateralBraces: LateralBrace[];
+  shearDeformation: boolean;
+  shearAreaFactor: number;
+  secondOrder: boolean;
+  selfWeight: boolean;
+  crackedSection: boolean;
+  reinforcement: ProvidedReinforcement | null;  // from the last reinforcement design
+  longTermSettings: LongTermSettings;
+  deflectionLimits: DeflectionLimit[];
+  redistribution: MomentRedistribution;
+  plasticAnalysis: PlasticAnalysisSettings;
+  loadCombinations: LoadCombination[];
+  patternLiveLoad: boolean;
   diagramData: DiagramPoint[];
   reactions: Reactions;
   showStressInfo: boolean;